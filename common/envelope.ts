@@ -0,0 +1,31 @@
+// Every frame exchanged between the MCP server and the extension is wrapped
+// in a signed envelope. The signature is the hex encoded HMAC-SHA256, keyed
+// with the shared secret, of `${nonce}.${issuedAt}.${JSON.stringify(payload)}`.
+// The nonce and the issue time let the receiver reject replayed frames.
+export interface SignedEnvelope<T> {
+  payload: T;
+  nonce: string;
+  issuedAt: number;
+  signature: string;
+}
+
+export type EnvelopeRejectionReason =
+  | "malformed"
+  | "invalid-signature"
+  | "stale"
+  | "duplicate";
+
+// Checks the shape of a received frame before its signature is verified. The
+// payload is left for the message schemas to check once it is authenticated.
+export function isSignedEnvelope(value: unknown): value is SignedEnvelope<unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const envelope = value as Partial<Record<keyof SignedEnvelope<unknown>, unknown>>;
+  return (
+    typeof envelope.nonce === "string" &&
+    typeof envelope.issuedAt === "number" &&
+    typeof envelope.signature === "string" &&
+    envelope.payload !== undefined
+  );
+}
@@ -0,0 +1,25 @@
+// Machine-readable codes of the errors surfaced by the extension and the MCP
+// server, so that clients can tell retryable conditions from policy denials.
+export type ErrorCode =
+  // The command arguments are invalid, e.g. a non-https URL
+  | "INVALID_ARGUMENT"
+  // The tab does not exist (anymore) or is not ready
+  | "TAB_NOT_FOUND"
+  // The domain is in the deny list set in the extension options
+  | "DOMAIN_DENIED"
+  // The tool is disabled in the extension options
+  | "TOOL_DISABLED"
+  // No element matches the selector
+  | "ELEMENT_NOT_FOUND"
+  // The command did not complete before its deadline
+  | "TIMEOUT"
+  // The request was cancelled by the MCP client
+  | "CANCELLED"
+  // No browser extension (or not the requested one) is connected
+  | "NOT_CONNECTED"
+  // The connected extension build does not support the command
+  | "UNSUPPORTED_COMMAND"
+  // The browser denied an API call the command relies on
+  | "PERMISSION_REQUIRED"
+  // Any other failure
+  | "INTERNAL";
@@ -1,3 +1,5 @@
+import type { ErrorCode } from "./errors";
+
 export interface ExtensionMessageBase {
   resource: string;
   correlationId: string;
@@ -17,16 +19,41 @@ export interface BrowserTab {
   url?: string;
   title?: string;
   lastAccessed?: number;
+  windowId?: number;
+  // Position of the tab in its window
+  index?: number;
+  // Firefox container of the tab, "firefox-default" outside of containers
+  cookieStoreId?: string;
+  active?: boolean;
+  // "loading" or "complete"
+  status?: string;
+  pinned?: boolean;
+  // Whether the tab is playing sound, even when muted
+  audible?: boolean;
+  mutedInfo?: TabMutedInfo;
+  // Unloaded from memory, the tab reloads when activated
+  discarded?: boolean;
+  incognito?: boolean;
+  favIconUrl?: string;
+}
+
+export interface TabMutedInfo {
+  muted: boolean;
+  // What muted the tab, e.g. "user" or "extension"
+  reason?: string;
 }
 
 export interface TabsExtensionMessage extends ExtensionMessageBase {
   resource: "tabs";
   tabs: BrowserTab[];
+  // Number of tabs matching the query, of which tabs is a page
+  totalCount?: number;
 }
 
 export interface OpenedTabIdExtensionMessage extends ExtensionMessageBase {
   resource: "opened-tab-id";
-  tabId: number | undefined;
+  // Absent when the browser did not assign an id to the tab
+  tabId?: number;
 }
 
 export interface BrowserHistoryItem {
@@ -41,11 +68,122 @@ export interface BrowserHistoryExtensionMessage extends ExtensionMessageBase {
   historyItems: BrowserHistoryItem[];
 }
 
+export interface TabExtensionMessage extends ExtensionMessageBase {
+  resource: "tab";
+  tab: BrowserTab;
+}
+
+export interface TabsDiscardedExtensionMessage extends ExtensionMessageBase {
+  resource: "tabs-discarded";
+  tabs: BrowserTab[];
+}
+
 export interface ReorderedTabsExtensionMessage extends ExtensionMessageBase {
   resource: "tabs-reordered";
   tabOrder: number[];
 }
 
+// A Firefox container (contextual identity)
+export interface BrowserContainer {
+  cookieStoreId: string;
+  name: string;
+  color: string;
+  icon: string;
+}
+
+export interface ContainersExtensionMessage extends ExtensionMessageBase {
+  resource: "containers";
+  containers: BrowserContainer[];
+}
+
+export interface BrowserWindow {
+  id?: number;
+  // As reported by the browser, e.g. "normal" or "popup"
+  type?: string;
+  // As reported by the browser, e.g. "normal", "minimized" or "maximized"
+  state?: string;
+  focused: boolean;
+  incognito: boolean;
+  left?: number;
+  top?: number;
+  width?: number;
+  height?: number;
+  tabCount: number;
+}
+
+export interface WindowsExtensionMessage extends ExtensionMessageBase {
+  resource: "windows";
+  windows: BrowserWindow[];
+}
+
+// The window created, focused or minimized by a command
+export interface WindowExtensionMessage extends ExtensionMessageBase {
+  resource: "window";
+  window: BrowserWindow;
+}
+
+export interface SessionRestoredExtensionMessage extends ExtensionMessageBase {
+  resource: "session-restored";
+  window: BrowserWindow;
+  tabs: BrowserTab[];
+  // Tabs of the session that were not opened, with the reason
+  skipped: { url: string; reason: string }[];
+}
+
+export interface WindowClosedExtensionMessage extends ExtensionMessageBase {
+  resource: "window-closed";
+  windowId: number;
+}
+
+export interface TabsMovedExtensionMessage extends ExtensionMessageBase {
+  resource: "tabs-moved";
+  tabs: BrowserTab[];
+}
+
+export interface NavigationResultExtensionMessage extends ExtensionMessageBase {
+  resource: "navigation-result";
+  tabId: number;
+  url?: string;
+  title?: string;
+  // Loading status of the tab, "complete" once the page has loaded
+  status?: string;
+  // Status code of the page's HTTP response, when the browser reports it
+  httpStatus?: number;
+}
+
+export interface BrowserBookmark {
+  id: string;
+  parentId?: string;
+  title: string;
+  // Absent for folders
+  url?: string;
+  type: "bookmark" | "folder";
+  // In ms since the epoch
+  dateAdded?: number;
+  // Level below the listed folder, in bookmark trees
+  depth?: number;
+  // Created through the MCP server, and so removable by it
+  createdByAgent: boolean;
+}
+
+// Bookmarks found by a search, or the folder tree listed depth first. The
+// bookmarks in the deny list are left out.
+export interface BookmarksExtensionMessage extends ExtensionMessageBase {
+  resource: "bookmarks";
+  bookmarks: BrowserBookmark[];
+}
+
+// The bookmark or folder created by a command
+export interface BookmarkExtensionMessage extends ExtensionMessageBase {
+  resource: "bookmark";
+  bookmark: BrowserBookmark;
+}
+
+export interface BookmarksRemovedExtensionMessage extends ExtensionMessageBase {
+  resource: "bookmarks-removed";
+  bookmarkIds: string[];
+}
+
 export interface FindHighlightExtensionMessage extends ExtensionMessageBase {
   resource: "find-highlight-result";
   noOfResults: number;
@@ -69,6 +207,7 @@ export interface ScrollResultExtensionMessage extends ExtensionMessageBase {
   success: boolean;
   finalPosition: { x: number; y: number };
   message: string;
+  errorCode?: ErrorCode;
   timestamp: number;
 }
 
@@ -78,6 +217,7 @@ export interface ClickResultExtensionMessage extends ExtensionMessageBase {
   elementFound: boolean;
   clickExecuted: boolean;
   message: string;
+  errorCode?: ErrorCode;
   timestamp: number;
   elementInfo?: {
     exists: boolean;
@@ -92,6 +232,7 @@ export interface HoverResultExtensionMessage extends ExtensionMessageBase {
   success: boolean;
   elementFound: boolean;
   message: string;
+  errorCode?: ErrorCode;
   timestamp: number;
   elementInfo?: {
     exists: boolean;
@@ -105,6 +246,7 @@ export interface TypeResultExtensionMessage extends ExtensionMessageBase {
   resource: "type-result";
   success: boolean;
   message: string;
+  errorCode?: ErrorCode;
   timestamp: number;
   charactersTyped?: number;
   elementInfo?: {
@@ -119,6 +261,7 @@ export interface WaitResultExtensionMessage extends ExtensionMessageBase {
   resource: "wait-result";
   success: boolean;
   message: string;
+  errorCode?: ErrorCode;
   timestamp: number;
   conditionMet?: boolean;
   waitTime?: number;
@@ -136,6 +279,18 @@ export type ExtensionMessage =
   | OpenedTabIdExtensionMessage
   | BrowserHistoryExtensionMessage
   | ReorderedTabsExtensionMessage
+  | TabExtensionMessage
+  | TabsDiscardedExtensionMessage
+  | ContainersExtensionMessage
+  | WindowsExtensionMessage
+  | WindowExtensionMessage
+  | SessionRestoredExtensionMessage
+  | WindowClosedExtensionMessage
+  | TabsMovedExtensionMessage
+  | NavigationResultExtensionMessage
+  | BookmarksExtensionMessage
+  | BookmarkExtensionMessage
+  | BookmarksRemovedExtensionMessage
   | FindHighlightExtensionMessage
   | TabsClosedExtensionMessage
   | ScreenshotExtensionMessage
@@ -148,4 +303,89 @@ export type ExtensionMessage =
 export interface ExtensionError {
   correlationId: string;
   errorMessage: string;
-}
\ No newline at end of file
+  // Absent in errors sent by older extension builds
+  errorCode?: ErrorCode;
+}
+
+// Sent by the extension right after the WebSocket connection opens, so the
+// server can register the connection under a stable browser/profile identity
+// and knows which commands the connected extension build understands.
+export interface ExtensionHelloMessage {
+  resource: "extension-hello";
+  browserId: string;
+  browserName: string;
+  profileLabel?: string;
+  extensionVersion: string;
+  protocolVersion: number;
+  supportedCommands: string[];
+}
+
+// Intermediate progress of a long-running command, such as a full-page
+// screenshot. Sent zero or more times before the command's response.
+export interface ProgressExtensionMessage extends ExtensionMessageBase {
+  resource: "progress";
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface BrowserDownload {
+  id: number;
+  url: string;
+  filename: string;
+  state: "in_progress" | "interrupted" | "complete";
+  bytesReceived: number;
+  totalBytes: number;
+  error?: string;
+}
+
+export interface TabCreatedBrowserEvent {
+  type: "tab-created";
+  tab: BrowserTab;
+}
+
+export interface TabUpdatedBrowserEvent {
+  type: "tab-updated";
+  tab: BrowserTab;
+  // Whether the tab finished loading with this update
+  loadComplete: boolean;
+}
+
+export interface TabRemovedBrowserEvent {
+  type: "tab-removed";
+  tabId: number;
+  windowId: number;
+}
+
+export interface TabActivatedBrowserEvent {
+  type: "tab-activated";
+  tabId: number;
+  windowId: number;
+}
+
+export interface NavigationCompletedBrowserEvent {
+  type: "navigation-completed";
+  tabId: number;
+  url: string;
+}
+
+export interface DownloadChangedBrowserEvent {
+  type: "download-changed";
+  download: BrowserDownload;
+}
+
+export type BrowserEvent =
+  | TabCreatedBrowserEvent
+  | TabUpdatedBrowserEvent
+  | TabRemovedBrowserEvent
+  | TabActivatedBrowserEvent
+  | NavigationCompletedBrowserEvent
+  | DownloadChangedBrowserEvent;
+
+// Pushed by the extension to every connected server whenever something
+// changes in the browser. Not tied to a request, so it has no correlationId.
+export interface BrowserEventExtensionMessage {
+  resource: "browser-event";
+  event: BrowserEvent;
+  timestamp: number;
+}
@@ -1,2 +1,5 @@
 export * from "./server-messages";
 export * from "./extension-messages";
+export * from "./envelope";
+export * from "./errors";
+export * from "./schemas";
@@ -0,0 +1,847 @@
+import { z } from "zod";
+import type { ErrorCode } from "./errors";
+import type {
+  CancelServerMessage,
+  ServerHelloMessage,
+  ServerMessage,
+  ServerMessageRequest,
+} from "./server-messages";
+import type {
+  BrowserEvent,
+  BrowserEventExtensionMessage,
+  ExtensionError,
+  ExtensionHelloMessage,
+  ExtensionMessage,
+  ProgressExtensionMessage,
+} from "./extension-messages";
+
+// Runtime schemas of the messages exchanged between the MCP server and the
+// extension, checked by the receiving end before it acts on a payload. Each
+// schema is checked against its interface at compile time (`satisfies`), so
+// that the two cannot drift apart. Unknown fields are stripped, which lets
+// older builds accept the messages of newer ones.
+
+// The output type must match the interface, the input is the raw JSON
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, any>;
+
+// Thrown when a payload received from the other end does not match the
+// message protocol. Carries the correlationId of the payload when it has a
+// valid one, so that the receiver can fail the request it belongs to.
+export class MalformedMessageError extends Error {
+  readonly correlationId: string | undefined;
+
+  constructor(message: string, correlationId?: string) {
+    super(message);
+    this.name = "MalformedMessageError";
+    this.correlationId = correlationId;
+  }
+}
+
+const errorCodeSchema = z.enum([
+  "INVALID_ARGUMENT",
+  "TAB_NOT_FOUND",
+  "DOMAIN_DENIED",
+  "TOOL_DISABLED",
+  "ELEMENT_NOT_FOUND",
+  "TIMEOUT",
+  "CANCELLED",
+  "NOT_CONNECTED",
+  "UNSUPPORTED_COMMAND",
+  "PERMISSION_REQUIRED",
+  "INTERNAL",
+]) satisfies Schema<ErrorCode>;
+
+// Codes unknown to this build are dropped, so the error is reported as INTERNAL
+const optionalErrorCodeSchema = errorCodeSchema.optional().catch(undefined);
+
+const modifiersSchema = z
+  .object({
+    ctrl: z.boolean().optional(),
+    alt: z.boolean().optional(),
+    shift: z.boolean().optional(),
+    meta: z.boolean().optional(),
+  })
+  .optional();
+
+const behaviorSchema = z.enum(["auto", "smooth"]).optional();
+const scrollAlignmentSchema = z.enum(["start", "center", "end", "nearest"]).optional();
+const mouseButtonSchema = z.enum(["left", "right", "middle"]).optional();
+const clickTypeSchema = z.enum(["single", "double"]).optional();
+
+// Server messages
+
+const openTabSchema = z.object({
+  cmd: z.literal("open-tab"),
+  url: z.string(),
+  cookieStoreId: z.string().optional(),
+});
+
+const closeTabsSchema = z.object({
+  cmd: z.literal("close-tabs"),
+  tabIds: z.array(z.number()),
+});
+
+const tabQuerySchema = z.object({
+  urlPattern: z.string().optional(),
+  titleContains: z.string().optional(),
+  windowId: z.number().optional(),
+  active: z.boolean().optional(),
+  pinned: z.boolean().optional(),
+  audible: z.boolean().optional(),
+  lastAccessedAfter: z.number().optional(),
+  lastAccessedBefore: z.number().optional(),
+  sortBy: z.enum(["index", "lastAccessed", "title", "url"]).optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  offset: z.number().optional(),
+  limit: z.number().optional(),
+});
+
+const getTabListSchema = tabQuerySchema.extend({
+  cmd: z.literal("get-tab-list"),
+});
+
+const getBrowserRecentHistorySchema = z.object({
+  cmd: z.literal("get-browser-recent-history"),
+  searchQuery: z.string().optional(),
+});
+
+const getTabContentSchema = z.object({
+  cmd: z.literal("get-tab-content"),
+  tabId: z.number(),
+  offset: z.number().optional(),
+  maxLength: z.number().optional(),
+});
+
+const reorderTabsSchema = z.object({
+  cmd: z.literal("reorder-tabs"),
+  tabOrder: z.array(z.number()),
+});
+
+const updateTabSchema = z.object({
+  cmd: z.literal("update-tab"),
+  tabId: z.number(),
+  active: z.boolean().optional(),
+  pinned: z.boolean().optional(),
+  muted: z.boolean().optional(),
+});
+
+const discardTabsSchema = z.object({
+  cmd: z.literal("discard-tabs"),
+  tabIds: z.array(z.number()),
+});
+
+const duplicateTabSchema = z.object({
+  cmd: z.literal("duplicate-tab"),
+  tabId: z.number(),
+});
+
+const getContainerListSchema = z.object({
+  cmd: z.literal("get-container-list"),
+});
+
+const getWindowListSchema = z.object({
+  cmd: z.literal("get-window-list"),
+});
+
+const createWindowSchema = z.object({
+  cmd: z.literal("create-window"),
+  type: z.enum(["normal", "popup"]).optional(),
+  url: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+const restoreSessionSchema = z.object({
+  cmd: z.literal("restore-session"),
+  tabs: z.array(
+    z.object({
+      url: z.string(),
+      title: z.string().optional(),
+      pinned: z.boolean().optional(),
+      cookieStoreId: z.string().optional(),
+    })
+  ),
+});
+
+const focusWindowSchema = z.object({
+  cmd: z.literal("focus-window"),
+  windowId: z.number(),
+});
+
+const minimizeWindowSchema = z.object({
+  cmd: z.literal("minimize-window"),
+  windowId: z.number(),
+});
+
+const closeWindowSchema = z.object({
+  cmd: z.literal("close-window"),
+  windowId: z.number(),
+});
+
+const moveTabsSchema = z.object({
+  cmd: z.literal("move-tabs"),
+  tabIds: z.array(z.number()),
+  windowId: z.number(),
+  index: z.number().optional(),
+});
+
+const navigationSchema = z.object({
+  tabId: z.number(),
+  waitForLoad: z.number().optional(),
+});
+
+const navigateTabSchema = navigationSchema.extend({
+  cmd: z.literal("navigate-tab"),
+  url: z.string(),
+});
+
+const goBackSchema = navigationSchema.extend({
+  cmd: z.literal("go-back"),
+});
+
+const goForwardSchema = navigationSchema.extend({
+  cmd: z.literal("go-forward"),
+});
+
+const reloadTabSchema = navigationSchema.extend({
+  cmd: z.literal("reload-tab"),
+  bypassCache: z.boolean().optional(),
+});
+
+const searchBookmarksSchema = z.object({
+  cmd: z.literal("search-bookmarks"),
+  query: z.string(),
+  maxResults: z.number().optional(),
+});
+
+const getBookmarkTreeSchema = z.object({
+  cmd: z.literal("get-bookmark-tree"),
+  folderId: z.string().optional(),
+  maxDepth: z.number().optional(),
+});
+
+const createBookmarkSchema = z.object({
+  cmd: z.literal("create-bookmark"),
+  url: z.string(),
+  title: z.string(),
+  folderPath: z.array(z.string()).optional(),
+});
+
+const createBookmarkFolderSchema = z.object({
+  cmd: z.literal("create-bookmark-folder"),
+  folderPath: z.array(z.string()),
+});
+
+const removeBookmarksSchema = z.object({
+  cmd: z.literal("remove-bookmarks"),
+  bookmarkIds: z.array(z.string()),
+});
+
+const findHighlightSchema = z.object({
+  cmd: z.literal("find-highlight"),
+  tabId: z.number(),
+  queryPhrase: z.string(),
+});
+
+const takeScreenshotSchema = z.object({
+  cmd: z.literal("take-screenshot"),
+  tabId: z.number(),
+  format: z.enum(["png", "jpeg"]).optional(),
+  quality: z.number().optional(),
+});
+
+const scrollToPositionSchema = z.object({
+  cmd: z.literal("scroll-to-position"),
+  tabId: z.number(),
+  x: z.number().optional(),
+  y: z.number(),
+  behavior: behaviorSchema,
+});
+
+const scrollByOffsetSchema = z.object({
+  cmd: z.literal("scroll-by-offset"),
+  tabId: z.number(),
+  deltaX: z.number().optional(),
+  deltaY: z.number(),
+  behavior: behaviorSchema,
+});
+
+const scrollToElementSchema = z.object({
+  cmd: z.literal("scroll-to-element"),
+  tabId: z.number(),
+  selector: z.string(),
+  block: scrollAlignmentSchema,
+  inline: scrollAlignmentSchema,
+  behavior: behaviorSchema,
+});
+
+const clickAtCoordinatesSchema = z.object({
+  cmd: z.literal("click-at-coordinates"),
+  tabId: z.number(),
+  x: z.number(),
+  y: z.number(),
+  button: mouseButtonSchema,
+  clickType: clickTypeSchema,
+  modifiers: modifiersSchema,
+});
+
+const clickElementSchema = z.object({
+  cmd: z.literal("click-element"),
+  tabId: z.number(),
+  selector: z.string(),
+  button: mouseButtonSchema,
+  clickType: clickTypeSchema,
+  waitForElement: z.number().optional(),
+  scrollIntoView: z.boolean().optional(),
+  modifiers: modifiersSchema,
+});
+
+const hoverElementSchema = z.object({
+  cmd: z.literal("hover-element"),
+  tabId: z.number(),
+  selector: z.string().optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  waitForElement: z.number().optional(),
+});
+
+const typeTextSchema = z.object({
+  cmd: z.literal("type-text"),
+  tabId: z.number(),
+  text: z.string(),
+  selector: z.string().optional(),
+  clearFirst: z.boolean().optional(),
+  typeDelay: z.number().optional(),
+  waitForElement: z.number().optional(),
+});
+
+const sendSpecialKeysSchema = z.object({
+  cmd: z.literal("send-special-keys"),
+  tabId: z.number(),
+  keys: z.array(z.string()),
+  selector: z.string().optional(),
+  modifiers: modifiersSchema,
+});
+
+const clearInputFieldSchema = z.object({
+  cmd: z.literal("clear-input-field"),
+  tabId: z.number(),
+  selector: z.string(),
+  waitForElement: z.number().optional(),
+});
+
+const waitForTimeSchema = z.object({
+  cmd: z.literal("wait-for-time"),
+  duration: z.number(),
+  message: z.string().optional(),
+});
+
+const waitForElementSchema = z.object({
+  cmd: z.literal("wait-for-element"),
+  tabId: z.number(),
+  selector: z.string(),
+  timeout: z.number().optional(),
+  pollInterval: z.number().optional(),
+  visible: z.boolean().optional(),
+});
+
+const waitForElementVisibilitySchema = z.object({
+  cmd: z.literal("wait-for-element-visibility"),
+  tabId: z.number(),
+  selector: z.string(),
+  timeout: z.number().optional(),
+  threshold: z.number().optional(),
+});
+
+const waitForConditionSchema = z.object({
+  cmd: z.literal("wait-for-condition"),
+  tabId: z.number(),
+  condition: z.string(),
+  timeout: z.number().optional(),
+  pollInterval: z.number().optional(),
+  args: z.record(z.any()).optional(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion("cmd", [
+  openTabSchema,
+  closeTabsSchema,
+  getTabListSchema,
+  getBrowserRecentHistorySchema,
+  getTabContentSchema,
+  reorderTabsSchema,
+  updateTabSchema,
+  discardTabsSchema,
+  duplicateTabSchema,
+  getContainerListSchema,
+  getWindowListSchema,
+  createWindowSchema,
+  restoreSessionSchema,
+  focusWindowSchema,
+  minimizeWindowSchema,
+  closeWindowSchema,
+  moveTabsSchema,
+  navigateTabSchema,
+  goBackSchema,
+  goForwardSchema,
+  reloadTabSchema,
+  searchBookmarksSchema,
+  getBookmarkTreeSchema,
+  createBookmarkSchema,
+  createBookmarkFolderSchema,
+  removeBookmarksSchema,
+  findHighlightSchema,
+  takeScreenshotSchema,
+  scrollToPositionSchema,
+  scrollByOffsetSchema,
+  scrollToElementSchema,
+  clickAtCoordinatesSchema,
+  clickElementSchema,
+  hoverElementSchema,
+  typeTextSchema,
+  sendSpecialKeysSchema,
+  clearInputFieldSchema,
+  waitForTimeSchema,
+  waitForElementSchema,
+  waitForElementVisibilitySchema,
+  waitForConditionSchema,
+]) satisfies Schema<ServerMessage>;
+
+export const serverMessageRequestSchema = z.intersection(
+  serverMessageSchema,
+  z.object({
+    correlationId: z.string(),
+    deadline: z.number().optional(),
+  })
+) satisfies Schema<ServerMessageRequest>;
+
+export const serverHelloSchema = z.object({
+  cmd: z.literal("server-hello"),
+  serverId: z.string(),
+  port: z.number().optional(),
+  startedAt: z.number(),
+  protocolVersion: z.number(),
+}) satisfies Schema<ServerHelloMessage>;
+
+export const cancelSchema = z.object({
+  cmd: z.literal("cancel"),
+  correlationId: z.string(),
+}) satisfies Schema<CancelServerMessage>;
+
+// Extension messages
+
+// Serialized DOMRect, which has no methods once it went through JSON
+const boundingRectSchema = z.custom<DOMRect>(
+  (value) => typeof value === "object" && value !== null
+);
+
+const elementInfoSchema = z
+  .object({
+    exists: z.boolean(),
+    visible: z.boolean(),
+    interactable: z.boolean(),
+    boundingRect: boundingRectSchema.optional(),
+  })
+  .optional();
+
+const browserTabSchema = z.object({
+  id: z.number().optional(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  lastAccessed: z.number().optional(),
+  windowId: z.number().optional(),
+  index: z.number().optional(),
+  cookieStoreId: z.string().optional(),
+  active: z.boolean().optional(),
+  status: z.string().optional(),
+  pinned: z.boolean().optional(),
+  audible: z.boolean().optional(),
+  mutedInfo: z
+    .object({
+      muted: z.boolean(),
+      reason: z.string().optional(),
+    })
+    .optional(),
+  discarded: z.boolean().optional(),
+  incognito: z.boolean().optional(),
+  favIconUrl: z.string().optional(),
+});
+
+const browserWindowSchema = z.object({
+  id: z.number().optional(),
+  type: z.string().optional(),
+  state: z.string().optional(),
+  focused: z.boolean(),
+  incognito: z.boolean(),
+  left: z.number().optional(),
+  top: z.number().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  tabCount: z.number(),
+});
+
+const tabContentSchema = z.object({
+  resource: z.literal("tab-content"),
+  correlationId: z.string(),
+  tabId: z.number(),
+  fullText: z.string(),
+  isTruncated: z.boolean(),
+  totalLength: z.number(),
+  links: z.array(z.object({ url: z.string(), text: z.string() })),
+});
+
+const tabsSchema = z.object({
+  resource: z.literal("tabs"),
+  correlationId: z.string(),
+  tabs: z.array(browserTabSchema),
+  totalCount: z.number().optional(),
+});
+
+const openedTabIdSchema = z.object({
+  resource: z.literal("opened-tab-id"),
+  correlationId: z.string(),
+  tabId: z.number().optional(),
+});
+
+const historySchema = z.object({
+  resource: z.literal("history"),
+  correlationId: z.string(),
+  historyItems: z.array(
+    z.object({
+      url: z.string().optional(),
+      title: z.string().optional(),
+      lastVisitTime: z.number().optional(),
+    })
+  ),
+});
+
+const tabsReorderedSchema = z.object({
+  resource: z.literal("tabs-reordered"),
+  correlationId: z.string(),
+  tabOrder: z.array(z.number()),
+});
+
+const tabSchema = z.object({
+  resource: z.literal("tab"),
+  correlationId: z.string(),
+  tab: browserTabSchema,
+});
+
+const tabsDiscardedSchema = z.object({
+  resource: z.literal("tabs-discarded"),
+  correlationId: z.string(),
+  tabs: z.array(browserTabSchema),
+});
+
+const containersSchema = z.object({
+  resource: z.literal("containers"),
+  correlationId: z.string(),
+  containers: z.array(
+    z.object({
+      cookieStoreId: z.string(),
+      name: z.string(),
+      color: z.string(),
+      icon: z.string(),
+    })
+  ),
+});
+
+const windowsSchema = z.object({
+  resource: z.literal("windows"),
+  correlationId: z.string(),
+  windows: z.array(browserWindowSchema),
+});
+
+const windowSchema = z.object({
+  resource: z.literal("window"),
+  correlationId: z.string(),
+  window: browserWindowSchema,
+});
+
+const sessionRestoredSchema = z.object({
+  resource: z.literal("session-restored"),
+  correlationId: z.string(),
+  window: browserWindowSchema,
+  tabs: z.array(browserTabSchema),
+  skipped: z.array(z.object({ url: z.string(), reason: z.string() })),
+});
+
+const windowClosedSchema = z.object({
+  resource: z.literal("window-closed"),
+  correlationId: z.string(),
+  windowId: z.number(),
+});
+
+const tabsMovedSchema = z.object({
+  resource: z.literal("tabs-moved"),
+  correlationId: z.string(),
+  tabs: z.array(browserTabSchema),
+});
+
+const navigationResultSchema = z.object({
+  resource: z.literal("navigation-result"),
+  correlationId: z.string(),
+  tabId: z.number(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  status: z.string().optional(),
+  httpStatus: z.number().optional(),
+});
+
+const browserBookmarkSchema = z.object({
+  id: z.string(),
+  parentId: z.string().optional(),
+  title: z.string(),
+  url: z.string().optional(),
+  type: z.enum(["bookmark", "folder"]),
+  dateAdded: z.number().optional(),
+  depth: z.number().optional(),
+  createdByAgent: z.boolean(),
+});
+
+const bookmarksSchema = z.object({
+  resource: z.literal("bookmarks"),
+  correlationId: z.string(),
+  bookmarks: z.array(browserBookmarkSchema),
+});
+
+const bookmarkSchema = z.object({
+  resource: z.literal("bookmark"),
+  correlationId: z.string(),
+  bookmark: browserBookmarkSchema,
+});
+
+const bookmarksRemovedSchema = z.object({
+  resource: z.literal("bookmarks-removed"),
+  correlationId: z.string(),
+  bookmarkIds: z.array(z.string()),
+});
+
+const findHighlightResultSchema = z.object({
+  resource: z.literal("find-highlight-result"),
+  correlationId: z.string(),
+  noOfResults: z.number(),
+});
+
+const tabsClosedSchema = z.object({
+  resource: z.literal("tabs-closed"),
+  correlationId: z.string(),
+});
+
+const screenshotSchema = z.object({
+  resource: z.literal("screenshot"),
+  correlationId: z.string(),
+  tabId: z.number(),
+  imageData: z.string(),
+  format: z.enum(["png", "jpeg"]),
+  timestamp: z.number(),
+  filePath: z.string().optional(),
+});
+
+const scrollResultSchema = z.object({
+  resource: z.literal("scroll-result"),
+  correlationId: z.string(),
+  success: z.boolean(),
+  finalPosition: z.object({ x: z.number(), y: z.number() }),
+  message: z.string(),
+  errorCode: optionalErrorCodeSchema,
+  timestamp: z.number(),
+});
+
+const clickResultSchema = z.object({
+  resource: z.literal("click-result"),
+  correlationId: z.string(),
+  success: z.boolean(),
+  elementFound: z.boolean(),
+  clickExecuted: z.boolean(),
+  message: z.string(),
+  errorCode: optionalErrorCodeSchema,
+  timestamp: z.number(),
+  elementInfo: elementInfoSchema,
+});
+
+const hoverResultSchema = z.object({
+  resource: z.literal("hover-result"),
+  correlationId: z.string(),
+  success: z.boolean(),
+  elementFound: z.boolean(),
+  message: z.string(),
+  errorCode: optionalErrorCodeSchema,
+  timestamp: z.number(),
+  elementInfo: elementInfoSchema,
+});
+
+const typeResultSchema = z.object({
+  resource: z.literal("type-result"),
+  correlationId: z.string(),
+  success: z.boolean(),
+  message: z.string(),
+  errorCode: optionalErrorCodeSchema,
+  timestamp: z.number(),
+  charactersTyped: z.number().optional(),
+  elementInfo: elementInfoSchema,
+});
+
+const waitResultSchema = z.object({
+  resource: z.literal("wait-result"),
+  correlationId: z.string(),
+  success: z.boolean(),
+  message: z.string(),
+  errorCode: optionalErrorCodeSchema,
+  timestamp: z.number(),
+  conditionMet: z.boolean().optional(),
+  waitTime: z.number().optional(),
+  elementInfo: elementInfoSchema,
+});
+
+const extensionMessageSchemas = [
+  tabContentSchema,
+  tabsSchema,
+  openedTabIdSchema,
+  historySchema,
+  tabsReorderedSchema,
+  tabSchema,
+  tabsDiscardedSchema,
+  containersSchema,
+  windowsSchema,
+  windowSchema,
+  sessionRestoredSchema,
+  windowClosedSchema,
+  tabsMovedSchema,
+  navigationResultSchema,
+  bookmarksSchema,
+  bookmarkSchema,
+  bookmarksRemovedSchema,
+  findHighlightResultSchema,
+  tabsClosedSchema,
+  screenshotSchema,
+  scrollResultSchema,
+  clickResultSchema,
+  hoverResultSchema,
+  typeResultSchema,
+  waitResultSchema,
+] as const;
+
+export const extensionMessageSchema = z.discriminatedUnion(
+  "resource",
+  extensionMessageSchemas
+) satisfies Schema<ExtensionMessage>;
+
+export const extensionErrorSchema = z.object({
+  correlationId: z.string(),
+  errorMessage: z.string(),
+  errorCode: optionalErrorCodeSchema,
+}) satisfies Schema<ExtensionError>;
+
+export const extensionHelloSchema = z.object({
+  resource: z.literal("extension-hello"),
+  browserId: z.string(),
+  browserName: z.string(),
+  profileLabel: z.string().optional(),
+  extensionVersion: z.string(),
+  protocolVersion: z.number(),
+  supportedCommands: z.array(z.string()),
+}) satisfies Schema<ExtensionHelloMessage>;
+
+export const progressSchema = z.object({
+  resource: z.literal("progress"),
+  correlationId: z.string(),
+  progress: z.number(),
+  total: z.number().optional(),
+  message: z.string().optional(),
+}) satisfies Schema<ProgressExtensionMessage>;
+
+const browserDownloadSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  filename: z.string(),
+  state: z.enum(["in_progress", "interrupted", "complete"]),
+  bytesReceived: z.number(),
+  totalBytes: z.number(),
+  error: z.string().optional(),
+});
+
+export const browserEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("tab-created"), tab: browserTabSchema }),
+  z.object({ type: z.literal("tab-updated"), tab: browserTabSchema, loadComplete: z.boolean() }),
+  z.object({ type: z.literal("tab-removed"), tabId: z.number(), windowId: z.number() }),
+  z.object({ type: z.literal("tab-activated"), tabId: z.number(), windowId: z.number() }),
+  z.object({ type: z.literal("navigation-completed"), tabId: z.number(), url: z.string() }),
+  z.object({ type: z.literal("download-changed"), download: browserDownloadSchema }),
+]) satisfies Schema<BrowserEvent>;
+
+export const browserEventMessageSchema = z.object({
+  resource: z.literal("browser-event"),
+  event: browserEventSchema,
+  timestamp: z.number(),
+}) satisfies Schema<BrowserEventExtensionMessage>;
+
+// The extension payloads that have a resource, i.e. all of them but errors
+const resourcePayloadSchema = z.discriminatedUnion("resource", [
+  ...extensionMessageSchemas,
+  extensionHelloSchema,
+  progressSchema,
+  browserEventMessageSchema,
+]);
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+function getCorrelationId(payload: unknown): string | undefined {
+  const correlationId = (payload as { correlationId?: unknown } | null)?.correlationId;
+  return typeof correlationId === "string" ? correlationId : undefined;
+}
+
+function parsePayload<T>(schema: Schema<T>, payload: unknown, description: string): T {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new MalformedMessageError(
+      `Malformed ${description}: ${formatIssues(result.error)}`,
+      getCorrelationId(payload)
+    );
+  }
+  return result.data;
+}
+
+// Validates a payload received from the server, throws a MalformedMessageError
+// if it is not one of the server messages
+export function parseServerPayload(
+  payload: unknown
+): ServerMessageRequest | ServerHelloMessage | CancelServerMessage {
+  const cmd = (payload as { cmd?: unknown } | null)?.cmd;
+  switch (cmd) {
+    case "server-hello":
+      return parsePayload(serverHelloSchema, payload, "server hello");
+    case "cancel":
+      return parsePayload(cancelSchema, payload, "cancel message");
+    default:
+      return parsePayload(
+        serverMessageRequestSchema,
+        payload,
+        typeof cmd === "string" ? `${cmd} request` : "server message"
+      );
+  }
+}
+
+// Validates a payload received from the extension, throws a
+// MalformedMessageError if it is not one of the extension messages
+export function parseExtensionPayload(
+  payload: unknown
+):
+  | ExtensionMessage
+  | ExtensionError
+  | ExtensionHelloMessage
+  | ProgressExtensionMessage
+  | BrowserEventExtensionMessage {
+  if (typeof payload === "object" && payload !== null && "errorMessage" in payload) {
+    return parsePayload(extensionErrorSchema, payload, "extension error");
+  }
+  const resource = (payload as { resource?: unknown } | null)?.resource;
+  return parsePayload(
+    resourcePayloadSchema,
+    payload,
+    typeof resource === "string" ? `${resource} message` : "extension message"
+  );
+}
@@ -5,6 +5,8 @@ export interface ServerMessageBase {
 export interface OpenTabServerMessage extends ServerMessageBase {
   cmd: "open-tab";
   url: string;
+  // Firefox container to open the tab in, the default one if omitted
+  cookieStoreId?: string;
 }
 
 export interface CloseTabsServerMessage extends ServerMessageBase {
@@ -12,7 +14,29 @@ export interface CloseTabsServerMessage extends ServerMessageBase {
   tabIds: number[];
 }
 
-export interface GetTabListServerMessage extends ServerMessageBase {
+// Which tabs get-tab-list returns and in which order. Without any field, all
+// the tabs in the order of the browser.
+export interface TabQuery {
+  // Glob matched against the whole URL, "*" matches any characters and "?" a
+  // single one
+  urlPattern?: string;
+  // Case-insensitive part of the title
+  titleContains?: string;
+  windowId?: number;
+  active?: boolean;
+  pinned?: boolean;
+  audible?: boolean;
+  // Range of the last access times, in ms since the epoch
+  lastAccessedAfter?: number;
+  lastAccessedBefore?: number;
+  sortBy?: "index" | "lastAccessed" | "title" | "url";
+  sortOrder?: "asc" | "desc";
+  // Pagination of the matching tabs, once sorted
+  offset?: number;
+  limit?: number;
+}
+
+export interface GetTabListServerMessage extends ServerMessageBase, TabQuery {
   cmd: "get-tab-list";
 }
 
@@ -25,6 +49,8 @@ export interface GetTabContentServerMessage extends ServerMessageBase {
   cmd: "get-tab-content";
   tabId: number;
   offset?: number;
+  // Maximum number of characters returned, defaults to 50000
+  maxLength?: number;
 }
 
 export interface ReorderTabsServerMessage extends ServerMessageBase {
@@ -32,6 +58,141 @@ export interface ReorderTabsServerMessage extends ServerMessageBase {
   tabOrder: number[];
 }
 
+// Sets the state of a tab, the omitted fields are left unchanged
+export interface UpdateTabServerMessage extends ServerMessageBase {
+  cmd: "update-tab";
+  tabId: number;
+  active?: boolean;
+  pinned?: boolean;
+  muted?: boolean;
+}
+
+export interface DiscardTabsServerMessage extends ServerMessageBase {
+  cmd: "discard-tabs";
+  tabIds: number[];
+}
+
+export interface DuplicateTabServerMessage extends ServerMessageBase {
+  cmd: "duplicate-tab";
+  tabId: number;
+}
+
+export interface GetContainerListServerMessage extends ServerMessageBase {
+  cmd: "get-container-list";
+}
+
+export interface GetWindowListServerMessage extends ServerMessageBase {
+  cmd: "get-window-list";
+}
+
+export interface CreateWindowServerMessage extends ServerMessageBase {
+  cmd: "create-window";
+  type?: "normal" | "popup";
+  // Opened in the first tab of the window, a new tab page by default
+  url?: string;
+  width?: number;
+  height?: number;
+}
+
+// A tab saved in a tab session, enough to open it again
+export interface SessionTab {
+  url: string;
+  title?: string;
+  pinned?: boolean;
+  // Firefox container of the tab, the default one if omitted
+  cookieStoreId?: string;
+}
+
+// Opens the tabs of a saved session in a new window, in order. The tabs the
+// extension doesn't allow are skipped.
+export interface RestoreSessionServerMessage extends ServerMessageBase {
+  cmd: "restore-session";
+  tabs: SessionTab[];
+}
+
+export interface FocusWindowServerMessage extends ServerMessageBase {
+  cmd: "focus-window";
+  windowId: number;
+}
+
+export interface MinimizeWindowServerMessage extends ServerMessageBase {
+  cmd: "minimize-window";
+  windowId: number;
+}
+
+export interface CloseWindowServerMessage extends ServerMessageBase {
+  cmd: "close-window";
+  windowId: number;
+}
+
+export interface MoveTabsServerMessage extends ServerMessageBase {
+  cmd: "move-tabs";
+  tabIds: number[];
+  windowId: number;
+  // Position of the first tab in the window, the end of the window by default
+  index?: number;
+}
+
+export interface NavigationServerMessageBase extends ServerMessageBase {
+  tabId: number;
+  // Maximum time in ms to wait for the page to load, not waited for if omitted
+  waitForLoad?: number;
+}
+
+export interface NavigateTabServerMessage extends NavigationServerMessageBase {
+  cmd: "navigate-tab";
+  url: string;
+}
+
+export interface GoBackServerMessage extends NavigationServerMessageBase {
+  cmd: "go-back";
+}
+
+export interface GoForwardServerMessage extends NavigationServerMessageBase {
+  cmd: "go-forward";
+}
+
+export interface ReloadTabServerMessage extends NavigationServerMessageBase {
+  cmd: "reload-tab";
+  bypassCache?: boolean;
+}
+
+export interface SearchBookmarksServerMessage extends ServerMessageBase {
+  cmd: "search-bookmarks";
+  // Words matched against the URLs and titles
+  query: string;
+  // Maximum number of bookmarks returned, defaults to 50
+  maxResults?: number;
+}
+
+export interface GetBookmarkTreeServerMessage extends ServerMessageBase {
+  cmd: "get-bookmark-tree";
+  // Folder listed, the root of the bookmarks by default
+  folderId?: string;
+  // Levels of folders listed below the folder, all of them by default
+  maxDepth?: number;
+}
+
+// Folders of a bookmark path, e.g. ["agent findings", "2026-10-18"]. The
+// missing ones are created, the first one under the browser's default folder.
+export interface CreateBookmarkServerMessage extends ServerMessageBase {
+  cmd: "create-bookmark";
+  url: string;
+  title: string;
+  folderPath?: string[];
+}
+
+export interface CreateBookmarkFolderServerMessage extends ServerMessageBase {
+  cmd: "create-bookmark-folder";
+  folderPath: string[];
+}
+
+// Only the bookmarks and folders created through the MCP server can be removed
+export interface RemoveBookmarksServerMessage extends ServerMessageBase {
+  cmd: "remove-bookmarks";
+  bookmarkIds: string[];
+}
+
 export interface FindHighlightServerMessage extends ServerMessageBase {
   cmd: "find-highlight";
   tabId: number;
@@ -179,6 +340,26 @@ export type ServerMessage =
   | GetBrowserRecentHistoryServerMessage
   | GetTabContentServerMessage
   | ReorderTabsServerMessage
+  | UpdateTabServerMessage
+  | DiscardTabsServerMessage
+  | DuplicateTabServerMessage
+  | GetContainerListServerMessage
+  | GetWindowListServerMessage
+  | CreateWindowServerMessage
+  | RestoreSessionServerMessage
+  | FocusWindowServerMessage
+  | MinimizeWindowServerMessage
+  | CloseWindowServerMessage
+  | MoveTabsServerMessage
+  | NavigateTabServerMessage
+  | GoBackServerMessage
+  | GoForwardServerMessage
+  | ReloadTabServerMessage
+  | SearchBookmarksServerMessage
+  | GetBookmarkTreeServerMessage
+  | CreateBookmarkServerMessage
+  | CreateBookmarkFolderServerMessage
+  | RemoveBookmarksServerMessage
   | FindHighlightServerMessage
   | TakeScreenshotServerMessage
   | ScrollToPositionServerMessage
@@ -195,4 +376,28 @@ export type ServerMessage =
   | WaitForElementVisibilityServerMessage
   | WaitForConditionServerMessage;
 
-export type ServerMessageRequest = ServerMessage & { correlationId: string };
+export type ServerMessageRequest = ServerMessage & {
+  correlationId: string;
+  // Time (ms since epoch) by which the server expects the response, computed
+  // from the command's own parameters. The server stops waiting afterwards.
+  deadline?: number;
+};
+
+
+// Sent by the server as soon as an extension connects, so that the extension
+// can tell live MCP servers apart while probing the port range.
+export interface ServerHelloMessage {
+  cmd: "server-hello";
+  serverId: string;
+  // Absent when the extension is connected through native messaging
+  port?: number;
+  startedAt: number;
+  protocolVersion: number;
+}
+
+// Asks the extension to abort the in-flight request with the given
+// correlationId, e.g. when the MCP client cancelled the tool call
+export interface CancelServerMessage {
+  cmd: "cancel";
+  correlationId: string;
+}
@@ -0,0 +1,91 @@
+import { webcrypto } from "crypto";
+import { TextEncoder } from "util";
+import {
+  EnvelopeError,
+  MAX_ENVELOPE_AGE_MS,
+  ReplayGuard,
+  signEnvelope,
+  verifyEnvelope,
+} from "../auth";
+
+const SECRET = "test-secret";
+
+async function getRejectionReason(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(EnvelopeError);
+    return (error as EnvelopeError).reason;
+  }
+  throw new Error("Expected the envelope to be rejected");
+}
+
+describe("verifyEnvelope", () => {
+  let replayGuard: ReplayGuard;
+
+  beforeAll(() => {
+    // Missing in jsdom
+    Object.defineProperty(globalThis, "crypto", { value: webcrypto, configurable: true });
+    Object.defineProperty(globalThis, "TextEncoder", { value: TextEncoder, configurable: true });
+  });
+
+  beforeEach(() => {
+    replayGuard = new ReplayGuard();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the envelopes signed with the secret", async () => {
+    const envelope = await signEnvelope({ cmd: "get-tab-list" }, SECRET);
+
+    expect(await verifyEnvelope(envelope, SECRET, replayGuard)).toEqual(envelope);
+  });
+
+  it.each([null, "frame", { payload: { cmd: "get-tab-list" }, nonce: "nonce", issuedAt: "now", signature: "0" }])(
+    "should reject %p as malformed",
+    async (frame) => {
+      expect(await getRejectionReason(verifyEnvelope(frame, SECRET, replayGuard))).toBe("malformed");
+    }
+  );
+
+  it("should reject the envelopes signed with another secret", async () => {
+    const envelope = await signEnvelope({ cmd: "get-tab-list" }, "other-secret");
+
+    expect(await getRejectionReason(verifyEnvelope(envelope, SECRET, replayGuard))).toBe("invalid-signature");
+  });
+
+  it("should reject a replayed envelope as a duplicate", async () => {
+    const envelope = await signEnvelope({ cmd: "get-tab-list" }, SECRET);
+    await verifyEnvelope(envelope, SECRET, replayGuard);
+
+    expect(await getRejectionReason(verifyEnvelope(envelope, SECRET, replayGuard))).toBe("duplicate");
+  });
+
+  it("should reject the envelopes issued outside the accepted window as stale", async () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now - MAX_ENVELOPE_AGE_MS - 1);
+    const old = await signEnvelope({ cmd: "get-tab-list" }, SECRET);
+    jest.spyOn(Date, "now").mockReturnValue(now + MAX_ENVELOPE_AGE_MS + 1);
+    const future = await signEnvelope({ cmd: "get-tab-list" }, SECRET);
+    jest.spyOn(Date, "now").mockReturnValue(now);
+
+    expect(await getRejectionReason(verifyEnvelope(old, SECRET, replayGuard))).toBe("stale");
+    expect(await getRejectionReason(verifyEnvelope(future, SECRET, replayGuard))).toBe("stale");
+  });
+});
+
+describe("ReplayGuard", () => {
+  it("should forget the nonces once their envelope is out of the window", () => {
+    const replayGuard = new ReplayGuard();
+    const issuedAt = Date.now();
+    const later = issuedAt + MAX_ENVELOPE_AGE_MS + 1;
+    replayGuard.check("nonce", issuedAt, issuedAt);
+
+    // Still remembered at the end of the window
+    expect(() => replayGuard.check("nonce", issuedAt, issuedAt + MAX_ENVELOPE_AGE_MS)).toThrow("already used");
+    // Pruned after it, so that the guard doesn't grow forever
+    expect(() => replayGuard.check("nonce", later, later)).not.toThrow();
+  });
+});
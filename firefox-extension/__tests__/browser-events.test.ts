@@ -0,0 +1,80 @@
+import type { BrowserEvent, BrowserTab } from "@browser-control-mcp/common";
+import { filterBrowserEvent } from "../browser-events";
+import { ExtensionConfig } from "../extension-config";
+
+function setConfig(config: Partial<ExtensionConfig>) {
+  (browser.storage.local.get as jest.Mock).mockResolvedValue({
+    config: { secret: "test-secret", toolSettings: {}, domainDenyList: ["denied.example"], ...config },
+  });
+}
+
+function tab(url: string): BrowserTab {
+  return { id: 1, url, title: "Some page", windowId: 1, cookieStoreId: "firefox-default", favIconUrl: `${url}favicon.ico` };
+}
+
+describe("filterBrowserEvent", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setConfig({});
+    (browser.tabs.get as jest.Mock).mockResolvedValue({ id: 1, cookieStoreId: "firefox-default" });
+  });
+
+  it("should pass the events of allowed pages as they are", async () => {
+    const event: BrowserEvent = { type: "tab-updated", tab: tab("https://example.com/"), loadComplete: true };
+
+    expect(await filterBrowserEvent(event)).toEqual(event);
+  });
+
+  it.each<BrowserEvent>([
+    { type: "tab-created", tab: tab("https://example.com/") },
+    { type: "tab-removed", tabId: 1, windowId: 1 },
+    { type: "tab-activated", tabId: 1, windowId: 1 },
+    { type: "navigation-completed", tabId: 1, url: "https://example.com/" },
+  ])("should drop $type when the tab list is disabled", async (event) => {
+    setConfig({ toolSettings: { "get-list-of-open-tabs": false } });
+
+    expect(await filterBrowserEvent(event)).toBeNull();
+  });
+
+  it("should drop the download events when watching downloads is disabled", async () => {
+    setConfig({ toolSettings: { "watch-browser-downloads": false } });
+    const event: BrowserEvent = {
+      type: "download-changed",
+      download: { id: 1, url: "https://example.com/file.zip", filename: "file.zip", state: "in_progress", bytesReceived: 0, totalBytes: 10 },
+    };
+
+    expect(await filterBrowserEvent(event)).toBeNull();
+  });
+
+  it("should redact the tabs showing a denied page", async () => {
+    const event: BrowserEvent = { type: "tab-updated", tab: tab("https://denied.example/secret"), loadComplete: true };
+
+    const filtered = await filterBrowserEvent(event);
+
+    expect(filtered).toEqual({
+      type: "tab-updated",
+      tab: { ...event.tab, url: undefined, title: undefined, favIconUrl: undefined },
+      loadComplete: true,
+    });
+  });
+
+  it("should drop the navigations and downloads of denied domains", async () => {
+    const navigation: BrowserEvent = { type: "navigation-completed", tabId: 1, url: "https://denied.example/secret" };
+    const download: BrowserEvent = {
+      type: "download-changed",
+      download: { id: 1, url: "https://denied.example/file.zip", filename: "file.zip", state: "complete", bytesReceived: 10, totalBytes: 10 },
+    };
+
+    expect(await filterBrowserEvent(navigation)).toBeNull();
+    expect(await filterBrowserEvent(download)).toBeNull();
+  });
+
+  it("should check navigations against the deny list of the tab's container", async () => {
+    setConfig({ domainDenyList: [], containerDomainDenyLists: { "firefox-container-1": ["work.example"] } });
+    (browser.tabs.get as jest.Mock).mockResolvedValue({ id: 1, cookieStoreId: "firefox-container-1" });
+
+    const filtered = await filterBrowserEvent({ type: "navigation-completed", tabId: 1, url: "https://work.example/" });
+
+    expect(filtered).toBeNull();
+  });
+});
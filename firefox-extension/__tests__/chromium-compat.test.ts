@@ -0,0 +1,133 @@
+import { createBrowserCompat, getBrowserInfo } from "../chromium-compat";
+
+describe("createBrowserCompat", () => {
+  let mockChrome: any;
+  let compat: typeof browser;
+
+  beforeEach(() => {
+    document.body.innerHTML = "";
+    mockChrome = {
+      tabs: {
+        get: jest.fn(),
+        query: jest.fn().mockResolvedValue([{ id: 7 }]),
+      },
+      scripting: {
+        // Runs the injected function in the jsdom document
+        executeScript: jest.fn(async ({ func, args }) => [{ result: await func(...args) }]),
+      },
+      runtime: {
+        onMessage: { addListener: jest.fn() },
+      },
+    };
+    compat = createBrowserCompat(mockChrome);
+  });
+
+  it("should forward the tabs methods to chrome.tabs", async () => {
+    mockChrome.tabs.get.mockResolvedValue({ id: 1, url: "https://example.com" });
+
+    const tab = await compat.tabs.get(1);
+
+    expect(mockChrome.tabs.get).toHaveBeenCalledWith(1);
+    expect(tab).toEqual({ id: 1, url: "https://example.com" });
+  });
+
+  describe("find", () => {
+    beforeEach(() => {
+      document.body.innerHTML =
+        "<p>Test one, test two</p><p>Another <b>Test</b></p><script>var Test;</script>";
+    });
+
+    it("should count the matches without highlighting them", async () => {
+      const result = await compat.find.find("Test", { tabId: 1, caseSensitive: true });
+
+      expect(result.count).toBe(2);
+      expect(document.querySelectorAll("mark").length).toBe(0);
+    });
+
+    it("should ignore the case unless caseSensitive is set", async () => {
+      const result = await compat.find.find("test", { tabId: 1 });
+
+      expect(result.count).toBe(3);
+    });
+
+    it("should search the active tab when no tab is given", async () => {
+      await compat.find.find("Test");
+
+      expect(mockChrome.scripting.executeScript).toHaveBeenCalledWith(
+        expect.objectContaining({ target: { tabId: 7 } })
+      );
+    });
+
+    it("should highlight the matches of the last search", async () => {
+      Element.prototype.scrollIntoView = jest.fn();
+      await compat.find.find("Test", { tabId: 1, caseSensitive: true });
+
+      await compat.find.highlightResults({ tabId: 1 });
+
+      const marks = document.querySelectorAll("mark");
+      expect(Array.from(marks).map((mark) => mark.textContent)).toEqual(["Test", "Test"]);
+      expect(document.body.textContent).toBe("Test one, test twoAnother Testvar Test;");
+      expect(marks[0].scrollIntoView).toHaveBeenCalled();
+    });
+
+    it("should remove the highlights of the previous search", async () => {
+      Element.prototype.scrollIntoView = jest.fn();
+      await compat.find.find("Test", { tabId: 1, caseSensitive: true });
+      await compat.find.highlightResults({ tabId: 1 });
+
+      await compat.find.find("two", { tabId: 1, caseSensitive: true });
+      await compat.find.highlightResults({ tabId: 1 });
+
+      const marks = document.querySelectorAll("mark");
+      expect(Array.from(marks).map((mark) => mark.textContent)).toEqual(["two"]);
+      expect(document.querySelector("p")?.innerHTML).toBe(
+        'Test one, test <mark data-browser-control-highlight="">two</mark>'
+      );
+    });
+
+    it("should not highlight anything without a previous search", async () => {
+      await compat.find.highlightResults({ tabId: 1 });
+
+      expect(mockChrome.scripting.executeScript).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should send the responses promised by runtime.onMessage listeners", async () => {
+    compat.runtime.onMessage.addListener(() => Promise.resolve(["server"]));
+    const chromeListener = mockChrome.runtime.onMessage.addListener.mock.calls[0][0];
+    const sendResponse = jest.fn();
+
+    const keepChannelOpen = chromeListener({ type: "get-discovered-servers" }, {}, sendResponse);
+    await Promise.resolve();
+
+    expect(keepChannelOpen).toBe(true);
+    expect(sendResponse).toHaveBeenCalledWith(["server"]);
+  });
+});
+
+describe("getBrowserInfo", () => {
+  it("should use the brand of the user agent client hints", () => {
+    const info = getBrowserInfo({
+      userAgent: "Mozilla/5.0 Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0",
+      userAgentData: {
+        brands: [
+          { brand: "Not/A)Brand", version: "8" },
+          { brand: "Chromium", version: "126" },
+          { brand: "Microsoft Edge", version: "126" },
+        ],
+      },
+    } as any);
+
+    expect(info.name).toBe("Microsoft Edge");
+    expect(info.version).toBe("126");
+  });
+
+  it("should fall back to the user agent", () => {
+    const info = getBrowserInfo({
+      userAgent: "Mozilla/5.0 (X11; Linux x86_64) Chrome/126.0.6478.126 Safari/537.36",
+    } as Navigator);
+
+    expect(info.name).toBe("Chromium");
+    expect(info.version).toBe("126.0.6478.126");
+  });
+});
@@ -0,0 +1,32 @@
+import { getBrowserIdentity } from "../extension-config";
+
+describe("getBrowserIdentity", () => {
+  let generatedIds = 0;
+
+  beforeAll(() => {
+    // Missing in jsdom. Each ID is different, so that the test sees when
+    // several are generated.
+    Object.defineProperty(crypto, "randomUUID", {
+      value: () => `browser-${++generatedIds}`,
+      configurable: true,
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // A new copy on each read, like the storage does
+    (browser.storage.local.get as jest.Mock).mockImplementation(async () => ({ config: { secret: "test-secret" } }));
+    (browser.runtime.getBrowserInfo as jest.Mock).mockResolvedValue({ name: "Firefox", version: "128.0" });
+  });
+
+  it("should generate a single browser ID for concurrent first connections", async () => {
+    const identities = await Promise.all([getBrowserIdentity(), getBrowserIdentity(), getBrowserIdentity()]);
+
+    expect(new Set(identities.map((identity) => identity.browserId)).size).toBe(1);
+    expect(browser.storage.local.set).toHaveBeenCalledTimes(1);
+    expect(browser.storage.local.set).toHaveBeenCalledWith({
+      config: expect.objectContaining({ browserId: identities[0].browserId }),
+    });
+    expect(identities[0].browserName).toBe("Firefox 128.0");
+  });
+});
@@ -1,6 +1,7 @@
 import { MessageHandler } from "../message-handler";
 import { WebsocketClient } from "../client";
 import { ServerMessageRequest } from "@browser-control-mcp/common";
+import * as extensionConfig from "../extension-config";
 import { ExtensionConfig } from "../extension-config";
 
 // Mock the WebsocketClient
@@ -10,6 +11,7 @@ jest.mock("../client", () => {
       return {
         sendResourceToServer: jest.fn().mockResolvedValue(undefined),
         sendErrorToServer: jest.fn().mockResolvedValue(undefined),
+        sendProgressToServer: jest.fn().mockResolvedValue(undefined),
       };
     }),
   };
@@ -98,6 +100,45 @@ describe("MessageHandler", () => {
       ).rejects.toThrow("Command 'open-tab' is disabled in extension settings");
     });
 
+    it("should throw an error if the request deadline has expired", async () => {
+      // Arrange
+      const request: ServerMessageRequest = {
+        cmd: "open-tab",
+        url: "https://example.com",
+        correlationId: "test-correlation-id",
+        deadline: Date.now() - 1,
+      };
+
+      // Act & Assert
+      await expect(
+        messageHandler.handleDecodedMessage(request)
+      ).rejects.toThrow("Deadline for command 'open-tab' expired before it could be handled");
+      expect(browser.tabs.create).not.toHaveBeenCalled();
+    });
+
+    it("should stop a cancelled request without responding to the server", async () => {
+      // Arrange
+      const isCommandAllowed = jest
+        .spyOn(extensionConfig, "isCommandAllowed")
+        .mockResolvedValue(true);
+      const request: ServerMessageRequest = {
+        cmd: "wait-for-time",
+        duration: 10000,
+        correlationId: "test-correlation-id",
+      };
+
+      // Act
+      const handled = messageHandler.handleDecodedMessage(request);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      messageHandler.cancel("test-correlation-id");
+
+      // Assert
+      await expect(handled).resolves.toBeUndefined();
+      expect(mockClient.sendResourceToServer).not.toHaveBeenCalled();
+      expect(mockClient.sendErrorToServer).not.toHaveBeenCalled();
+      isCommandAllowed.mockRestore();
+    });
+
     describe("open-tab command", () => {
       it("should open a new tab and send the tab ID to the server", async () => {
         // Arrange
@@ -203,277 +244,1434 @@ describe("MessageHandler", () => {
         (browser.storage.local.get as jest.Mock).mockResolvedValue({
           config: configWithDenyList,
         });
-
+
+        const request: ServerMessageRequest = {
+          cmd: "open-tab",
+          url: "https://allowed.com",
+          correlationId: "test-correlation-id",
+        };
+
+        const mockTab = { id: 123 };
+        (browser.tabs.create as jest.Mock).mockResolvedValue(mockTab);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.create).toHaveBeenCalledWith({
+          url: "https://allowed.com",
+        });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "opened-tab-id",
+          correlationId: "test-correlation-id",
+          tabId: 123,
+        });
+      });
+    });
+
+    describe("URL policy", () => {
+      beforeEach(() => {
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: {
+            secret: "test-secret",
+            urlPolicy: {
+              allowedSchemes: ["https", "http", "about"],
+              httpHostAllowlist: ["localhost", "*.test"],
+              fileRoots: ["/home/me/reports"],
+            },
+          },
+        });
+        (browser.tabs.create as jest.Mock).mockResolvedValue({ id: 123 });
+      });
+
+      it.each([
+        "http://localhost:3000/",
+        "http://app.test/page",
+        "about:reader?url=https%3A%2F%2Fexample.com%2F",
+      ])("should open %s when the policy allows it", async (url) => {
+        // Act
+        await messageHandler.handleDecodedMessage({ cmd: "open-tab", url, correlationId: "test-correlation-id" });
+
+        // Assert
+        expect(browser.tabs.create).toHaveBeenCalledWith({ url });
+      });
+
+      it.each([
+        "http://example.com/",
+        "http://test/",
+        "file:///home/me/reports/index.html",
+        "about:reader?url=http%3A%2F%2Fexample.com%2F",
+        "about:config",
+        "javascript:alert(1)",
+      ])("should refuse to open %s", async (url) => {
+        // Act & Assert
+        await expect(
+          messageHandler.handleDecodedMessage({ cmd: "open-tab", url, correlationId: "test-correlation-id" })
+        ).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+        expect(browser.tabs.create).not.toHaveBeenCalled();
+      });
+
+      it.each([
+        "about:reader?url=https%3A%2F%2Fdenied.example%2F",
+        "about:reader?url=https%3A%2F%2Fwww.denied.example%2Fpage",
+      ])("should refuse to open %s when the reader page is in the deny list", async (url) => {
+        // Arrange
+        const { config } = await (browser.storage.local.get as jest.Mock)();
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: { ...config, domainDenyList: ["denied.example"] },
+        });
+
+        // Act & Assert
+        await expect(
+          messageHandler.handleDecodedMessage({ cmd: "open-tab", url, correlationId: "test-correlation-id" })
+        ).rejects.toMatchObject({ code: "DOMAIN_DENIED" });
+        expect(browser.tabs.create).not.toHaveBeenCalled();
+      });
+
+      it("should only allow https without a policy", async () => {
+        // Arrange
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({ config: { secret: "test-secret" } });
+
+        // Act & Assert
+        await expect(
+          messageHandler.handleDecodedMessage({
+            cmd: "open-tab",
+            url: "http://localhost:3000/",
+            correlationId: "test-correlation-id",
+          })
+        ).rejects.toThrow("Invalid URL, not allowed by the URL policy of the extension");
+      });
+
+      it("should only report the links allowed by the policy", async () => {
+        // Arrange
+        (browser.tabs.get as jest.Mock).mockResolvedValue({ id: 123, url: "http://localhost:3000/" });
+        const links = [
+          { url: "https://example.com/", text: "Example" },
+          { url: "http://localhost:3000/next", text: "Next" },
+          { url: "http://example.com/", text: "Plain http" },
+          { url: "file:///home/me/reports/report.html", text: "Report" },
+          { url: "mailto:me@example.com", text: "Mail" },
+        ];
+        (browser.scripting.executeScript as jest.Mock).mockResolvedValue([
+          { result: { links, fullText: "Page content", isTruncated: false, totalLength: 12 } },
+        ]);
+
+        // Act
+        await messageHandler.handleDecodedMessage({
+          cmd: "get-tab-content",
+          tabId: 123,
+          correlationId: "test-correlation-id",
+        });
+
+        // Assert
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith(
+          expect.objectContaining({ resource: "tab-content", links: [links[0], links[1]] })
+        );
+      });
+    });
+
+    describe("close-tabs command", () => {
+      it("should close tabs and send confirmation to the server", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "close-tabs",
+          tabIds: [123, 456],
+          correlationId: "test-correlation-id",
+        };
+
+        (browser.tabs.remove as jest.Mock).mockResolvedValue(undefined);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.remove).toHaveBeenCalledWith([123, 456]);
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tabs-closed",
+          correlationId: "test-correlation-id",
+        });
+      });
+    });
+
+    describe("get-tab-list command", () => {
+      it("should get tabs and send them to the server", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-tab-list",
+          correlationId: "test-correlation-id",
+        };
+
+        const mockTabs = [{ id: 123, url: "https://example.com" }];
+        (browser.tabs.query as jest.Mock).mockResolvedValue(mockTabs);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.query).toHaveBeenCalledWith({});
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tabs",
+          correlationId: "test-correlation-id",
+          tabs: mockTabs,
+          totalCount: 1,
+        });
+      });
+
+      describe("queries", () => {
+        const mockTabs = [
+          { id: 1, windowId: 1, index: 0, url: "https://docs.example.com/a", title: "Docs A", lastAccessed: 300, active: true, pinned: true },
+          { id: 2, windowId: 1, index: 1, url: "https://example.org/", title: "Music", lastAccessed: 100, active: false, pinned: false, audible: true },
+          { id: 3, windowId: 2, index: 0, url: "https://www.example.com/b", title: "Other docs", lastAccessed: 200, active: true, pinned: false },
+          { id: 4, windowId: 2, index: 1, url: "http://localhost:3000/", title: "Dev", lastAccessed: 400, active: false, pinned: false },
+        ];
+
+        async function queryTabIds(query: Partial<ServerMessageRequest>) {
+          (browser.tabs.query as jest.Mock).mockResolvedValue(mockTabs);
+          await messageHandler.handleDecodedMessage({
+            cmd: "get-tab-list",
+            correlationId: "test-correlation-id",
+            ...query,
+          } as ServerMessageRequest);
+          const [message] = (mockClient.sendResourceToServer as jest.Mock).mock.calls.at(-1);
+          return { ids: message.tabs.map((tab: { id: number }) => tab.id), totalCount: message.totalCount };
+        }
+
+        it.each([
+          [{ urlPattern: "https://*.example.com/*" }, [1, 3]],
+          [{ urlPattern: "*LOCALHOST:????/" }, [4]],
+          [{ titleContains: "DOCS" }, [1, 3]],
+          [{ windowId: 2 }, [3, 4]],
+          [{ active: true }, [1, 3]],
+          [{ pinned: false, audible: false }, [3, 4]],
+          [{ lastAccessedAfter: 200, lastAccessedBefore: 300 }, [1, 3]],
+        ])("should filter the tabs with %j", async (query, expectedIds) => {
+          const { ids, totalCount } = await queryTabIds(query);
+
+          expect(ids).toEqual(expectedIds);
+          expect(totalCount).toBe(expectedIds.length);
+        });
+
+        it("should sort the tabs", async () => {
+          expect((await queryTabIds({ sortBy: "lastAccessed", sortOrder: "desc" })).ids).toEqual([4, 1, 3, 2]);
+          expect((await queryTabIds({ sortBy: "title" })).ids).toEqual([4, 1, 2, 3]);
+          expect((await queryTabIds({ sortOrder: "desc" })).ids).toEqual([4, 3, 2, 1]);
+        });
+
+        it("should only send the requested page with the number of matching tabs", async () => {
+          const { ids, totalCount } = await queryTabIds({ sortBy: "lastAccessed", offset: 1, limit: 2 });
+
+          expect(ids).toEqual([3, 1]);
+          expect(totalCount).toBe(4);
+        });
+
+        it("should reject an invalid page", async () => {
+          await expect(queryTabIds({ limit: 0 })).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+          await expect(queryTabIds({ offset: -1 })).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+        });
+      });
+    });
+
+    describe("tab state commands", () => {
+      const mockTab = {
+        id: 5,
+        index: 2,
+        windowId: 1,
+        url: "https://example.com/",
+        title: "Example",
+        active: false,
+        highlighted: false,
+        pinned: false,
+        incognito: false,
+        status: "complete",
+        mutedInfo: { muted: false, reason: undefined },
+      };
+
+      it("should bring the tab and its window to the front", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "update-tab",
+          tabId: 5,
+          active: true,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
+        (browser.tabs.update as jest.Mock).mockResolvedValue({ ...mockTab, active: true });
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.update).toHaveBeenCalledWith(5, { active: true });
+        expect(browser.windows.update).toHaveBeenCalledWith(1, { focused: true });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tab",
+          correlationId: "test-correlation-id",
+          tab: expect.objectContaining({ id: 5, active: true, pinned: false, mutedInfo: { muted: false } }),
+        });
+      });
+
+      it("should pin and mute the tab without activating it", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "update-tab",
+          tabId: 5,
+          pinned: true,
+          muted: true,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
+        (browser.tabs.update as jest.Mock).mockResolvedValue({
+          ...mockTab,
+          pinned: true,
+          mutedInfo: { muted: true, reason: "extension", extensionId: "test-extension-id" },
+        });
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.update).toHaveBeenCalledWith(5, { pinned: true, muted: true });
+        expect(browser.windows.update).not.toHaveBeenCalled();
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith(
+          expect.objectContaining({
+            tab: expect.objectContaining({ pinned: true, mutedInfo: { muted: true, reason: "extension" } }),
+          })
+        );
+      });
+
+      it("should fail with TAB_NOT_FOUND for an unknown tab", async () => {
+        // Arrange
+        (browser.tabs.get as jest.Mock).mockRejectedValue(new Error("Invalid tab ID: 99"));
+
+        // Act & Assert
+        await expect(
+          messageHandler.handleDecodedMessage({
+            cmd: "update-tab",
+            tabId: 99,
+            pinned: true,
+            correlationId: "test-correlation-id",
+          })
+        ).rejects.toMatchObject({ code: "TAB_NOT_FOUND" });
+        expect(browser.tabs.update).not.toHaveBeenCalled();
+      });
+
+      it("should discard the tabs and report their state", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "discard-tabs",
+          tabIds: [5, 6],
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock)
+          .mockResolvedValueOnce({ ...mockTab, id: 5 })
+          .mockResolvedValueOnce({ ...mockTab, id: 6, active: true })
+          .mockResolvedValueOnce({ ...mockTab, id: 5, discarded: true })
+          .mockResolvedValueOnce({ ...mockTab, id: 6, active: true, discarded: false });
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.discard).toHaveBeenCalledWith([5, 6]);
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tabs-discarded",
+          correlationId: "test-correlation-id",
+          tabs: [
+            expect.objectContaining({ id: 5, discarded: true }),
+            expect.objectContaining({ id: 6, discarded: false }),
+          ],
+        });
+      });
+
+      it("should duplicate a tab unless its domain is in the deny list", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "duplicate-tab",
+          tabId: 5,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
+        (browser.tabs.duplicate as jest.Mock).mockResolvedValue({ ...mockTab, id: 9, index: 3 });
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: { secret: "test-secret", domainDenyList: ["example.com"] },
+        });
+
+        // Assert
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tab",
+          correlationId: "test-correlation-id",
+          tab: expect.objectContaining({ id: 9, index: 3 }),
+        });
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({ code: "DOMAIN_DENIED" });
+        expect(browser.tabs.duplicate).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("get-browser-recent-history command", () => {
+      it("should get history items and send them to the server", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-browser-recent-history",
+          searchQuery: "test",
+          correlationId: "test-correlation-id",
+        };
+
+        const mockHistoryItems = [
+          { url: "https://example.com", title: "Example" },
+          { url: "https://test.com", title: "Test" },
+        ];
+        (browser.history.search as jest.Mock).mockResolvedValue(
+          mockHistoryItems
+        );
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.history.search).toHaveBeenCalledWith({
+          text: "test",
+          maxResults: 200,
+          startTime: 0,
+        });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "history",
+          correlationId: "test-correlation-id",
+          historyItems: mockHistoryItems,
+        });
+      });
+
+      it("should use empty string for search query if not provided", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-browser-recent-history",
+          correlationId: "test-correlation-id",
+        };
+
+        const mockHistoryItems = [
+          { url: "https://example.com", title: "Example" },
+        ];
+        (browser.history.search as jest.Mock).mockResolvedValue(
+          mockHistoryItems
+        );
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.history.search).toHaveBeenCalledWith({
+          text: "",
+          maxResults: 200,
+          startTime: 0,
+        });
+      });
+
+      it("should filter out history items without URLs", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-browser-recent-history",
+          correlationId: "test-correlation-id",
+        };
+
+        const mockHistoryItems = [
+          { url: "https://example.com", title: "Example" },
+          { title: "No URL" }, // This should be filtered out
+        ];
+        (browser.history.search as jest.Mock).mockResolvedValue(
+          mockHistoryItems
+        );
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "history",
+          correlationId: "test-correlation-id",
+          historyItems: [{ url: "https://example.com", title: "Example" }],
+        });
+      });
+    });
+
+    describe("get-tab-content command", () => {
+      it("should get tab content and send it to the server", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-tab-content",
+          tabId: 123,
+          correlationId: "test-correlation-id",
+        };
+
+        const mockTab = { id: 123, url: "https://example.com" };
+        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
+
+        // Mock the scripting API result with proper structure
+        const mockScriptResult = [
+          {
+            result: {
+              links: [{ url: "https://example.com/page", text: "Page" }],
+              fullText: "Page content",
+              isTruncated: false,
+              totalLength: 12,
+            }
+          },
+        ];
+        (browser.scripting.executeScript as jest.Mock).mockResolvedValue(
+          mockScriptResult
+        );
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.get).toHaveBeenCalledWith(123);
+        expect(browser.scripting.executeScript).toHaveBeenCalled();
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tab-content",
+          tabId: 123,
+          correlationId: "test-correlation-id",
+          content: "Page content",
+          links: [{ url: "https://example.com/page", text: "Page" }],
+          isTruncated: false,
+          totalLength: 12,
+        });
+      });
+
+      it("should throw an error if tab URL domain is in deny list", async () => {
+        // Arrange
+        const configWithDenyList: ExtensionConfig = {
+          secret: "test-secret",
+          toolSettings: {
+            "open-browser-tab": true,
+            "close-browser-tabs": true,
+            "get-list-of-open-tabs": true,
+            "get-recent-browser-history": true,
+            "get-tab-web-content": true,
+            "reorder-browser-tabs": true,
+            "find-highlight-in-browser-tab": true,
+            "take-screenshot": true,
+          },
+          domainDenyList: ["example.com"], // Add example.com to deny list
+          screenshotConfig: {
+            defaultFormat: "png",
+            defaultQuality: 90,
+            maxWidth: 1920,
+            maxHeight: 1080
+          }
+        };
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: configWithDenyList,
+        });
+
+        const request: ServerMessageRequest = {
+          cmd: "get-tab-content",
+          tabId: 123,
+          correlationId: "test-correlation-id",
+        };
+
+        const mockTab = { id: 123, url: "https://example.com" };
+        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
+
+        // Act & Assert
+        await expect(
+          messageHandler.handleDecodedMessage(request)
+        ).rejects.toThrow(
+          "Domain in tab URL 'https://example.com' is in the deny list"
+        );
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
+      });
+
+      it("should fail with TAB_NOT_FOUND for an unknown tab", async () => {
+        // Arrange
+        (browser.tabs.get as jest.Mock).mockRejectedValue(new Error("Invalid tab ID: 99"));
+        const request: ServerMessageRequest = {
+          cmd: "get-tab-content",
+          tabId: 99,
+          correlationId: "test-correlation-id",
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "TAB_NOT_FOUND",
+          message: "Tab 99 not found",
+        });
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("reorder-tabs command", () => {
+      it("should reorder tabs and send confirmation to the server", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "reorder-tabs",
+          tabOrder: [123, 456, 789],
+          correlationId: "test-correlation-id",
+        };
+
+        (browser.tabs.move as jest.Mock).mockResolvedValue(undefined);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.move).toHaveBeenCalledTimes(3);
+        expect(browser.tabs.move).toHaveBeenNthCalledWith(1, 123, { index: 0 });
+        expect(browser.tabs.move).toHaveBeenNthCalledWith(2, 456, { index: 1 });
+        expect(browser.tabs.move).toHaveBeenNthCalledWith(3, 789, { index: 2 });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tabs-reordered",
+          correlationId: "test-correlation-id",
+          tabOrder: [123, 456, 789],
+        });
+      });
+    });
+
+    describe("container commands", () => {
+      const mockContextualIdentities = { query: jest.fn() };
+
+      beforeEach(() => {
+        // Containers are Firefox only, see the test without them below
+        (browser as any).contextualIdentities = mockContextualIdentities;
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: {
+            secret: "test-secret",
+            domainDenyList: [],
+            containerDomainDenyLists: { "firefox-container-1": ["example.com"] },
+          },
+        });
+      });
+
+      afterEach(() => {
+        delete (browser as any).contextualIdentities;
+      });
+
+      it("should list the containers", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-container-list",
+          correlationId: "test-correlation-id",
+        };
+        mockContextualIdentities.query.mockResolvedValue([
+          {
+            cookieStoreId: "firefox-container-1",
+            name: "Personal",
+            color: "blue",
+            colorCode: "#37adff",
+            icon: "fingerprint",
+            iconUrl: "resource://usercontext-content/fingerprint.svg",
+          },
+        ]);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(mockContextualIdentities.query).toHaveBeenCalledWith({});
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "containers",
+          correlationId: "test-correlation-id",
+          containers: [{ cookieStoreId: "firefox-container-1", name: "Personal", color: "blue", icon: "fingerprint" }],
+        });
+      });
+
+      it("should fail on browsers without containers", async () => {
+        // Arrange
+        delete (browser as any).contextualIdentities;
+        const request: ServerMessageRequest = {
+          cmd: "open-tab",
+          url: "https://example.org",
+          cookieStoreId: "firefox-container-1",
+          correlationId: "test-correlation-id",
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "UNSUPPORTED_COMMAND",
+          message: "Containers are not supported by this browser",
+        });
+        expect(browser.tabs.create).not.toHaveBeenCalled();
+      });
+
+      it("should open a tab in the container", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "open-tab",
+          url: "https://example.org",
+          cookieStoreId: "firefox-container-1",
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.create as jest.Mock).mockResolvedValue({ id: 123 });
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.create).toHaveBeenCalledWith({
+          url: "https://example.org",
+          cookieStoreId: "firefox-container-1",
+        });
+      });
+
+      it("should deny the domains of the container's deny list in that container only", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "open-tab",
+          url: "https://example.com",
+          cookieStoreId: "firefox-container-1",
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.create as jest.Mock).mockResolvedValue({ id: 123 });
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow(
+          "Domain in user defined deny list"
+        );
+        await messageHandler.handleDecodedMessage({ ...request, cookieStoreId: "firefox-container-2" });
+        await messageHandler.handleDecodedMessage({ ...request, cookieStoreId: undefined });
+        expect(browser.tabs.create).toHaveBeenCalledTimes(2);
+      });
+
+      it("should deny the content of the tabs in the container", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-tab-content",
+          tabId: 123,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock).mockResolvedValue({
+          id: 123,
+          url: "https://example.com",
+          cookieStoreId: "firefox-container-1",
+        });
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow(
+          "Domain in tab URL 'https://example.com' is in the deny list"
+        );
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("window commands", () => {
+      const mockWindow = {
+        id: 7,
+        type: "normal",
+        state: "maximized",
+        focused: true,
+        incognito: false,
+        alwaysOnTop: false,
+        left: 0,
+        top: 0,
+        width: 1280,
+        height: 800,
+        tabs: [{ id: 1 }, { id: 2 }],
+      };
+      const expectedWindow = {
+        id: 7,
+        type: "normal",
+        state: "maximized",
+        focused: true,
+        incognito: false,
+        left: 0,
+        top: 0,
+        width: 1280,
+        height: 800,
+        tabCount: 2,
+      };
+
+      it("should list the windows with their tab counts", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "get-window-list",
+          correlationId: "test-correlation-id",
+        };
+        (browser.windows.getAll as jest.Mock).mockResolvedValue([
+          mockWindow,
+          { id: 8, type: "popup", state: "minimized", focused: false, incognito: true },
+        ]);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.windows.getAll).toHaveBeenCalledWith({ populate: true });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "windows",
+          correlationId: "test-correlation-id",
+          windows: [
+            expectedWindow,
+            expect.objectContaining({ id: 8, type: "popup", state: "minimized", tabCount: 0 }),
+          ],
+        });
+      });
+
+      it("should create a popup window with the given size", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "create-window",
+          type: "popup",
+          url: "https://example.com",
+          width: 400,
+          height: 300,
+          correlationId: "test-correlation-id",
+        };
+        (browser.windows.create as jest.Mock).mockResolvedValue(mockWindow);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.windows.create).toHaveBeenCalledWith({
+          type: "popup",
+          url: "https://example.com",
+          width: 400,
+          height: 300,
+        });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "window",
+          correlationId: "test-correlation-id",
+          window: expectedWindow,
+        });
+      });
+
+      it("should not create a window with a non-https URL", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "create-window",
+          url: "http://example.com",
+          correlationId: "test-correlation-id",
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow("Invalid URL");
+        expect(browser.windows.create).not.toHaveBeenCalled();
+      });
+
+      it("should not create a window with an invalid size", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "create-window",
+          width: -1,
+          correlationId: "test-correlation-id",
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow(
+          "Invalid width: -1. width must be a positive integer."
+        );
+        expect(browser.windows.create).not.toHaveBeenCalled();
+      });
+
+      it("should focus a window and send its new state", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "focus-window",
+          windowId: 7,
+          correlationId: "test-correlation-id",
+        };
+        (browser.windows.update as jest.Mock).mockResolvedValue({ ...mockWindow, tabs: undefined });
+        (browser.windows.get as jest.Mock).mockResolvedValue(mockWindow);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.windows.update).toHaveBeenCalledWith(7, { focused: true });
+        expect(browser.windows.get).toHaveBeenCalledWith(7, { populate: true });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "window",
+          correlationId: "test-correlation-id",
+          window: expectedWindow,
+        });
+      });
+
+      it("should minimize a window", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "minimize-window",
+          windowId: 7,
+          correlationId: "test-correlation-id",
+        };
+        (browser.windows.update as jest.Mock).mockResolvedValue(undefined);
+        (browser.windows.get as jest.Mock).mockResolvedValue({ ...mockWindow, state: "minimized" });
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.windows.update).toHaveBeenCalledWith(7, { state: "minimized" });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "window",
+          correlationId: "test-correlation-id",
+          window: { ...expectedWindow, state: "minimized" },
+        });
+      });
+
+      it("should close a window", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "close-window",
+          windowId: 7,
+          correlationId: "test-correlation-id",
+        };
+        (browser.windows.remove as jest.Mock).mockResolvedValue(undefined);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.windows.remove).toHaveBeenCalledWith(7);
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "window-closed",
+          correlationId: "test-correlation-id",
+          windowId: 7,
+        });
+      });
+
+      it("should move tabs to the end of another window", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "move-tabs",
+          tabIds: [1, 2],
+          windowId: 8,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.move as jest.Mock).mockResolvedValue([
+          { id: 1, url: "https://example.com/", title: "Example", windowId: 8, index: 3, active: true },
+          { id: 2, url: "https://example.org/", title: "Other", windowId: 8, index: 4, active: false },
+        ]);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.move).toHaveBeenCalledWith([1, 2], { windowId: 8, index: -1 });
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "tabs-moved",
+          correlationId: "test-correlation-id",
+          tabs: [
+            { id: 1, url: "https://example.com/", title: "Example", windowId: 8, index: 3, active: true },
+            { id: 2, url: "https://example.org/", title: "Other", windowId: 8, index: 4, active: false },
+          ],
+        });
+      });
+
+      describe("restore-session command", () => {
+        beforeEach(() => {
+          (browser.windows.create as jest.Mock).mockResolvedValue({ ...mockWindow, tabs: [{ id: 1 }] });
+          (browser.windows.get as jest.Mock).mockResolvedValue(mockWindow);
+          (browser.tabs.create as jest.Mock).mockImplementation(async ({ url, pinned }) => ({
+            id: url.length,
+            url,
+            windowId: 7,
+            pinned,
+          }));
+          (browser.tabs.remove as jest.Mock).mockResolvedValue(undefined);
+        });
+
+        it("should open the tabs in a new window and close its initial tab", async () => {
+          // Arrange
+          const request: ServerMessageRequest = {
+            cmd: "restore-session",
+            tabs: [
+              { url: "https://example.com/", title: "Example", pinned: true },
+              { url: "https://example.org/page" },
+            ],
+            correlationId: "test-correlation-id",
+          };
+
+          // Act
+          await messageHandler.handleDecodedMessage(request);
+
+          // Assert
+          expect(browser.tabs.create).toHaveBeenNthCalledWith(1, { windowId: 7, url: "https://example.com/", pinned: true });
+          expect(browser.tabs.create).toHaveBeenNthCalledWith(2, { windowId: 7, url: "https://example.org/page", pinned: undefined });
+          expect(browser.tabs.remove).toHaveBeenCalledWith([1]);
+          expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+            resource: "session-restored",
+            correlationId: "test-correlation-id",
+            window: expectedWindow,
+            tabs: [
+              expect.objectContaining({ url: "https://example.com/", windowId: 7, pinned: true }),
+              expect.objectContaining({ url: "https://example.org/page", windowId: 7 }),
+            ],
+            skipped: [],
+          });
+        });
+
+        it("should skip the tabs denied by the deny list or the URL policy", async () => {
+          // Arrange
+          (browser.storage.local.get as jest.Mock).mockResolvedValue({
+            config: { secret: "test-secret", domainDenyList: ["example.com"] },
+          });
+          const request: ServerMessageRequest = {
+            cmd: "restore-session",
+            tabs: [
+              { url: "https://example.com/" },
+              { url: "http://example.org/" },
+              { url: "https://example.org/" },
+            ],
+            correlationId: "test-correlation-id",
+          };
+
+          // Act
+          await messageHandler.handleDecodedMessage(request);
+
+          // Assert
+          expect(browser.tabs.create).toHaveBeenCalledTimes(1);
+          expect(mockClient.sendResourceToServer).toHaveBeenCalledWith(
+            expect.objectContaining({
+              resource: "session-restored",
+              tabs: [expect.objectContaining({ url: "https://example.org/" })],
+              skipped: [
+                { url: "https://example.com/", reason: "Domain in user defined deny list" },
+                { url: "http://example.org/", reason: "Invalid URL, not allowed by the URL policy of the extension" },
+              ],
+            })
+          );
+        });
+
+        it("should not open a window when none of the tabs is allowed", async () => {
+          // Arrange
+          const request: ServerMessageRequest = {
+            cmd: "restore-session",
+            tabs: [{ url: "http://example.org/" }],
+            correlationId: "test-correlation-id",
+          };
+
+          // Act & Assert
+          await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+            code: "INVALID_ARGUMENT",
+            message: "None of the tabs of the session can be opened",
+          });
+          expect(browser.windows.create).not.toHaveBeenCalled();
+        });
+      });
+    });
+
+    describe("navigation commands", () => {
+      const onCompleted = () => browser.webNavigation.onCompleted as unknown as {
+        addListener: jest.Mock;
+        removeListener: jest.Mock;
+      };
+
+      it("should navigate the tab and wait for the page to load", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "navigate-tab",
+          tabId: 5,
+          url: "https://example.org/",
+          waitForLoad: 5000,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock)
+          .mockResolvedValueOnce({ id: 5, url: "https://example.com/", status: "complete" })
+          .mockResolvedValueOnce({ id: 5, url: "https://example.org/", title: "Example", status: "complete" });
+        (browser.tabs.update as jest.Mock).mockImplementationOnce(async () => {
+          const [listener] = onCompleted().addListener.mock.calls[0];
+          listener({ tabId: 4, frameId: 0 });
+          listener({ tabId: 5, frameId: 1 });
+          listener({ tabId: 5, frameId: 0 });
+        });
+        (browser.scripting.executeScript as jest.Mock).mockResolvedValue([{ result: 200 }]);
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        expect(browser.tabs.update).toHaveBeenCalledWith(5, { url: "https://example.org/" });
+        expect(onCompleted().removeListener).toHaveBeenCalledWith(onCompleted().addListener.mock.calls[0][0]);
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
+          resource: "navigation-result",
+          correlationId: "test-correlation-id",
+          tabId: 5,
+          url: "https://example.org/",
+          title: "Example",
+          status: "complete",
+          httpStatus: 200,
+        });
+      });
+
+      it("should apply the URL checks of open-tab to the target URL", async () => {
+        // Arrange
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: { secret: "test-secret", domainDenyList: ["example.com"] },
+        });
+        (browser.tabs.get as jest.Mock).mockResolvedValue({ id: 5, url: "https://example.org/" });
         const request: ServerMessageRequest = {
-          cmd: "open-tab",
-          url: "https://allowed.com",
+          cmd: "navigate-tab",
+          tabId: 5,
+          url: "http://example.net/",
           correlationId: "test-correlation-id",
         };
 
-        const mockTab = { id: 123 };
-        (browser.tabs.create as jest.Mock).mockResolvedValue(mockTab);
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow("Invalid URL");
+        await expect(
+          messageHandler.handleDecodedMessage({ ...request, url: "https://www.example.com/" })
+        ).rejects.toThrow("Domain in user defined deny list");
+        expect(browser.tabs.update).not.toHaveBeenCalled();
+      });
+
+      it("should go back without waiting for the load", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "go-back",
+          tabId: 5,
+          correlationId: "test-correlation-id",
+        };
+        (browser.tabs.get as jest.Mock).mockResolvedValue({ id: 5, url: "https://example.org/", status: "loading" });
 
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.create).toHaveBeenCalledWith({
-          url: "https://allowed.com",
-        });
-        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "opened-tab-id",
-          correlationId: "test-correlation-id",
-          tabId: 123,
-        });
+        expect(browser.tabs.goBack).toHaveBeenCalledWith(5);
+        expect(onCompleted().addListener).not.toHaveBeenCalled();
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith(
+          expect.objectContaining({ resource: "navigation-result", status: "loading", httpStatus: undefined })
+        );
       });
-    });
 
-    describe("close-tabs command", () => {
-      it("should close tabs and send confirmation to the server", async () => {
+      it("should reload bypassing the cache and stop waiting after waitForLoad", async () => {
         // Arrange
         const request: ServerMessageRequest = {
-          cmd: "close-tabs",
-          tabIds: [123, 456],
+          cmd: "reload-tab",
+          tabId: 5,
+          bypassCache: true,
+          waitForLoad: 10,
           correlationId: "test-correlation-id",
         };
-
-        (browser.tabs.remove as jest.Mock).mockResolvedValue(undefined);
+        (browser.tabs.get as jest.Mock).mockResolvedValue({ id: 5, url: "https://example.org/", status: "loading" });
 
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.remove).toHaveBeenCalledWith([123, 456]);
-        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "tabs-closed",
+        expect(browser.tabs.reload).toHaveBeenCalledWith(5, { bypassCache: true });
+        expect(onCompleted().removeListener).toHaveBeenCalled();
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith(
+          expect.objectContaining({ resource: "navigation-result", status: "loading" })
+        );
+      });
+
+      it("should deny the pages of the deny list reached through the history", async () => {
+        // Arrange
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: { secret: "test-secret", domainDenyList: ["example.com"] },
+        });
+        (browser.tabs.get as jest.Mock)
+          .mockResolvedValueOnce({ id: 5, url: "https://example.org/" })
+          .mockResolvedValueOnce({ id: 5, url: "https://example.com/private", title: "Private" });
+        const request: ServerMessageRequest = {
+          cmd: "go-forward",
+          tabId: 5,
           correlationId: "test-correlation-id",
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "DOMAIN_DENIED",
+          message: "Tab 5 navigated to a domain in the deny list",
         });
+        expect(browser.tabs.goBack).toHaveBeenCalledWith(5);
+        expect(mockClient.sendResourceToServer).not.toHaveBeenCalled();
       });
-    });
 
-    describe("get-tab-list command", () => {
-      it("should get tabs and send them to the server", async () => {
+      it("should apply the URL policy to the pages reached through the history", async () => {
         // Arrange
+        (browser.tabs.get as jest.Mock)
+          .mockResolvedValueOnce({ id: 5, url: "https://example.org/" })
+          .mockResolvedValueOnce({ id: 5, url: "http://example.net/", title: "Plain HTTP" });
         const request: ServerMessageRequest = {
-          cmd: "get-tab-list",
+          cmd: "go-back",
+          tabId: 5,
           correlationId: "test-correlation-id",
         };
 
-        const mockTabs = [{ id: 123, url: "https://example.com" }];
-        (browser.tabs.query as jest.Mock).mockResolvedValue(mockTabs);
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "INVALID_ARGUMENT",
+          message: "Tab 5 navigated to a URL not allowed by the URL policy of the extension",
+        });
+        expect(browser.tabs.goForward).toHaveBeenCalledWith(5);
+        expect(browser.tabs.remove).not.toHaveBeenCalled();
+        expect(mockClient.sendResourceToServer).not.toHaveBeenCalled();
+      });
 
-        // Act
-        await messageHandler.handleDecodedMessage(request);
+      it("should close the tab when it can't leave a denied page of the history", async () => {
+        // Arrange
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+        (browser.tabs.get as jest.Mock)
+          .mockResolvedValueOnce({ id: 5, url: "https://example.org/" })
+          .mockResolvedValueOnce({ id: 5, url: "about:config" });
+        (browser.tabs.goForward as jest.Mock).mockRejectedValueOnce(new Error("No next page"));
+        const request: ServerMessageRequest = {
+          cmd: "go-back",
+          tabId: 5,
+          correlationId: "test-correlation-id",
+        };
 
-        // Assert
-        expect(browser.tabs.query).toHaveBeenCalledWith({});
-        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "tabs",
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "INVALID_ARGUMENT",
+        });
+        expect(browser.tabs.remove).toHaveBeenCalledWith(5);
+        consoleError.mockRestore();
+      });
+
+      it("should fail with TAB_NOT_FOUND for an unknown tab", async () => {
+        // Arrange
+        (browser.tabs.get as jest.Mock).mockRejectedValue(new Error("Invalid tab ID: 99"));
+        const request: ServerMessageRequest = {
+          cmd: "reload-tab",
+          tabId: 99,
           correlationId: "test-correlation-id",
-          tabs: mockTabs,
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "TAB_NOT_FOUND",
         });
       });
     });
 
-    describe("get-browser-recent-history command", () => {
-      it("should get history items and send them to the server", async () => {
+    describe("bookmark commands", () => {
+      const bookmarkTree = [
+        {
+          id: "root________",
+          title: "",
+          children: [
+            {
+              id: "toolbar_____",
+              parentId: "root________",
+              title: "Bookmarks Toolbar",
+              type: "folder",
+              children: [
+                { id: "b1", parentId: "toolbar_____", title: "Example", url: "https://example.com/", type: "bookmark" },
+                { id: "s1", parentId: "toolbar_____", title: "", url: "data:", type: "separator" },
+                {
+                  id: "f1",
+                  parentId: "toolbar_____",
+                  title: "Research",
+                  type: "folder",
+                  children: [
+                    { id: "b2", parentId: "f1", title: "Denied", url: "https://denied.com/", type: "bookmark" },
+                    { id: "b3", parentId: "f1", title: "Paper", url: "https://example.org/paper", type: "bookmark" },
+                  ],
+                },
+              ],
+            },
+            { id: "unfiled_____", parentId: "root________", title: "Other Bookmarks", type: "folder", children: [] },
+          ],
+        },
+      ];
+
+      function mockConfig(agentBookmarkIds: string[] = []) {
+        (browser.storage.local.get as jest.Mock).mockResolvedValue({
+          config: { secret: "test-secret", domainDenyList: ["denied.com"], agentBookmarkIds },
+        });
+      }
+
+      beforeEach(() => {
+        mockConfig(["b3"]);
+        (browser.bookmarks.getTree as jest.Mock).mockResolvedValue(bookmarkTree);
+      });
+
+      it("should search the bookmarks without the denied ones", async () => {
         // Arrange
         const request: ServerMessageRequest = {
-          cmd: "get-browser-recent-history",
-          searchQuery: "test",
+          cmd: "search-bookmarks",
+          query: "example",
+          maxResults: 1,
           correlationId: "test-correlation-id",
         };
-
-        const mockHistoryItems = [
-          { url: "https://example.com", title: "Example" },
-          { url: "https://test.com", title: "Test" },
-        ];
-        (browser.history.search as jest.Mock).mockResolvedValue(
-          mockHistoryItems
-        );
+        const [toolbar] = bookmarkTree[0].children;
+        (browser.bookmarks.search as jest.Mock).mockResolvedValue([
+          toolbar.children[2].children![0],
+          toolbar.children[2].children![1],
+          toolbar.children[0],
+        ]);
 
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.history.search).toHaveBeenCalledWith({
-          text: "test",
-          maxResults: 200,
-          startTime: 0,
-        });
+        expect(browser.bookmarks.search).toHaveBeenCalledWith("example");
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "history",
-          correlationId: "test-correlation-id",
-          historyItems: mockHistoryItems,
+          resource: "bookmarks",
+          correlationId: "test-correlation-id",
+          bookmarks: [
+            {
+              id: "b3",
+              parentId: "f1",
+              title: "Paper",
+              url: "https://example.org/paper",
+              type: "bookmark",
+              dateAdded: undefined,
+              depth: undefined,
+              createdByAgent: true,
+            },
+          ],
         });
       });
 
-      it("should use empty string for search query if not provided", async () => {
+      it("should list the folder tree depth first", async () => {
         // Arrange
         const request: ServerMessageRequest = {
-          cmd: "get-browser-recent-history",
+          cmd: "get-bookmark-tree",
           correlationId: "test-correlation-id",
         };
 
-        const mockHistoryItems = [
-          { url: "https://example.com", title: "Example" },
-        ];
-        (browser.history.search as jest.Mock).mockResolvedValue(
-          mockHistoryItems
-        );
-
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.history.search).toHaveBeenCalledWith({
-          text: "",
-          maxResults: 200,
-          startTime: 0,
-        });
+        const [message] = (mockClient.sendResourceToServer as jest.Mock).mock.calls[0];
+        expect(message.bookmarks.map(({ id, depth }: { id: string; depth: number }) => [id, depth])).toEqual([
+          ["toolbar_____", 0],
+          ["b1", 1],
+          ["f1", 1],
+          ["b3", 2],
+          ["unfiled_____", 0],
+        ]);
       });
 
-      it("should filter out history items without URLs", async () => {
+      it("should only list the given levels of a folder", async () => {
         // Arrange
         const request: ServerMessageRequest = {
-          cmd: "get-browser-recent-history",
+          cmd: "get-bookmark-tree",
+          folderId: "toolbar_____",
+          maxDepth: 0,
           correlationId: "test-correlation-id",
         };
-
-        const mockHistoryItems = [
-          { url: "https://example.com", title: "Example" },
-          { title: "No URL" }, // This should be filtered out
-        ];
-        (browser.history.search as jest.Mock).mockResolvedValue(
-          mockHistoryItems
-        );
+        (browser.bookmarks.getSubTree as jest.Mock).mockResolvedValue([bookmarkTree[0].children[0]]);
 
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "history",
-          correlationId: "test-correlation-id",
-          historyItems: [{ url: "https://example.com", title: "Example" }],
-        });
+        const [message] = (mockClient.sendResourceToServer as jest.Mock).mock.calls[0];
+        expect(message.bookmarks.map(({ id }: { id: string }) => id)).toEqual(["b1", "f1"]);
       });
-    });
 
-    describe("get-tab-content command", () => {
-      it("should get tab content and send it to the server", async () => {
+      it("should create a bookmark in a folder path, creating the missing folders", async () => {
         // Arrange
         const request: ServerMessageRequest = {
-          cmd: "get-tab-content",
-          tabId: 123,
+          cmd: "create-bookmark",
+          url: "https://example.net/",
+          title: "Finding",
+          folderPath: ["Research", "2026-10-18"],
           correlationId: "test-correlation-id",
         };
-
-        const mockTab = { id: 123, url: "https://example.com" };
-        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
-
-        // Mock the scripting API result with proper structure
-        const mockScriptResult = [
-          {
-            result: {
-              links: [{ url: "https://example.com/page", text: "Page" }],
-              fullText: "Page content",
-              isTruncated: false,
-              totalLength: 12,
-            }
-          },
-        ];
-        (browser.scripting.executeScript as jest.Mock).mockResolvedValue(
-          mockScriptResult
-        );
+        (browser.bookmarks.search as jest.Mock).mockResolvedValue([
+          { id: "f2", parentId: "f1", title: "Research", type: "folder" },
+          { id: "f1", parentId: "toolbar_____", title: "Research", type: "folder" },
+        ]);
+        (browser.bookmarks.getChildren as jest.Mock).mockResolvedValue([]);
+        (browser.bookmarks.create as jest.Mock)
+          .mockResolvedValueOnce({ id: "f3", parentId: "f1", title: "2026-10-18", type: "folder" })
+          .mockResolvedValueOnce({ id: "b4", parentId: "f3", title: "Finding", url: "https://example.net/", type: "bookmark" });
 
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.get).toHaveBeenCalledWith(123);
-        expect(browser.scripting.executeScript).toHaveBeenCalled();
+        expect(browser.bookmarks.search).toHaveBeenCalledWith({ title: "Research" });
+        expect(browser.bookmarks.getChildren).toHaveBeenCalledWith("f1");
+        expect(browser.bookmarks.create).toHaveBeenNthCalledWith(1, { parentId: "f1", title: "2026-10-18" });
+        expect(browser.bookmarks.create).toHaveBeenNthCalledWith(2, {
+          parentId: "f3",
+          title: "Finding",
+          url: "https://example.net/",
+        });
+        expect(browser.storage.local.set).toHaveBeenCalledWith({
+          config: expect.objectContaining({ agentBookmarkIds: ["b3", "f3", "b4"] }),
+        });
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "tab-content",
-          tabId: 123,
+          resource: "bookmark",
           correlationId: "test-correlation-id",
-          content: "Page content",
-          links: [{ url: "https://example.com/page", text: "Page" }],
-          isTruncated: false,
-          totalLength: 12,
+          bookmark: expect.objectContaining({ id: "b4", parentId: "f3", createdByAgent: true }),
         });
       });
 
-      it("should throw an error if tab URL domain is in deny list", async () => {
+      it("should not bookmark a URL in the deny list", async () => {
         // Arrange
-        const configWithDenyList: ExtensionConfig = {
-          secret: "test-secret",
-          toolSettings: {
-            "open-browser-tab": true,
-            "close-browser-tabs": true,
-            "get-list-of-open-tabs": true,
-            "get-recent-browser-history": true,
-            "get-tab-web-content": true,
-            "reorder-browser-tabs": true,
-            "find-highlight-in-browser-tab": true,
-            "take-screenshot": true,
-          },
-          domainDenyList: ["example.com"], // Add example.com to deny list
-          screenshotConfig: {
-            defaultFormat: "png",
-            defaultQuality: 90,
-            maxWidth: 1920,
-            maxHeight: 1080
-          }
+        const request: ServerMessageRequest = {
+          cmd: "create-bookmark",
+          url: "https://denied.com/",
+          title: "Denied",
+          correlationId: "test-correlation-id",
         };
-        (browser.storage.local.get as jest.Mock).mockResolvedValue({
-          config: configWithDenyList,
-        });
 
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({ code: "DOMAIN_DENIED" });
+        expect(browser.bookmarks.create).not.toHaveBeenCalled();
+      });
+
+      it("should not remove the bookmarks of the user", async () => {
+        // Arrange
         const request: ServerMessageRequest = {
-          cmd: "get-tab-content",
-          tabId: 123,
+          cmd: "remove-bookmarks",
+          bookmarkIds: ["b3", "b1"],
           correlationId: "test-correlation-id",
         };
-
-        const mockTab = { id: 123, url: "https://example.com" };
-        (browser.tabs.get as jest.Mock).mockResolvedValue(mockTab);
+        (browser.bookmarks.getSubTree as jest.Mock).mockResolvedValue([{ id: "b3", url: "https://example.org/paper" }]);
 
         // Act & Assert
-        await expect(
-          messageHandler.handleDecodedMessage(request)
-        ).rejects.toThrow(
-          "Domain in tab URL 'https://example.com' is in the deny list"
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow(
+          "Bookmark b1 was not created through the MCP server and cannot be removed"
         );
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.bookmarks.remove).not.toHaveBeenCalled();
       });
-    });
 
-    describe("reorder-tabs command", () => {
-      it("should reorder tabs and send confirmation to the server", async () => {
+      it("should remove a folder created through the MCP server", async () => {
         // Arrange
+        mockConfig(["f3", "b4"]);
         const request: ServerMessageRequest = {
-          cmd: "reorder-tabs",
-          tabOrder: [123, 456, 789],
+          cmd: "remove-bookmarks",
+          bookmarkIds: ["f3"],
           correlationId: "test-correlation-id",
         };
-
-        (browser.tabs.move as jest.Mock).mockResolvedValue(undefined);
+        (browser.bookmarks.getSubTree as jest.Mock).mockResolvedValue([
+          { id: "f3", title: "2026-10-18", children: [{ id: "b4", url: "https://example.net/" }] },
+        ]);
 
         // Act
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.move).toHaveBeenCalledTimes(3);
-        expect(browser.tabs.move).toHaveBeenNthCalledWith(1, 123, { index: 0 });
-        expect(browser.tabs.move).toHaveBeenNthCalledWith(2, 456, { index: 1 });
-        expect(browser.tabs.move).toHaveBeenNthCalledWith(3, 789, { index: 2 });
+        expect(browser.bookmarks.removeTree).toHaveBeenCalledWith("f3");
+        expect(browser.storage.local.set).toHaveBeenCalledWith({
+          config: expect.objectContaining({ agentBookmarkIds: [] }),
+        });
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
-          resource: "tabs-reordered",
+          resource: "bookmarks-removed",
           correlationId: "test-correlation-id",
-          tabOrder: [123, 456, 789],
+          bookmarkIds: ["f3"],
         });
       });
+
+      it("should not remove a folder holding bookmarks of the user", async () => {
+        // Arrange
+        mockConfig(["f3"]);
+        const request: ServerMessageRequest = {
+          cmd: "remove-bookmarks",
+          bookmarkIds: ["f3"],
+          correlationId: "test-correlation-id",
+        };
+        (browser.bookmarks.getSubTree as jest.Mock).mockResolvedValue([
+          { id: "f3", title: "2026-10-18", children: [{ id: "b1", url: "https://example.com/" }] },
+        ]);
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toThrow(
+          "Bookmark folder f3 holds bookmarks not created through the MCP server and cannot be removed"
+        );
+        expect(browser.bookmarks.removeTree).not.toHaveBeenCalled();
+      });
     });
 
     describe("find-highlight command", () => {
@@ -1319,6 +2517,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "No element found at coordinates (100, 200)",
+          errorCode: "ELEMENT_NOT_FOUND",
           timestamp: expect.any(Number),
           elementInfo: undefined
         });
@@ -1356,6 +2555,7 @@ describe("MessageHandler", () => {
           elementFound: true,
           clickExecuted: false,
           message: "Click blocked on sensitive element for security reasons",
+          errorCode: "INTERNAL",
           timestamp: expect.any(Number),
           elementInfo: undefined
         });
@@ -1387,6 +2587,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Could not establish connection. Receiving end does not exist.",
+          errorCode: "INTERNAL",
           timestamp: expect.any(Number)
         });
       });
@@ -1406,7 +2607,7 @@ describe("MessageHandler", () => {
 
         // Assert
         expect(browser.tabs.get).not.toHaveBeenCalled();
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1414,6 +2615,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Invalid tab ID: -1. Tab ID must be a positive integer.",
+          errorCode: "INVALID_ARGUMENT",
           timestamp: expect.any(Number)
         });
       });
@@ -1433,7 +2635,7 @@ describe("MessageHandler", () => {
 
         // Assert
         expect(browser.tabs.get).not.toHaveBeenCalled();
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1441,6 +2643,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Invalid x coordinate: -10. X coordinate must be a non-negative integer.",
+          errorCode: "INVALID_ARGUMENT",
           timestamp: expect.any(Number)
         });
       });
@@ -1466,7 +2669,7 @@ describe("MessageHandler", () => {
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1474,6 +2677,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Tab 123 not found or not ready",
+          errorCode: "TAB_NOT_FOUND",
           timestamp: expect.any(Number)
         });
       });
@@ -1516,7 +2720,7 @@ describe("MessageHandler", () => {
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1524,6 +2728,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Domain in tab URL 'https://example.com' is in the deny list",
+          errorCode: "DOMAIN_DENIED",
           timestamp: expect.any(Number)
         });
       });
@@ -1822,6 +3027,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Element not found with selector: #non-existent-element",
+          errorCode: "ELEMENT_NOT_FOUND",
           timestamp: expect.any(Number),
           elementInfo: undefined
         });
@@ -1858,6 +3064,7 @@ describe("MessageHandler", () => {
           elementFound: true,
           clickExecuted: false,
           message: "Click blocked on sensitive element for security reasons",
+          errorCode: "INTERNAL",
           timestamp: expect.any(Number),
           elementInfo: undefined
         });
@@ -1888,6 +3095,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Could not establish connection. Receiving end does not exist.",
+          errorCode: "INTERNAL",
           timestamp: expect.any(Number)
         });
       });
@@ -1913,6 +3121,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Invalid tab ID: -1. Tab ID must be a positive integer.",
+          errorCode: "INVALID_ARGUMENT",
           timestamp: expect.any(Number)
         });
       });
@@ -1931,7 +3140,7 @@ describe("MessageHandler", () => {
 
         // Assert
         expect(browser.tabs.get).not.toHaveBeenCalled();
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1939,6 +3148,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Invalid selector: selector must be a non-empty string.",
+          errorCode: "INVALID_ARGUMENT",
           timestamp: expect.any(Number)
         });
       });
@@ -1957,7 +3167,7 @@ describe("MessageHandler", () => {
 
         // Assert
         expect(browser.tabs.get).not.toHaveBeenCalled();
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1965,6 +3175,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Invalid selector: potentially dangerous characters detected.",
+          errorCode: "INVALID_ARGUMENT",
           timestamp: expect.any(Number)
         });
       });
@@ -1984,7 +3195,7 @@ describe("MessageHandler", () => {
         await messageHandler.handleDecodedMessage(request);
 
         // Assert
-        expect(browser.tabs.executeScript).not.toHaveBeenCalled();
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
         expect(mockClient.sendResourceToServer).toHaveBeenCalledWith({
           resource: "click-result",
           correlationId: "test-correlation-id",
@@ -1992,6 +3203,7 @@ describe("MessageHandler", () => {
           elementFound: false,
           clickExecuted: false,
           message: "Click failed: Tab not found",
+          errorCode: "INTERNAL",
           timestamp: expect.any(Number)
         });
       });
@@ -2059,5 +3271,78 @@ describe("MessageHandler", () => {
         });
       });
     });
+
+    describe("wait-for-condition command", () => {
+      it("should refuse the command as a disabled tool", async () => {
+        // Arrange
+        // Reaches the command even if a setting allowed it
+        const isCommandAllowed = jest.spyOn(extensionConfig, "isCommandAllowed").mockResolvedValue(true);
+        const request: ServerMessageRequest = {
+          cmd: "wait-for-condition",
+          tabId: 5,
+          condition: "document.readyState === 'complete'",
+          correlationId: "test-correlation-id",
+        };
+
+        // Act & Assert
+        await expect(messageHandler.handleDecodedMessage(request)).rejects.toMatchObject({
+          code: "TOOL_DISABLED",
+          message: expect.stringContaining("wait-for-condition feature has been disabled"),
+        });
+        expect(browser.scripting.executeScript).not.toHaveBeenCalled();
+        isCommandAllowed.mockRestore();
+      });
+    });
+
+    describe("type-text command", () => {
+      let getBoundingClientRect: jest.SpyInstance;
+      let isCommandAllowed: jest.SpyInstance;
+
+      beforeEach(() => {
+        // No tool setting covers type-text
+        isCommandAllowed = jest.spyOn(extensionConfig, "isCommandAllowed").mockResolvedValue(true);
+        // Runs the injected function in the jsdom document
+        (browser.scripting.executeScript as jest.Mock).mockImplementation(async ({ func, args }) => [
+          { result: await func(...args) },
+        ]);
+        document.body.innerHTML = '<input id="name">';
+        // jsdom lays nothing out, the input would count as hidden
+        getBoundingClientRect = jest
+          .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+          .mockReturnValue({ width: 100, height: 20 } as DOMRect);
+      });
+
+      afterEach(() => {
+        getBoundingClientRect.mockRestore();
+        isCommandAllowed.mockRestore();
+        document.body.innerHTML = "";
+      });
+
+      it("should type the text from the extension's isolated world", async () => {
+        // Arrange
+        const request: ServerMessageRequest = {
+          cmd: "type-text",
+          tabId: 5,
+          text: "Hello",
+          selector: "#name",
+          correlationId: "test-correlation-id",
+        };
+
+        // Act
+        await messageHandler.handleDecodedMessage(request);
+
+        // Assert
+        const [injection] = (browser.scripting.executeScript as jest.Mock).mock.calls[0];
+        expect(injection).toMatchObject({
+          target: { tabId: 5 },
+          args: ["#name", "Hello", false, 0, 5000, "test-correlation-id"],
+        });
+        expect(injection.world).toBeUndefined();
+        expect(document.querySelector<HTMLInputElement>("#name")!.value).toBe("Hello");
+        expect(mockClient.sendResourceToServer).toHaveBeenCalledWith(
+          expect.objectContaining({ resource: "type-result", success: true, charactersTyped: 5 })
+        );
+      });
+    });
   });
 });
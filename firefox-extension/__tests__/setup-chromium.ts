@@ -0,0 +1,45 @@
+// Jest setup file for the Chromium target, run after setup.ts
+import { createBrowserCompat } from "../chromium-compat";
+
+// The browser API mocks of setup.ts have the shape of Chromium's chrome API
+const mockChrome = {
+  ...(global as any).browser,
+  runtime: {
+    id: "test-extension-id",
+    getManifest: jest.fn(),
+    openOptionsPage: jest.fn(),
+    sendMessage: jest.fn(),
+    connectNative: jest.fn(),
+    onMessage: { addListener: jest.fn() },
+  },
+};
+delete mockChrome.find;
+
+const compat: ReturnType<typeof createBrowserCompat> = createBrowserCompat(mockChrome);
+
+// The methods implemented by the compatibility layer become mocks, which the
+// tests can stub like those of Firefox. The namespaces passed through as
+// getters already are.
+for (const { value: namespace } of Object.values(Object.getOwnPropertyDescriptors(compat))) {
+  if (!namespace) {
+    continue;
+  }
+  for (const [name, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(namespace))) {
+    if (typeof descriptor.value === "function") {
+      (namespace as Record<string, unknown>)[name] = jest.fn(descriptor.value);
+    }
+  }
+}
+
+Object.defineProperty(global, 'chrome', {
+  value: mockChrome,
+  writable: true,
+  configurable: true,
+});
+Object.defineProperty(global, 'browser', {
+  value: compat,
+  writable: true,
+  configurable: true,
+});
+
+export { mockChrome };
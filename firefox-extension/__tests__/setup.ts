@@ -59,10 +59,14 @@ const mockBrowser = {
     remove: jest.fn(),
     query: jest.fn(),
     get: jest.fn(),
-    executeScript: jest.fn(),
     sendMessage: jest.fn(),
     move: jest.fn(),
     update: jest.fn(),
+    goBack: jest.fn(),
+    goForward: jest.fn(),
+    reload: jest.fn(),
+    discard: jest.fn(),
+    duplicate: jest.fn(),
     captureVisibleTab: jest.fn(),
   },
   scripting: {
@@ -70,17 +74,41 @@ const mockBrowser = {
   },
   windows: {
     get: jest.fn(),
+    getAll: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
   },
   history: {
     search: jest.fn(),
   },
+  bookmarks: {
+    search: jest.fn(),
+    get: jest.fn(),
+    getTree: jest.fn(),
+    getSubTree: jest.fn(),
+    getChildren: jest.fn(),
+    create: jest.fn(),
+    remove: jest.fn(),
+    removeTree: jest.fn(),
+  },
+  webNavigation: {
+    onCompleted: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
+  },
   find: {
     find: jest.fn(),
     highlightResults: jest.fn(),
   },
+  runtime: {
+    getBrowserInfo: jest.fn(),
+  },
   storage: {
     local: {
         get: jest.fn(),
+        set: jest.fn(),
     },
   }
 };
@@ -0,0 +1,113 @@
+import { ExtensionPayload, ServerTransport } from "../transport";
+
+// Keeps the payloads sent to the server instead of moving them anywhere
+class TestTransport extends ServerTransport {
+  readonly sent: ExtensionPayload[] = [];
+
+  public connect(): void {}
+
+  public disconnect(): void {}
+
+  public isConnected(): boolean {
+    return true;
+  }
+
+  protected async sendPayload(payload: ExtensionPayload): Promise<void> {
+    this.sent.push(payload);
+  }
+
+  receive(payload: unknown): void {
+    this.handleServerPayload(payload);
+  }
+}
+
+describe("ServerTransport", () => {
+  let transport: TestTransport;
+  let onMessage: jest.Mock;
+  let onCancel: jest.Mock;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    transport = new TestTransport();
+    onMessage = jest.fn();
+    onCancel = jest.fn();
+    transport.addMessageListener(onMessage);
+    transport.addCancelListener(onCancel);
+    consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it("should pass the valid requests to the message listener", () => {
+    transport.receive({
+      cmd: "open-tab",
+      url: "https://example.com",
+      correlationId: "test-correlation-id",
+      deadline: 123,
+    });
+
+    expect(onMessage).toHaveBeenCalledWith({
+      cmd: "open-tab",
+      url: "https://example.com",
+      correlationId: "test-correlation-id",
+      deadline: 123,
+    });
+    expect(transport.sent).toEqual([]);
+  });
+
+  it("should strip the fields unknown to the protocol", () => {
+    transport.receive({ cmd: "get-tab-list", correlationId: "test-correlation-id", extra: true });
+
+    expect(onMessage).toHaveBeenCalledWith({ cmd: "get-tab-list", correlationId: "test-correlation-id" });
+  });
+
+  it("should keep the hello and pass the cancellations on", () => {
+    const hello = { cmd: "server-hello", serverId: "server", port: 8089, startedAt: 1, protocolVersion: 1 };
+
+    transport.receive(hello);
+    transport.receive({ cmd: "cancel", correlationId: "test-correlation-id" });
+
+    expect(transport.getServerHello()).toEqual(hello);
+    expect(onCancel).toHaveBeenCalledWith("test-correlation-id");
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+
+  it("should fail a malformed request with an invalid argument error", async () => {
+    transport.receive({ cmd: "close-tabs", tabIds: "1,2", correlationId: "test-correlation-id" });
+    await Promise.resolve();
+
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(transport.sent).toEqual([
+      {
+        correlationId: "test-correlation-id",
+        errorMessage: expect.stringContaining("Malformed close-tabs request: tabIds: Expected array"),
+        errorCode: "INVALID_ARGUMENT",
+      },
+    ]);
+  });
+
+  it("should fail a request with an unknown command", async () => {
+    transport.receive({ cmd: "format-disk", correlationId: "test-correlation-id" });
+    await Promise.resolve();
+
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(transport.sent).toEqual([
+      expect.objectContaining({ correlationId: "test-correlation-id", errorCode: "INVALID_ARGUMENT" }),
+    ]);
+  });
+
+  it("should drop malformed payloads without a correlationId", async () => {
+    transport.receive({ cmd: "open-tab", url: "https://example.com" });
+    transport.receive({ cmd: "server-hello", serverId: 42 });
+    transport.receive("not an object");
+    transport.receive(null);
+    await Promise.resolve();
+
+    expect(onMessage).not.toHaveBeenCalled();
+    expect(transport.getServerHello()).toBeNull();
+    expect(transport.sent).toEqual([]);
+    expect(consoleError).toHaveBeenCalledTimes(4);
+  });
+});
@@ -1,3 +1,24 @@
+import { isSignedEnvelope } from "@browser-control-mcp/common";
+import type {
+  SignedEnvelope,
+  EnvelopeRejectionReason,
+} from "@browser-control-mcp/common";
+
+// Envelopes issued longer ago than this (or this far in the future) are
+// rejected as stale. Within the window, nonces are remembered to reject
+// duplicates.
+export const MAX_ENVELOPE_AGE_MS = 30_000;
+
+export class EnvelopeError extends Error {
+  readonly reason: EnvelopeRejectionReason;
+
+  constructor(reason: EnvelopeRejectionReason, message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+    this.reason = reason;
+  }
+}
+
 function buf2hex(buffer: ArrayBuffer) {
   return Array.from(new Uint8Array(buffer))
     .map((x) => x.toString(16).padStart(2, "0"))
@@ -32,3 +53,81 @@ export async function getMessageSignature(
 
   return buf2hex(rawSignature);
 }
+
+
+function getEnvelopeSignature(
+  nonce: string,
+  issuedAt: number,
+  payload: unknown,
+  secretKey: string
+): Promise<string> {
+  return getMessageSignature(
+    `${nonce}.${issuedAt}.${JSON.stringify(payload)}`,
+    secretKey
+  );
+}
+
+export async function signEnvelope<T>(
+  payload: T,
+  secretKey: string
+): Promise<SignedEnvelope<T>> {
+  const nonce = crypto.randomUUID();
+  const issuedAt = Date.now();
+  return {
+    payload,
+    nonce,
+    issuedAt,
+    signature: await getEnvelopeSignature(nonce, issuedAt, payload, secretKey),
+  };
+}
+
+// Remembers the nonces seen within the freshness window
+export class ReplayGuard {
+  private seenNonces: Map<string, number> = new Map();
+
+  public check(nonce: string, issuedAt: number, now: number = Date.now()) {
+    this.prune(now);
+    if (Math.abs(now - issuedAt) > MAX_ENVELOPE_AGE_MS) {
+      throw new EnvelopeError(
+        "stale",
+        `Envelope issued ${now - issuedAt}ms ago is outside the accepted window`
+      );
+    }
+    if (this.seenNonces.has(nonce)) {
+      throw new EnvelopeError("duplicate", `Envelope nonce ${nonce} was already used`);
+    }
+    this.seenNonces.set(nonce, issuedAt);
+  }
+
+  private prune(now: number) {
+    for (const [nonce, issuedAt] of this.seenNonces.entries()) {
+      if (now - issuedAt > MAX_ENVELOPE_AGE_MS) {
+        this.seenNonces.delete(nonce);
+      }
+    }
+  }
+}
+
+export async function verifyEnvelope(
+  envelope: unknown,
+  secretKey: string,
+  replayGuard: ReplayGuard
+): Promise<SignedEnvelope<unknown>> {
+  if (!isSignedEnvelope(envelope)) {
+    throw new EnvelopeError("malformed", "Frame is not a signed envelope");
+  }
+
+  const signature = await getEnvelopeSignature(
+    envelope.nonce,
+    envelope.issuedAt,
+    envelope.payload,
+    secretKey
+  );
+  if (signature.length === 0 || signature !== envelope.signature) {
+    throw new EnvelopeError("invalid-signature", "Invalid message signature");
+  }
+
+  // Only record the nonce once the signature is known to be genuine
+  replayGuard.check(envelope.nonce, envelope.issuedAt);
+  return envelope;
+}
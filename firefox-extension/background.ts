@@ -1,29 +1,13 @@
-import { WebsocketClient } from "./client";
-import { MessageHandler } from "./message-handler";
+import {
+  ServerDiscovery,
+  DiscoveredServer,
+  GetDiscoveredServersRequest,
+} from "./discovery";
+import { NativeMessagingClient } from "./native-client";
+import { serveCommands } from "./message-handler";
+import { watchBrowserEvents } from "./browser-events";
 import { getConfig, generateSecret } from "./extension-config";
 
-const WS_PORTS = [8081, 8082];
-
-function initClient(port: number, secret: string) {
-  const wsClient = new WebsocketClient(port, secret);
-  const messageHandler = new MessageHandler(wsClient);
-
-  wsClient.connect();
-
-  wsClient.addMessageListener(async (message) => {
-    console.log("Message from server:", message);
-
-    try {
-      await messageHandler.handleDecodedMessage(message);
-    } catch (error) {
-      console.error("Error handling message:", error);
-      if (error instanceof Error) {
-        await wsClient.sendErrorToServer(message.correlationId, error.message);
-      }
-    }
-  });
-}
-
 async function initExtension() {
   let config = await getConfig();
   if (!config.secret) {
@@ -43,9 +27,41 @@ initExtension()
       console.error("Secret not found in storage - reinstall extension");
       return;
     }
-    for (const port of WS_PORTS) {
-      initClient(port, secret);
+    let getServers: () => DiscoveredServer[];
+    if (config.transport === "native") {
+      const nativeClient = new NativeMessagingClient();
+      serveCommands(nativeClient);
+      nativeClient.connect();
+      watchBrowserEvents((event) => {
+        if (!nativeClient.isConnected()) {
+          return;
+        }
+        nativeClient.sendEventToServer(event).catch((error) => {
+          console.error("Failed to send browser event to native host:", error);
+        });
+      });
+      getServers = () => {
+        const hello = nativeClient.getServerHello();
+        return [{
+          serverId: hello?.serverId,
+          startedAt: hello?.startedAt,
+          status: nativeClient.isConnected() ? "connected" : "disconnected",
+        }];
+      };
+    } else {
+      const discovery = new ServerDiscovery(secret);
+      discovery.start();
+      watchBrowserEvents((event) => discovery.broadcastEvent(event));
+      getServers = () => discovery.getServers();
     }
+
+    // Let the options page list the discovered servers and their status
+    browser.runtime.onMessage.addListener((message: GetDiscoveredServersRequest) => {
+      if (message?.type === "get-discovered-servers") {
+        return Promise.resolve(getServers());
+      }
+      return undefined;
+    });
     console.log("Browser extension initialized");
   })
   .catch((error) => {
@@ -0,0 +1,145 @@
+import type {
+  BrowserDownload,
+  BrowserEvent,
+  BrowserTab,
+} from "@browser-control-mcp/common";
+import { isDomainInDenyList, isToolEnabled } from "./extension-config";
+
+// The tool that must be enabled for each type of event to be pushed
+const EVENT_TOOL_IDS: Record<BrowserEvent["type"], string> = {
+  "tab-created": "get-list-of-open-tabs",
+  "tab-updated": "get-list-of-open-tabs",
+  "tab-removed": "get-list-of-open-tabs",
+  "tab-activated": "get-list-of-open-tabs",
+  "navigation-completed": "get-list-of-open-tabs",
+  "download-changed": "watch-browser-downloads",
+};
+
+/**
+ * Subscribes to the browser's tab, navigation and download events and passes
+ * them to the callback in their wire format, to be pushed to the servers.
+ * Events go through filterBrowserEvent first.
+ */
+export function watchBrowserEvents(callback: (event: BrowserEvent) => void): void {
+  // Filtering reads the config asynchronously, chain the events so that they
+  // still reach the callback in order
+  let queue = Promise.resolve();
+  const emit = (event: BrowserEvent) => {
+    queue = queue
+      .then(() => filterBrowserEvent(event))
+      .then((filtered) => {
+        if (filtered) {
+          callback(filtered);
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to filter browser event ${event.type}:`, error);
+      });
+  };
+
+  browser.tabs.onCreated.addListener((tab) => {
+    emit({ type: "tab-created", tab: toBrowserTab(tab) });
+  });
+
+  browser.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+    // Only forward the changes that are visible in the server's tab model
+    const loadComplete = changeInfo.status === "complete";
+    if (!loadComplete && changeInfo.url === undefined && changeInfo.title === undefined) {
+      return;
+    }
+    emit({ type: "tab-updated", tab: toBrowserTab(tab), loadComplete });
+  });
+
+  browser.tabs.onRemoved.addListener((tabId, removeInfo) => {
+    emit({ type: "tab-removed", tabId, windowId: removeInfo.windowId });
+  });
+
+  browser.tabs.onActivated.addListener(({ tabId, windowId }) => {
+    emit({ type: "tab-activated", tabId, windowId });
+  });
+
+  browser.webNavigation.onCompleted.addListener((details) => {
+    // Navigations in sub-frames don't change the page shown by the tab
+    if (details.frameId !== 0) {
+      return;
+    }
+    emit({ type: "navigation-completed", tabId: details.tabId, url: details.url });
+  });
+
+  browser.downloads.onCreated.addListener((item) => {
+    emit({ type: "download-changed", download: toBrowserDownload(item) });
+  });
+
+  browser.downloads.onChanged.addListener(async (delta) => {
+    // The delta only holds the changed fields, send the whole download instead
+    try {
+      const [item] = await browser.downloads.search({ id: delta.id });
+      if (item) {
+        emit({ type: "download-changed", download: toBrowserDownload(item) });
+      }
+    } catch (error) {
+      console.error(`Failed to look up download ${delta.id}:`, error);
+    }
+  });
+}
+
+/**
+ * Applies the tool settings and the deny list to an event: returns null when
+ * the event must not be pushed, or the event to push, without the content of
+ * denied pages.
+ */
+export async function filterBrowserEvent(event: BrowserEvent): Promise<BrowserEvent | null> {
+  if (!(await isToolEnabled(EVENT_TOOL_IDS[event.type]))) {
+    return null;
+  }
+  switch (event.type) {
+    case "tab-created":
+    case "tab-updated":
+      // The server still tracks the tab, but not what it shows
+      if (event.tab.url && (await isDomainInDenyList(event.tab.url, event.tab.cookieStoreId))) {
+        return { ...event, tab: { ...event.tab, url: undefined, title: undefined, favIconUrl: undefined } };
+      }
+      return event;
+    case "navigation-completed": {
+      // The event has no container, look it up on the tab
+      const tab = await browser.tabs.get(event.tabId).catch(() => undefined);
+      return (await isDomainInDenyList(event.url, tab?.cookieStoreId)) ? null : event;
+    }
+    case "download-changed":
+      return (await isDomainInDenyList(event.download.url)) ? null : event;
+    default:
+      return event;
+  }
+}
+
+export function toBrowserTab(tab: browser.tabs.Tab): BrowserTab {
+  return {
+    id: tab.id,
+    url: tab.url,
+    title: tab.title,
+    lastAccessed: tab.lastAccessed,
+    windowId: tab.windowId,
+    index: tab.index,
+    cookieStoreId: tab.cookieStoreId,
+    active: tab.active,
+    status: tab.status,
+    pinned: tab.pinned,
+    audible: tab.audible,
+    mutedInfo: tab.mutedInfo && { muted: tab.mutedInfo.muted, reason: tab.mutedInfo.reason },
+    discarded: tab.discarded,
+    incognito: tab.incognito,
+    favIconUrl: tab.favIconUrl,
+  };
+}
+
+function toBrowserDownload(item: browser.downloads.DownloadItem): BrowserDownload {
+  return {
+    id: item.id,
+    url: item.url,
+    filename: item.filename,
+    state: item.state,
+    bytesReceived: item.bytesReceived,
+    totalBytes: item.totalBytes,
+    error: item.error,
+  };
+}
@@ -0,0 +1,22 @@
+// Builds the Chromium (Chrome, Edge...) target in dist-chromium/, which holds
+// everything the browser loads: unlike Firefox, Chromium requires the
+// extension files to be under the manifest's directory.
+const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
+
+const outDir = path.join(__dirname, "dist-chromium");
+
+fs.rmSync(outDir, { recursive: true, force: true });
+esbuild.buildSync({
+  entryPoints: ["background.ts", "options.ts", "content-script.ts"].map((file) =>
+    path.join(__dirname, file)
+  ),
+  bundle: true,
+  outdir: path.join(outDir, "dist"),
+  // Stands in for the `browser` global of Firefox
+  inject: [path.join(__dirname, "chromium-browser.ts")],
+});
+fs.copyFileSync(path.join(__dirname, "manifest.chromium.json"), path.join(outDir, "manifest.json"));
+fs.copyFileSync(path.join(__dirname, "options.html"), path.join(outDir, "options.html"));
+fs.cpSync(path.join(__dirname, "assets"), path.join(outDir, "assets"), { recursive: true });
@@ -0,0 +1,5 @@
+import { createBrowserCompat } from "./chromium-compat";
+
+// Injected into the Chromium bundles by build-chromium.js, where it replaces
+// the `browser` global of Firefox
+export const browser = createBrowserCompat(chrome);
@@ -0,0 +1,209 @@
+type MessageListener = (
+  message: unknown,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: unknown) => void
+) => unknown;
+
+/**
+ * Builds the part of the Firefox `browser` API used by the extension on top of
+ * the `chrome` API of Chromium browsers (Chrome, Edge...). The namespaces that
+ * behave the same in both are passed through, the others are adapted:
+ * - tabs.discard() discards the tabs one by one
+ * - find, which Chromium lacks, is replaced by a DOM-based highlighter
+ * - runtime.onMessage listeners may return a promise of the response
+ * - runtime.getBrowserInfo() is derived from the user agent
+ */
+export function createBrowserCompat(api: typeof chrome): typeof browser {
+  // Last search in each tab, highlighted by find.highlightResults()
+  const searches = new Map<number, { queryPhrase: string; caseSensitive: boolean }>();
+
+  const compat = {
+    tabs: {
+      ...forward(() => api.tabs, [
+        "create",
+        "get",
+        "query",
+        "remove",
+        "move",
+        "update",
+        "goBack",
+        "goForward",
+        "reload",
+        "duplicate",
+        "captureVisibleTab",
+        "sendMessage",
+      ]),
+      // Chromium discards a single tab per call
+      async discard(tabIds: number | number[]) {
+        await Promise.all((Array.isArray(tabIds) ? tabIds : [tabIds]).map((tabId) => api.tabs.discard(tabId)));
+      },
+      get onCreated() { return api.tabs.onCreated; },
+      get onUpdated() { return api.tabs.onUpdated; },
+      get onRemoved() { return api.tabs.onRemoved; },
+      get onActivated() { return api.tabs.onActivated; },
+    },
+    find: {
+      async find(queryPhrase: string, options: { tabId?: number; caseSensitive?: boolean } = {}) {
+        const tabId = options.tabId ?? (await getActiveTabId(api));
+        const caseSensitive = options.caseSensitive ?? false;
+        const [injection] = await api.scripting.executeScript({
+          target: { tabId },
+          func: findInPage,
+          args: [queryPhrase, caseSensitive, false],
+        });
+        searches.set(tabId, { queryPhrase, caseSensitive });
+        return { count: (injection?.result as number | undefined) ?? 0 };
+      },
+      async highlightResults(options: { tabId?: number } = {}) {
+        const tabId = options.tabId ?? (await getActiveTabId(api));
+        const search = searches.get(tabId);
+        if (!search) {
+          return;
+        }
+        await api.scripting.executeScript({
+          target: { tabId },
+          func: findInPage,
+          args: [search.queryPhrase, search.caseSensitive, true],
+        });
+      },
+    },
+    runtime: {
+      ...forward(() => api.runtime, [
+        "getManifest",
+        "openOptionsPage",
+        "sendMessage",
+        "connectNative",
+      ]),
+      get id() { return api.runtime.id; },
+      onMessage: {
+        // Chromium ignores the promises returned by the listeners, so their
+        // response is passed to sendResponse() instead
+        addListener(listener: MessageListener) {
+          api.runtime.onMessage.addListener((message, sender, sendResponse) => {
+            const response = listener(message, sender, sendResponse);
+            if (response instanceof Promise) {
+              response.then(sendResponse, (error) => {
+                console.error("Error handling runtime message:", error);
+                sendResponse(undefined);
+              });
+              return true;
+            }
+            return response;
+          });
+        },
+      },
+      async getBrowserInfo() {
+        return getBrowserInfo(navigator);
+      },
+    },
+    get scripting() { return api.scripting; },
+    get history() { return api.history; },
+    get bookmarks() { return api.bookmarks; },
+    get storage() { return api.storage; },
+    get windows() { return api.windows; },
+    get downloads() { return api.downloads; },
+    get webNavigation() { return api.webNavigation; },
+  };
+  return compat as unknown as typeof browser;
+}
+
+// Forwards methods to a chrome API namespace, looked up on every call
+function forward<T extends object>(getNamespace: () => T, methods: (keyof T & string)[]) {
+  const forwarded: Record<string, (...args: unknown[]) => unknown> = {};
+  for (const method of methods) {
+    forwarded[method] = (...args) => {
+      const namespace = getNamespace();
+      return (namespace[method] as (...args: unknown[]) => unknown).apply(namespace, args);
+    };
+  }
+  return forwarded;
+}
+
+async function getActiveTabId(api: typeof chrome): Promise<number> {
+  const [tab] = await api.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id === undefined) {
+    throw new Error("No active tab");
+  }
+  return tab.id;
+}
+
+// The user agent client hints, not in the DOM types yet
+interface NavigatorUAData {
+  brands: { brand: string; version: string }[];
+}
+
+/**
+ * Name and version of the browser, from the brands of the user agent client
+ * hints when available (e.g. "Microsoft Edge") or else from the user agent
+ */
+export function getBrowserInfo(nav: Navigator): browser.runtime.BrowserInfo {
+  const brands = (nav as Navigator & { userAgentData?: NavigatorUAData }).userAgentData?.brands ?? [];
+  // Skip the "Chromium" engine and the made up brands such as "Not A(Brand"
+  const brand =
+    brands.find(({ brand }) => brand !== "Chromium" && !/not.a.brand/i.test(brand)) ??
+    brands.find(({ brand }) => brand === "Chromium");
+  return {
+    name: brand?.brand ?? "Chromium",
+    vendor: "",
+    version: brand?.version ?? /Chrome\/([\d.]+)/.exec(nav.userAgent)?.[1] ?? "",
+    buildID: "",
+  };
+}
+
+/**
+ * Runs in the page: counts the occurrences of the query in its text and, when
+ * highlight is set, wraps them in <mark> elements and scrolls to the first.
+ * The highlights of the previous search are removed first.
+ */
+export function findInPage(queryPhrase: string, caseSensitive: boolean, highlight: boolean): number {
+  // Injected functions are serialized, so they can't use module constants
+  const highlightAttribute = "data-browser-control-highlight";
+  for (const mark of Array.from(document.querySelectorAll(`mark[${highlightAttribute}]`))) {
+    const parent = mark.parentNode;
+    if (parent) {
+      parent.replaceChild(document.createTextNode(mark.textContent ?? ""), mark);
+      parent.normalize();
+    }
+  }
+  if (!queryPhrase || !document.body) {
+    return 0;
+  }
+
+  const needle = caseSensitive ? queryPhrase : queryPhrase.toLowerCase();
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement && !["SCRIPT", "STYLE", "NOSCRIPT", "TEXTAREA"].includes(node.parentElement.tagName)
+        ? NodeFilter.FILTER_ACCEPT
+        : NodeFilter.FILTER_REJECT,
+  });
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  let count = 0;
+  for (const textNode of textNodes) {
+    const text = caseSensitive ? textNode.data : textNode.data.toLowerCase();
+    const offsets: number[] = [];
+    for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + needle.length)) {
+      offsets.push(index);
+    }
+    count += offsets.length;
+    if (!highlight) {
+      continue;
+    }
+    // Wrap the last match first, so that the offsets of the others still hold
+    for (const offset of offsets.reverse()) {
+      const match = textNode.splitText(offset);
+      match.splitText(needle.length);
+      const mark = document.createElement("mark");
+      mark.setAttribute(highlightAttribute, "");
+      match.replaceWith(mark);
+      mark.appendChild(match);
+    }
+  }
+  if (highlight) {
+    document.querySelector(`mark[${highlightAttribute}]`)?.scrollIntoView({ block: "center" });
+  }
+  return count;
+}
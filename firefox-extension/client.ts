@@ -1,19 +1,22 @@
-import type {
-  ExtensionMessage,
-  ExtensionError,
-  ServerMessageRequest,
-} from "@browser-control-mcp/common";
-import { getMessageSignature } from "./auth";
-
-export class WebsocketClient {
+import {
+  EnvelopeError,
+  ReplayGuard,
+  signEnvelope,
+  verifyEnvelope,
+} from "./auth";
+import { ExtensionPayload, ServerTransport } from "./transport";
+
+export class WebsocketClient extends ServerTransport {
   private socket: WebSocket | null = null;
   private readonly port: number;
   private readonly secret: string;
   private reconnectInterval: number = 2000; // 2 seconds
   private reconnectTimer: number | null = null;
-  private messageCallback: ((data: ServerMessageRequest) => void) | null = null;
+  private lastConnectedAt: number = Date.now();
+  private readonly replayGuard: ReplayGuard = new ReplayGuard();
 
   constructor(port: number, secret: string) {
+    super();
     this.port = port;
     this.secret = secret;
   }
@@ -23,12 +26,19 @@ export class WebsocketClient {
 
     this.socket = new WebSocket(`ws://localhost:${this.port}`);
 
-    this.socket.addEventListener("open", () => {
+    this.socket.addEventListener("open", async () => {
       console.log("Connected to WebSocket server at port", this.port);
+      this.lastConnectedAt = Date.now();
+      try {
+        await this.sendHelloToServer();
+      } catch (error) {
+        console.error("Failed to send hello to server:", error);
+      }
     });
 
     this.socket.addEventListener("close", () => {
       this.socket = null;
+      this.lastConnectedAt = Date.now();
     });
 
     this.socket.addEventListener("error", (event) => {
@@ -37,24 +47,24 @@ export class WebsocketClient {
     });
 
     this.socket.addEventListener("message", async (event) => {
-      if (this.messageCallback === null) {
-        return;
-      }
       try {
         const signedMessage = JSON.parse(event.data);
-        const messageSig = await getMessageSignature(
-          JSON.stringify(signedMessage.payload),
-          this.secret
-        );
-        if (messageSig.length === 0 || messageSig !== signedMessage.signature) {
-          console.error("Invalid message signature");
-          await this.sendErrorToServer(
-            signedMessage.payload.correlationId,
-            "Invalid message signature - extension and server not in sync"
-          );
+        try {
+          await verifyEnvelope(signedMessage, this.secret, this.replayGuard);
+        } catch (error) {
+          if (!(error instanceof EnvelopeError)) {
+            throw error;
+          }
+          console.error(`Rejected server frame (${error.reason}): ${error.message}`);
+          if (error.reason === "invalid-signature") {
+            await this.sendErrorToServer(
+              signedMessage.payload.correlationId,
+              "Invalid message signature - extension and server not in sync"
+            );
+          }
           return;
         }
-        this.messageCallback(signedMessage.payload);
+        this.handleServerPayload(signedMessage.payload);
       } catch (error) {
         console.error("Failed to parse message:", error);
       }
@@ -66,53 +76,39 @@ export class WebsocketClient {
     }
   }
 
-  public addMessageListener(
-    callback: (data: ServerMessageRequest) => void
-  ): void {
-    this.messageCallback = callback;
+  public getPort(): number {
+    return this.port;
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  // When the connection was last opened or closed (or the client created)
+  public getLastConnectedAt(): number {
+    return this.lastConnectedAt;
   }
 
   private startReconnectTimer(): void {
-    this.reconnectTimer = window.setInterval(() => {
+    this.reconnectTimer = self.setInterval(() => {
       if (!this.socket || this.socket.readyState === WebSocket.CLOSED) {
         this.connect();
       }
     }, this.reconnectInterval);
   }
 
-  public async sendResourceToServer(resource: ExtensionMessage): Promise<void> {
+  protected async sendPayload(payload: ExtensionPayload): Promise<void> {
     if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
       console.error("Socket is not open");
       return;
     }
-    const signedMessage = {
-      payload: resource,
-      signature: await getMessageSignature(
-        JSON.stringify(resource),
-        this.secret
-      ),
-    };
+    const signedMessage = await signEnvelope(payload, this.secret);
     this.socket.send(JSON.stringify(signedMessage));
   }
 
-  public async sendErrorToServer(
-    correlationId: string,
-    errorMessage: string
-  ): Promise<void> {
-    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-      console.error("Socket is not open");
-      return;
-    }
-    const extensionError: ExtensionError = {
-      correlationId,
-      errorMessage: errorMessage,
-    };
-    this.socket.send(JSON.stringify(extensionError));
-  }
-
   public disconnect(): void {
     if (this.reconnectTimer !== null) {
-      window.clearInterval(this.reconnectTimer);
+      self.clearInterval(this.reconnectTimer);
       this.reconnectTimer = null;
     }
 
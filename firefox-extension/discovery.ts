@@ -0,0 +1,197 @@
+import type {
+  BrowserEvent,
+  ServerHelloMessage,
+} from "@browser-control-mcp/common";
+import { MalformedMessageError, parseServerPayload } from "@browser-control-mcp/common";
+import { WebsocketClient } from "./client";
+import { serveCommands } from "./message-handler";
+import { ReplayGuard, verifyEnvelope } from "./auth";
+import { getPortRange } from "./extension-config";
+
+// How often the port range is probed for new MCP servers
+const PROBE_INTERVAL_MS = 5000;
+// How long to wait for the server hello after connecting to a port
+const PROBE_TIMEOUT_MS = 1000;
+// Clients that could not reconnect for this long are dropped, and their
+// port goes back to being probed
+const STALE_CLIENT_MS = 30000;
+
+export interface DiscoveredServer {
+  // Absent for the server reached through the native messaging host
+  port?: number;
+  serverId?: string;
+  startedAt?: number;
+  status: "connected" | "disconnected";
+}
+
+// Message sent by the options page to the background script to list the servers
+export interface GetDiscoveredServersRequest {
+  type: "get-discovered-servers";
+}
+
+/**
+ * Discovers the MCP servers listening on the configured port range and keeps
+ * a WebsocketClient + MessageHandler pair for each of them.
+ */
+export class ServerDiscovery {
+  private readonly secret: string;
+  private clients: Map<number, WebsocketClient> = new Map();
+  private probeTimer: number | null = null;
+  private isProbing: boolean = false;
+  private readonly replayGuard: ReplayGuard = new ReplayGuard();
+
+  constructor(secret: string) {
+    this.secret = secret;
+  }
+
+  public start(): void {
+    this.probePortRange();
+    if (this.probeTimer === null) {
+      this.probeTimer = self.setInterval(
+        () => this.probePortRange(),
+        PROBE_INTERVAL_MS
+      );
+    }
+  }
+
+  public stop(): void {
+    if (this.probeTimer !== null) {
+      self.clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+    for (const client of this.clients.values()) {
+      client.disconnect();
+    }
+    this.clients.clear();
+  }
+
+  public getServers(): DiscoveredServer[] {
+    return Array.from(this.clients.values())
+      .map((client) => {
+        const hello = client.getServerHello();
+        return {
+          port: client.getPort(),
+          serverId: hello?.serverId,
+          startedAt: hello?.startedAt,
+          status: client.isConnected()
+            ? ("connected" as const)
+            : ("disconnected" as const),
+        };
+      })
+      .sort((a, b) => a.port - b.port);
+  }
+
+  // Pushes a browser event to every connected server
+  public broadcastEvent(event: BrowserEvent): void {
+    for (const client of this.clients.values()) {
+      if (!client.isConnected()) {
+        continue;
+      }
+      client.sendEventToServer(event).catch((error) => {
+        console.error(`Failed to send browser event to port ${client.getPort()}:`, error);
+      });
+    }
+  }
+
+  private async probePortRange(): Promise<void> {
+    // Skip this round if the previous one is still running
+    if (this.isProbing) {
+      return;
+    }
+    this.isProbing = true;
+    try {
+      this.dropStaleClients();
+      const { start, end } = await getPortRange();
+      const ports: number[] = [];
+      for (let port = start; port <= end; port++) {
+        if (!this.clients.has(port)) {
+          ports.push(port);
+        }
+      }
+      await Promise.all(
+        ports.map(async (port) => {
+          const hello = await this.probePort(port);
+          if (hello && !this.clients.has(port)) {
+            console.log(`Discovered MCP server ${hello.serverId} on port ${port}`);
+            this.initClient(port);
+          }
+        })
+      );
+    } catch (error) {
+      console.error("Error probing for MCP servers:", error);
+    } finally {
+      this.isProbing = false;
+    }
+  }
+
+  private dropStaleClients(): void {
+    const now = Date.now();
+    for (const [port, client] of this.clients.entries()) {
+      if (
+        !client.isConnected() &&
+        now - client.getLastConnectedAt() > STALE_CLIENT_MS
+      ) {
+        console.log(`MCP server on port ${port} is gone, dropping client`);
+        client.disconnect();
+        this.clients.delete(port);
+      }
+    }
+  }
+
+  // Connects to the port and waits for a correctly signed server hello
+  private probePort(port: number): Promise<ServerHelloMessage | null> {
+    return new Promise((resolve) => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(`ws://localhost:${port}`);
+      } catch (error) {
+        resolve(null);
+        return;
+      }
+
+      let settled = false;
+      const settle = (hello: ServerHelloMessage | null) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        socket.close();
+        resolve(hello);
+      };
+      const timeout = setTimeout(() => settle(null), PROBE_TIMEOUT_MS);
+
+      socket.addEventListener("error", () => settle(null));
+      socket.addEventListener("close", () => settle(null));
+      socket.addEventListener("message", async (event) => {
+        try {
+          const { payload } = await verifyEnvelope(
+            JSON.parse(event.data),
+            this.secret,
+            this.replayGuard
+          );
+          const serverPayload = parseServerPayload(payload);
+          if (serverPayload.cmd === "server-hello") {
+            settle(serverPayload);
+            return;
+          }
+          console.error(`Unexpected probe response on port ${port}`);
+        } catch (error) {
+          if (error instanceof MalformedMessageError) {
+            console.error(`Ignoring port ${port}, rejected server hello: ${error.message}`);
+          } else {
+            console.error(`Failed to parse probe response on port ${port}:`, error);
+          }
+        }
+        settle(null);
+      });
+    });
+  }
+
+  private initClient(port: number): void {
+    const wsClient = new WebsocketClient(port, this.secret);
+    serveCommands(wsClient);
+    wsClient.connect();
+    this.clients.set(port, wsClient);
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Configuration management for Browser Control MCP extension
  */
+import type { ExtensionHelloMessage } from "@browser-control-mcp/common";
 
 // Define all available tools with their IDs and descriptions
 export interface ToolInfo {
@@ -30,6 +31,11 @@ export const AVAILABLE_TOOLS: ToolInfo[] = [
     name: "Get Recent Browser History",
     description: "Allows the MCP server to access your recent browsing history"
   },
+  {
+    id: "watch-browser-downloads",
+    name: "Watch Browser Downloads",
+    description: "Allows the MCP server to follow your downloads and their progress"
+  },
   {
     id: "get-tab-web-content",
     name: "Get Tab Web Content",
@@ -40,6 +46,106 @@ export const AVAILABLE_TOOLS: ToolInfo[] = [
     name: "Reorder Browser Tabs",
     description: "Allows the MCP server to change the order of your browser tabs"
   },
+  {
+    id: "update-browser-tab",
+    name: "Update Browser Tab",
+    description: "Allows the MCP server to activate, pin and mute tabs"
+  },
+  {
+    id: "discard-browser-tabs",
+    name: "Discard Browser Tabs",
+    description: "Allows the MCP server to unload tabs from memory"
+  },
+  {
+    id: "duplicate-browser-tab",
+    name: "Duplicate Browser Tab",
+    description: "Allows the MCP server to duplicate tabs"
+  },
+  {
+    id: "list-browser-containers",
+    name: "List Browser Containers",
+    description: "Allows the MCP server to list your Firefox containers"
+  },
+  {
+    id: "list-browser-windows",
+    name: "List Browser Windows",
+    description: "Allows the MCP server to list your browser windows"
+  },
+  {
+    id: "create-browser-window",
+    name: "Create Browser Window",
+    description: "Allows the MCP server to open new browser windows"
+  },
+  {
+    id: "restore-tab-session",
+    name: "Restore Tab Session",
+    description: "Allows the MCP server to reopen a saved session of tabs in a new window"
+  },
+  {
+    id: "focus-browser-window",
+    name: "Focus Browser Window",
+    description: "Allows the MCP server to bring a browser window to the front"
+  },
+  {
+    id: "minimize-browser-window",
+    name: "Minimize Browser Window",
+    description: "Allows the MCP server to minimize browser windows"
+  },
+  {
+    id: "close-browser-window",
+    name: "Close Browser Window",
+    description: "Allows the MCP server to close browser windows and all their tabs"
+  },
+  {
+    id: "move-browser-tabs",
+    name: "Move Browser Tabs",
+    description: "Allows the MCP server to move tabs between browser windows"
+  },
+  {
+    id: "navigate-browser-tab",
+    name: "Navigate Browser Tab",
+    description: "Allows the MCP server to load another URL in an open tab"
+  },
+  {
+    id: "go-back-in-browser-tab",
+    name: "Go Back in Browser Tab",
+    description: "Allows the MCP server to go back in the history of a tab"
+  },
+  {
+    id: "go-forward-in-browser-tab",
+    name: "Go Forward in Browser Tab",
+    description: "Allows the MCP server to go forward in the history of a tab"
+  },
+  {
+    id: "reload-browser-tab",
+    name: "Reload Browser Tab",
+    description: "Allows the MCP server to reload tabs"
+  },
+  {
+    id: "search-browser-bookmarks",
+    name: "Search Browser Bookmarks",
+    description: "Allows the MCP server to search your bookmarks"
+  },
+  {
+    id: "list-browser-bookmark-tree",
+    name: "List Browser Bookmark Tree",
+    description: "Allows the MCP server to list your bookmark folders and their bookmarks"
+  },
+  {
+    id: "create-browser-bookmark",
+    name: "Create Browser Bookmark",
+    description: "Allows the MCP server to add bookmarks"
+  },
+  {
+    id: "create-browser-bookmark-folder",
+    name: "Create Browser Bookmark Folder",
+    description: "Allows the MCP server to add bookmark folders"
+  },
+  {
+    id: "remove-browser-bookmarks",
+    name: "Remove Browser Bookmarks",
+    description: "Allows the MCP server to remove the bookmarks and folders it created"
+  },
   {
     id: "find-highlight-in-browser-tab",
     name: "Find and Highlight in Browser Tab",
@@ -70,6 +176,26 @@ export const COMMAND_TO_TOOL_ID: Record<string, string> = {
   "get-browser-recent-history": "get-recent-browser-history",
   "get-tab-content": "get-tab-web-content",
   "reorder-tabs": "reorder-browser-tabs",
+  "update-tab": "update-browser-tab",
+  "discard-tabs": "discard-browser-tabs",
+  "duplicate-tab": "duplicate-browser-tab",
+  "get-container-list": "list-browser-containers",
+  "get-window-list": "list-browser-windows",
+  "create-window": "create-browser-window",
+  "restore-session": "restore-tab-session",
+  "focus-window": "focus-browser-window",
+  "minimize-window": "minimize-browser-window",
+  "close-window": "close-browser-window",
+  "move-tabs": "move-browser-tabs",
+  "navigate-tab": "navigate-browser-tab",
+  "go-back": "go-back-in-browser-tab",
+  "go-forward": "go-forward-in-browser-tab",
+  "reload-tab": "reload-browser-tab",
+  "search-bookmarks": "search-browser-bookmarks",
+  "get-bookmark-tree": "list-browser-bookmark-tree",
+  "create-bookmark": "create-browser-bookmark",
+  "create-bookmark-folder": "create-browser-bookmark-folder",
+  "remove-bookmarks": "remove-browser-bookmarks",
   "find-highlight": "find-highlight-in-browser-tab",
   "take-screenshot": "take-screenshot",
   "click-at-coordinates": "click-at-coordinates",
@@ -97,14 +223,55 @@ export interface ScreenshotConfig {
   };
 }
 
+// URL schemes the MCP server may open. "about" only allows reader mode pages,
+// i.e. about:reader?url=... with a URL that the policy allows itself.
+export type UrlScheme = "https" | "http" | "file" | "about";
+
+// Which URLs the MCP server may open or navigate to, and which links of a
+// page it is given
+export interface UrlPolicy {
+  allowedSchemes: UrlScheme[];
+  // Hosts allowed over plain http, e.g. "localhost" or "*.test" for all the
+  // subdomains of test
+  httpHostAllowlist: string[];
+  // Directories under which file URLs are allowed, e.g. "/home/me/reports"
+  fileRoots: string[];
+}
+
+// Range of localhost ports probed to discover running MCP servers
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+// How the extension reaches the MCP server: WebSocket connections to the
+// servers found on the port range, or the native messaging host
+export type TransportType = "websocket" | "native";
+
 // Extended config interface
 export interface ExtensionConfig {
   secret: string;
   toolSettings?: ToolSettings;
   domainDenyList?: string[];
+  // Domains denied in addition to domainDenyList, by container cookieStoreId
+  containerDomainDenyLists?: Record<string, string[]>;
+  urlPolicy?: UrlPolicy;
   screenshotConfig?: ScreenshotConfig;
+  browserId?: string;
+  profileLabel?: string;
+  portRange?: PortRange;
+  transport?: TransportType;
+  // Bookmarks and folders created through the MCP server, the only ones it
+  // may remove
+  agentBookmarkIds?: string[];
 }
 
+// Identity announced to the MCP server when connecting
+export type BrowserIdentity = Pick<
+  ExtensionHelloMessage,
+  "browserId" | "browserName" | "profileLabel"
+>;
+
 /**
  * Gets the default tool settings (all enabled)
  */
@@ -135,6 +302,25 @@ export function getDefaultScreenshotConfig(): ScreenshotConfig {
   };
 }
 
+/**
+ * Gets the default URL policy: https only, with the loopback hosts ready to
+ * be used once http is allowed
+ */
+export function getDefaultUrlPolicy(): UrlPolicy {
+  return {
+    allowedSchemes: ["https"],
+    httpHostAllowlist: ["localhost", "127.0.0.1", "[::1]"],
+    fileRoots: []
+  };
+}
+
+/**
+ * Gets the default port range, matching the ports used by the MCP server
+ */
+export function getDefaultPortRange(): PortRange {
+  return { start: 8081, end: 8090 };
+}
+
 /**
  * Gets the extension configuration from storage
  * @returns A Promise that resolves with the extension configuration
@@ -259,18 +445,48 @@ export async function setDomainDenyList(domains: string[]): Promise<void> {
 }
 
 /**
- * Checks if a domain is in the deny list
+ * Gets the domain deny lists of the containers
+ * @returns A Promise that resolves with the deny lists, by container cookieStoreId
+ */
+export async function getContainerDomainDenyLists(): Promise<Record<string, string[]>> {
+  const config = await getConfig();
+  return config.containerDomainDenyLists || {};
+}
+
+/**
+ * Sets the domain deny lists of the containers
+ * @param denyLists Arrays of domains to deny, by container cookieStoreId
+ * @returns A Promise that resolves when the setting is saved
+ */
+export async function setContainerDomainDenyLists(denyLists: Record<string, string[]>): Promise<void> {
+  const config = await getConfig();
+  config.containerDomainDenyLists = denyLists;
+  await saveConfig(config);
+}
+
+/**
+ * Checks if a domain is in the deny list, or in the one of the container
  * @param url The URL to check
+ * @param cookieStoreId The container of the tab showing the URL, if any
  * @returns A Promise that resolves with true if the domain is in the deny list, false otherwise
  */
-export async function isDomainInDenyList(url: string): Promise<boolean> {
+export async function isDomainInDenyList(url: string, cookieStoreId?: string): Promise<boolean> {
   try {
     // Extract the domain from the URL
     const urlObj = new URL(url);
+    // Reader mode pages are checked against the domain of the page they show
+    const readerUrl = getReaderUrl(urlObj);
+    if (readerUrl !== null) {
+      return isDomainInDenyList(readerUrl, cookieStoreId);
+    }
     const domain = urlObj.hostname;
     
-    // Get the deny list
-    const denyList = await getDomainDenyList();
+    // Get the deny list, including the one of the container
+    const config = await getConfig();
+    const denyList = [
+      ...(config.domainDenyList || []),
+      ...((cookieStoreId !== undefined && config.containerDomainDenyLists?.[cookieStoreId]) || []),
+    ];
     
     // Check if the domain is in the deny list
     return denyList.some(deniedDomain => 
@@ -284,6 +500,83 @@ export async function isDomainInDenyList(url: string): Promise<boolean> {
   }
 }
 
+/**
+ * Gets the URL policy
+ * @returns A Promise that resolves with the URL policy
+ */
+export async function getUrlPolicy(): Promise<UrlPolicy> {
+  const config = await getConfig();
+  return config.urlPolicy || getDefaultUrlPolicy();
+}
+
+/**
+ * Sets the URL policy
+ * @param urlPolicy The URL policy to save
+ * @returns A Promise that resolves when the setting is saved
+ */
+export async function setUrlPolicy(urlPolicy: UrlPolicy): Promise<void> {
+  const config = await getConfig();
+  config.urlPolicy = urlPolicy;
+  await saveConfig(config);
+}
+
+// The URL of the page shown by a reader mode URL, about:reader?url=...
+function getReaderUrl(urlObj: URL): string | null {
+  return urlObj.protocol === "about:" && urlObj.pathname === "reader" ? urlObj.searchParams.get("url") : null;
+}
+
+/**
+ * Checks if a URL is allowed by the URL policy
+ * @param url The URL to check
+ * @param policy The URL policy
+ * @returns true if the URL is allowed, false otherwise, including when it can't be parsed
+ */
+export function isUrlAllowedByPolicy(url: string, policy: UrlPolicy): boolean {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const scheme = urlObj.protocol.slice(0, -1);
+  if (!policy.allowedSchemes.includes(scheme as UrlScheme)) {
+    return false;
+  }
+  switch (scheme) {
+    case "https":
+      return true;
+    case "http": {
+      const host = urlObj.hostname.toLowerCase();
+      return policy.httpHostAllowlist.some(allowedHost => {
+        allowedHost = allowedHost.toLowerCase();
+        return allowedHost.startsWith("*.")
+          ? host.endsWith(allowedHost.substring(1))
+          : host === allowedHost;
+      });
+    }
+    case "file": {
+      // Both paths as normalized by the URL parser, which resolves the ".."
+      // segments and percent-encodes the same characters
+      return policy.fileRoots.some(root => {
+        root = root.replace(/\\/g, "/");
+        // Windows paths, such as C:/Users, are /C:/Users in file URLs
+        let rootPath = new URL(`file://${root.startsWith("/") ? "" : "/"}${root}`).pathname;
+        if (!rootPath.endsWith("/")) {
+          rootPath = `${rootPath}/`;
+        }
+        return urlObj.pathname.startsWith(rootPath) || `${urlObj.pathname}/` === rootPath;
+      });
+    }
+    case "about": {
+      const readerUrl = getReaderUrl(urlObj);
+      return readerUrl !== null && !readerUrl.startsWith("about:") && isUrlAllowedByPolicy(readerUrl, policy);
+    }
+    default:
+      return false;
+  }
+}
+
 /**
  * Gets the screenshot configuration
  * @returns A Promise that resolves with the screenshot configuration
@@ -303,3 +596,123 @@ export async function setScreenshotConfig(screenshotConfig: ScreenshotConfig): P
   config.screenshotConfig = screenshotConfig;
   await saveConfig(config);
 }
+
+// Shared by the connections opened while the browser ID is generated, so that
+// they all announce the same one
+let browserIdPromise: Promise<string> | null = null;
+
+function getBrowserId(): Promise<string> {
+  if (!browserIdPromise) {
+    browserIdPromise = (async () => {
+      const config = await getConfig();
+      if (!config.browserId) {
+        config.browserId = crypto.randomUUID();
+        await saveConfig(config);
+      }
+      return config.browserId;
+    })();
+    // Tried again on the next call if the config couldn't be read or saved
+    browserIdPromise.catch(() => {
+      browserIdPromise = null;
+    });
+  }
+  return browserIdPromise;
+}
+
+/**
+ * Gets the identity of this browser/profile, generating a stable browser ID
+ * on first use
+ * @returns A Promise that resolves with the browser identity
+ */
+export async function getBrowserIdentity(): Promise<BrowserIdentity> {
+  const browserId = await getBrowserId();
+  const config = await getConfig();
+  const browserInfo = await browser.runtime.getBrowserInfo();
+  return {
+    browserId,
+    browserName: `${browserInfo.name} ${browserInfo.version}`,
+    profileLabel: config.profileLabel || undefined,
+  };
+}
+
+/**
+ * Sets the profile label announced to the MCP server
+ * @param profileLabel A human readable label, e.g. "work" or "testing"
+ * @returns A Promise that resolves when the setting is saved
+ */
+export async function setProfileLabel(profileLabel: string): Promise<void> {
+  const config = await getConfig();
+  config.profileLabel = profileLabel;
+  await saveConfig(config);
+}
+
+/**
+ * Gets the range of ports probed for MCP servers
+ * @returns A Promise that resolves with the port range
+ */
+export async function getPortRange(): Promise<PortRange> {
+  const config = await getConfig();
+  return config.portRange || getDefaultPortRange();
+}
+
+/**
+ * Sets the range of ports probed for MCP servers
+ * @param portRange The port range to save
+ * @returns A Promise that resolves when the setting is saved
+ */
+export async function setPortRange(portRange: PortRange): Promise<void> {
+  const config = await getConfig();
+  config.portRange = portRange;
+  await saveConfig(config);
+}
+
+/**
+ * Gets the transport used to reach the MCP server
+ * @returns A Promise that resolves with the transport type
+ */
+export async function getTransportType(): Promise<TransportType> {
+  const config = await getConfig();
+  return config.transport || "websocket";
+}
+
+/**
+ * Sets the transport used to reach the MCP server
+ * @param transport The transport type to save
+ * @returns A Promise that resolves when the setting is saved
+ */
+export async function setTransportType(transport: TransportType): Promise<void> {
+  const config = await getConfig();
+  config.transport = transport;
+  await saveConfig(config);
+}
+
+/**
+ * Gets the IDs of the bookmarks and folders created through the MCP server
+ * @returns A Promise that resolves with the bookmark IDs
+ */
+export async function getAgentBookmarkIds(): Promise<string[]> {
+  const config = await getConfig();
+  return config.agentBookmarkIds || [];
+}
+
+/**
+ * Records bookmarks and folders created through the MCP server
+ * @param bookmarkIds The IDs of the created bookmarks
+ * @returns A Promise that resolves when the IDs are saved
+ */
+export async function addAgentBookmarkIds(bookmarkIds: string[]): Promise<void> {
+  const config = await getConfig();
+  config.agentBookmarkIds = [...new Set([...(config.agentBookmarkIds || []), ...bookmarkIds])];
+  await saveConfig(config);
+}
+
+/**
+ * Forgets bookmarks and folders created through the MCP server, once removed
+ * @param bookmarkIds The IDs of the removed bookmarks
+ * @returns A Promise that resolves when the IDs are saved
+ */
+export async function removeAgentBookmarkIds(bookmarkIds: string[]): Promise<void> {
+  const config = await getConfig();
+  config.agentBookmarkIds = (config.agentBookmarkIds || []).filter((id) => !bookmarkIds.includes(id));
+  await saveConfig(config);
+}
@@ -1,15 +1,33 @@
 /** @type {import('ts-jest').JestConfigWithTsJest} */
-module.exports = {
+const baseConfig = {
   preset: 'ts-jest',
   testEnvironment: 'jsdom',
-  setupFilesAfterEnv: ['<rootDir>/__tests__/setup.ts'],
   moduleNameMapper: {
-    '^@browser-control-mcp/common$': '<rootDir>/../common'
+    '^@browser-control-mcp/common$': '<rootDir>/../common/index.ts'
   },
   transform: {
     '^.+\\.tsx?$': ['ts-jest', {
       tsconfig: 'tsconfig.json',
     }],
   },
-  testMatch: ['**/__tests__/**/*.test.ts'],
+};
+
+// The suite runs against both build targets: Firefox's `browser` API, and the
+// compatibility layer of the Chromium build on top of `chrome`
+module.exports = {
+  projects: [
+    {
+      ...baseConfig,
+      displayName: 'firefox',
+      setupFilesAfterEnv: ['<rootDir>/__tests__/setup.ts'],
+      testMatch: ['**/__tests__/**/*.test.ts'],
+      testPathIgnorePatterns: ['/node_modules/', '/__tests__/chromium-'],
+    },
+    {
+      ...baseConfig,
+      displayName: 'chromium',
+      setupFilesAfterEnv: ['<rootDir>/__tests__/setup.ts', '<rootDir>/__tests__/setup-chromium.ts'],
+      testMatch: ['**/__tests__/**/*.test.ts'],
+    },
+  ],
 };
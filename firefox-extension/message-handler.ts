@@ -1,39 +1,522 @@
-import type { ServerMessageRequest } from "@browser-control-mcp/common";
-import { WebsocketClient } from "./client";
-import { isCommandAllowed, isDomainInDenyList, getScreenshotConfig } from "./extension-config";
+import type {
+  BrowserBookmark,
+  BrowserContainer,
+  BrowserWindow,
+  ErrorCode,
+  ServerMessage,
+  ServerMessageRequest,
+  SessionTab,
+  TabQuery,
+  TypeResultExtensionMessage,
+} from "@browser-control-mcp/common";
+import type { ServerTransport } from "./transport";
+import { toBrowserTab } from "./browser-events";
+import {
+  isCommandAllowed,
+  isDomainInDenyList,
+  getScreenshotConfig,
+  getUrlPolicy,
+  isUrlAllowedByPolicy,
+  getAgentBookmarkIds,
+  addAgentBookmarkIds,
+  removeAgentBookmarkIds,
+} from "./extension-config";
+
+// Commands handled by handleDecodedMessage, announced to the server on connect.
+// Typed as a record so that a new ServerMessage must be listed here to compile.
+const HANDLED_COMMANDS: Record<ServerMessage["cmd"], true> = {
+  "open-tab": true,
+  "close-tabs": true,
+  "get-tab-list": true,
+  "get-browser-recent-history": true,
+  "get-tab-content": true,
+  "reorder-tabs": true,
+  "update-tab": true,
+  "discard-tabs": true,
+  "duplicate-tab": true,
+  "get-container-list": true,
+  "get-window-list": true,
+  "create-window": true,
+  "restore-session": true,
+  "focus-window": true,
+  "minimize-window": true,
+  "close-window": true,
+  "move-tabs": true,
+  "navigate-tab": true,
+  "go-back": true,
+  "go-forward": true,
+  "reload-tab": true,
+  "search-bookmarks": true,
+  "get-bookmark-tree": true,
+  "create-bookmark": true,
+  "create-bookmark-folder": true,
+  "remove-bookmarks": true,
+  "find-highlight": true,
+  "take-screenshot": true,
+  "scroll-to-position": true,
+  "scroll-by-offset": true,
+  "scroll-to-element": true,
+  "click-at-coordinates": true,
+  "click-element": true,
+  "hover-element": true,
+  "type-text": true,
+  "send-special-keys": true,
+  "clear-input-field": true,
+  "wait-for-time": true,
+  "wait-for-element": true,
+  "wait-for-element-visibility": true,
+  "wait-for-condition": true,
+};
+
+export const SUPPORTED_COMMANDS = Object.keys(HANDLED_COMMANDS) as ServerMessage["cmd"][];
+
+// Thrown when the server cancels a request while it is being handled. The
+// server has stopped waiting for it, so no response or error is sent back.
+export class CancelledError extends Error {
+  constructor(correlationId: string) {
+    super(`Request ${correlationId} was cancelled`);
+    this.name = "CancelledError";
+  }
+}
+
+// Error carrying the code sent to the server along with the message, so that
+// it can tell retryable conditions from policy denials
+export class CommandError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "CommandError";
+    this.code = code;
+  }
+}
+
+async function getTab(tabId: number): Promise<browser.tabs.Tab> {
+  try {
+    return await browser.tabs.get(tabId);
+  } catch (error) {
+    throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found`);
+  }
+}
+
+// Matches whole strings, case-insensitively, "*" standing for any characters
+// and "?" for a single one
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function matchesTabQuery(tab: browser.tabs.Tab, query: TabQuery, urlRegExp: RegExp | undefined): boolean {
+  const lastAccessed = tab.lastAccessed ?? 0;
+  return (
+    (urlRegExp === undefined || urlRegExp.test(tab.url ?? "")) &&
+    (query.titleContains === undefined ||
+      (tab.title ?? "").toLowerCase().includes(query.titleContains.toLowerCase())) &&
+    (query.windowId === undefined || tab.windowId === query.windowId) &&
+    (query.active === undefined || tab.active === query.active) &&
+    (query.pinned === undefined || tab.pinned === query.pinned) &&
+    (query.audible === undefined || !!tab.audible === query.audible) &&
+    (query.lastAccessedAfter === undefined || lastAccessed >= query.lastAccessedAfter) &&
+    (query.lastAccessedBefore === undefined || lastAccessed <= query.lastAccessedBefore)
+  );
+}
+
+// Ascending order of the tabs by the given field. The index is the order of
+// the browser: window by window, then by position in the window.
+function compareTabs(a: browser.tabs.Tab, b: browser.tabs.Tab, sortBy: NonNullable<TabQuery["sortBy"]>): number {
+  switch (sortBy) {
+    case "index":
+      return (a.windowId ?? 0) - (b.windowId ?? 0) || a.index - b.index;
+    case "lastAccessed":
+      return (a.lastAccessed ?? 0) - (b.lastAccessed ?? 0);
+    case "title":
+      return (a.title ?? "").localeCompare(b.title ?? "");
+    case "url":
+      return (a.url ?? "").localeCompare(b.url ?? "");
+  }
+}
+
+// Containers are a Firefox feature, which Chromium browsers lack
+function getContextualIdentities(): typeof browser.contextualIdentities {
+  if (!browser.contextualIdentities) {
+    throw new CommandError("UNSUPPORTED_COMMAND", "Containers are not supported by this browser");
+  }
+  return browser.contextualIdentities;
+}
+
+function toBrowserContainer(identity: browser.contextualIdentities.ContextualIdentity): BrowserContainer {
+  return {
+    cookieStoreId: identity.cookieStoreId,
+    name: identity.name,
+    color: identity.color,
+    icon: identity.icon,
+  };
+}
+
+// How navigateTab() takes the tab to another page
+type Navigation =
+  | { type: "url"; url: string }
+  | { type: "back" }
+  | { type: "forward" }
+  | { type: "reload"; bypassCache?: boolean };
+
+// Resolves with true once the main frame of the tab has loaded, or with false
+// after the timeout or when the signal is aborted. It listens from the call
+// on, so it is called before starting the navigation.
+function waitForPageLoad(tabId: number, timeout: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    const onCompleted = (details: { tabId: number; frameId: number }) => {
+      if (details.tabId === tabId && details.frameId === 0) {
+        finish(true);
+      }
+    };
+    const onAbort = () => finish(false);
+    const timer = setTimeout(() => finish(false), timeout);
+    const finish = (loaded: boolean) => {
+      clearTimeout(timer);
+      browser.webNavigation.onCompleted.removeListener(onCompleted);
+      signal.removeEventListener("abort", onAbort);
+      resolve(loaded);
+    };
+    browser.webNavigation.onCompleted.addListener(onCompleted);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// scripting.executeScript() as the browsers implement it: the types only let
+// func return nothing, and take no args
+type ExecuteFunction = <A extends unknown[], T>(injection: {
+  target: browser.scripting.InjectionTarget;
+  func: (...args: A) => T;
+  args?: A;
+}) => Promise<{ frameId: number; result?: Awaited<T> }[]>;
+
+// Runs the function in the top frame of the tab, in the extension's isolated
+// world, and resolves with its result. The function is serialized, so it can
+// only use its arguments, which must be JSON values.
+async function executeInPage<A extends unknown[], T>(
+  tabId: number,
+  func: (...args: A) => T,
+  ...args: A
+): Promise<Awaited<T>> {
+  const [injection] = await (browser.scripting.executeScript as ExecuteFunction)({
+    target: { tabId },
+    func,
+    args,
+  });
+  if (!injection) {
+    throw new Error(`No script result from tab ${tabId}`);
+  }
+  return injection.result as Awaited<T>;
+}
+
+// Flags set by the cancel script of type-text, by correlationId
+type CancelFlagWindow = Window & { __browserControlCancelled?: Record<string, boolean> };
+
+type PageElementInfo = NonNullable<TypeResultExtensionMessage["elementInfo"]>;
+
+// What the typing scripts resolve with
+type PageTypeResult = Pick<TypeResultExtensionMessage, "success" | "message" | "charactersTyped" | "elementInfo">;
+
+// What the scripts waiting for an element resolve with
+interface PageWaitResult {
+  success: boolean;
+  found: boolean;
+  waitTime: number;
+  elementInfo: PageElementInfo;
+  error?: string;
+}
+
+// Status code of the HTTP response of the page shown by the tab, undefined
+// when the page can't be scripted or wasn't loaded over HTTP
+async function getHttpStatus(tabId: number): Promise<number | undefined> {
+  try {
+    const [injection] = await (browser.scripting.executeScript as ExecuteFunction)({
+      target: { tabId },
+      func: () => {
+        const [entry] = performance.getEntriesByType("navigation") as (
+          | (PerformanceNavigationTiming & { responseStatus?: number })
+          | undefined
+        )[];
+        return entry?.responseStatus;
+      },
+    });
+    // Missing in older browsers, 0 when the browser doesn't expose it, e.g.
+    // for file: pages
+    return injection?.result || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Takes a tab off the page a history step led it to by stepping the other
+// way, or closes the tab when that fails
+async function leaveHistoryPage(tabId: number, step: "back" | "forward"): Promise<void> {
+  try {
+    await (step === "back" ? browser.tabs.goForward(tabId) : browser.tabs.goBack(tabId));
+  } catch (error) {
+    console.error(`Failed to leave the denied page of tab ${tabId}, closing it:`, error);
+    await browser.tabs.remove(tabId);
+  }
+}
+
+function toBrowserBookmark(
+  node: browser.bookmarks.BookmarkTreeNode,
+  agentBookmarkIds: Set<string>,
+  depth?: number
+): BrowserBookmark {
+  return {
+    id: node.id,
+    parentId: node.parentId,
+    title: node.title,
+    url: node.url,
+    // Chromium doesn't report the type, its folders have no URL
+    type: node.url === undefined ? "folder" : "bookmark",
+    dateAdded: node.dateAdded,
+    depth,
+    createdByAgent: agentBookmarkIds.has(node.id),
+  };
+}
+
+// Separators and the bookmarks in the deny list are not shown to the server
+async function isBookmarkHidden(node: browser.bookmarks.BookmarkTreeNode): Promise<boolean> {
+  if (node.type === "separator") {
+    return true;
+  }
+  return node.url !== undefined && (await isDomainInDenyList(node.url));
+}
+
+async function getBookmarkSubTree(bookmarkId: string): Promise<browser.bookmarks.BookmarkTreeNode> {
+  try {
+    const [node] = await browser.bookmarks.getSubTree(bookmarkId);
+    return node;
+  } catch (error) {
+    throw new CommandError("INVALID_ARGUMENT", `Bookmark ${bookmarkId} not found`);
+  }
+}
+
+function toBrowserWindow(window: browser.windows.Window): BrowserWindow {
+  return {
+    id: window.id,
+    type: window.type,
+    state: window.state,
+    focused: window.focused,
+    incognito: window.incognito,
+    left: window.left,
+    top: window.top,
+    width: window.width,
+    height: window.height,
+    tabCount: window.tabs?.length ?? 0,
+  };
+}
+
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof CommandError ? error.code : "INTERNAL";
+}
+
+// Error code of a result computed in the page, undefined if it succeeded
+function getResultErrorCode(result: {
+  success: boolean;
+  elementFound?: boolean;
+  elementInfo?: { exists: boolean };
+}): ErrorCode | undefined {
+  if (result.success) {
+    return undefined;
+  }
+  if (result.elementFound === false || result.elementInfo?.exists === false) {
+    return "ELEMENT_NOT_FOUND";
+  }
+  return "INTERNAL";
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined, correlationId: string): void {
+  if (signal?.aborted) {
+    throw new CancelledError(correlationId);
+  }
+}
+
+// Settles with the promise, or rejects with a CancelledError as soon as the
+// signal is aborted
+function raceCancellation<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  correlationId: string
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  throwIfCancelled(signal, correlationId);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError(correlationId));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+// Handles the commands received through the transport and sends back the
+// errors they fail with
+export function serveCommands(client: ServerTransport): MessageHandler {
+  const messageHandler = new MessageHandler(client);
+
+  client.addMessageListener(async (message) => {
+    console.log("Message from server:", message);
+
+    try {
+      await messageHandler.handleDecodedMessage(message);
+    } catch (error) {
+      console.error("Error handling message:", error);
+      if (error instanceof Error) {
+        await client.sendErrorToServer(
+          message.correlationId,
+          error.message,
+          getErrorCode(error)
+        );
+      }
+    }
+  });
+
+  client.addCancelListener((correlationId) => {
+    messageHandler.cancel(correlationId);
+  });
+
+  return messageHandler;
+}
 
 export class MessageHandler {
-  private client: WebsocketClient;
+  private client: ServerTransport;
+  // Abort controllers of the requests being handled, by correlationId
+  private abortControllers: Map<string, AbortController> = new Map();
 
-  constructor(client: WebsocketClient) {
+  constructor(client: ServerTransport) {
     this.client = client;
   }
 
   public async handleDecodedMessage(req: ServerMessageRequest): Promise<void> {
+    // The server stops waiting for the response after the deadline, so there
+    // is no point in starting the work
+    if (req.deadline !== undefined && Date.now() > req.deadline) {
+      throw new CommandError("TIMEOUT", `Deadline for command '${req.cmd}' expired before it could be handled`);
+    }
+
     const isAllowed = await isCommandAllowed(req.cmd);
     if (!isAllowed) {
-      throw new Error(`Command '${req.cmd}' is disabled in extension settings`);
+      throw new CommandError("TOOL_DISABLED", `Command '${req.cmd}' is disabled in extension settings`);
+    }
+
+    const abortController = new AbortController();
+    this.abortControllers.set(req.correlationId, abortController);
+    try {
+      await this.dispatchCommand(req, abortController.signal);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        console.log(`Command '${req.cmd}' was cancelled by the server`);
+        return;
+      }
+      throw error;
+    } finally {
+      this.abortControllers.delete(req.correlationId);
     }
+  }
+
+  // Aborts the request with the given correlationId if it is still being handled
+  public cancel(correlationId: string): void {
+    this.abortControllers.get(correlationId)?.abort();
+  }
 
+  private async dispatchCommand(
+    req: ServerMessageRequest,
+    signal: AbortSignal
+  ): Promise<void> {
     switch (req.cmd) {
       case "open-tab":
-        await this.openUrl(req.correlationId, req.url);
+        await this.openUrl(req.correlationId, req.url, req.cookieStoreId);
         break;
       case "close-tabs":
         await this.closeTabs(req.correlationId, req.tabIds);
         break;
       case "get-tab-list":
-        await this.sendTabs(req.correlationId);
+        await this.sendTabs(req.correlationId, req);
         break;
       case "get-browser-recent-history":
         await this.sendRecentHistory(req.correlationId, req.searchQuery);
         break;
       case "get-tab-content":
-        await this.sendTabsContent(req.correlationId, req.tabId, req.offset);
+        await this.sendTabsContent(req.correlationId, req.tabId, req.offset, req.maxLength);
         break;
       case "reorder-tabs":
         await this.reorderTabs(req.correlationId, req.tabOrder);
         break;
+      case "update-tab":
+        await this.updateTab(req.correlationId, req.tabId, req.active, req.pinned, req.muted);
+        break;
+      case "discard-tabs":
+        await this.discardTabs(req.correlationId, req.tabIds);
+        break;
+      case "duplicate-tab":
+        await this.duplicateTab(req.correlationId, req.tabId);
+        break;
+      case "get-container-list":
+        await this.sendContainers(req.correlationId);
+        break;
+      case "get-window-list":
+        await this.sendWindows(req.correlationId);
+        break;
+      case "create-window":
+        await this.createWindow(req.correlationId, req.type, req.url, req.width, req.height);
+        break;
+      case "restore-session":
+        await this.restoreSession(req.correlationId, req.tabs);
+        break;
+      case "focus-window":
+        await this.updateWindow(req.correlationId, req.windowId, { focused: true });
+        break;
+      case "minimize-window":
+        await this.updateWindow(req.correlationId, req.windowId, { state: "minimized" });
+        break;
+      case "close-window":
+        await this.closeWindow(req.correlationId, req.windowId);
+        break;
+      case "move-tabs":
+        await this.moveTabs(req.correlationId, req.tabIds, req.windowId, req.index);
+        break;
+      case "navigate-tab":
+        await this.navigateTab(req.correlationId, req.tabId, { type: "url", url: req.url }, req.waitForLoad, signal);
+        break;
+      case "go-back":
+        await this.navigateTab(req.correlationId, req.tabId, { type: "back" }, req.waitForLoad, signal);
+        break;
+      case "go-forward":
+        await this.navigateTab(req.correlationId, req.tabId, { type: "forward" }, req.waitForLoad, signal);
+        break;
+      case "reload-tab":
+        await this.navigateTab(
+          req.correlationId,
+          req.tabId,
+          { type: "reload", bypassCache: req.bypassCache },
+          req.waitForLoad,
+          signal
+        );
+        break;
+      case "search-bookmarks":
+        await this.searchBookmarks(req.correlationId, req.query, req.maxResults);
+        break;
+      case "get-bookmark-tree":
+        await this.sendBookmarkTree(req.correlationId, req.folderId, req.maxDepth);
+        break;
+      case "create-bookmark":
+        await this.createBookmark(req.correlationId, req.url, req.title, req.folderPath);
+        break;
+      case "create-bookmark-folder":
+        await this.createBookmarkFolder(req.correlationId, req.folderPath);
+        break;
+      case "remove-bookmarks":
+        await this.removeBookmarks(req.correlationId, req.bookmarkIds);
+        break;
       case "find-highlight":
         await this.findAndHighlightText(
           req.correlationId,
@@ -46,7 +529,8 @@ export class MessageHandler {
           req.correlationId,
           req.tabId,
           req.format,
-          req.quality
+          req.quality,
+          signal
         );
         break;
       case "scroll-to-position":
@@ -118,7 +602,8 @@ export class MessageHandler {
           req.selector,
           req.clearFirst,
           req.typeDelay,
-          req.waitForElement
+          req.waitForElement,
+          signal
         );
         break;
       case "send-special-keys":
@@ -142,7 +627,8 @@ export class MessageHandler {
         await this.waitForTime(
           req.correlationId,
           req.duration,
-          req.message
+          req.message,
+          signal
         );
         break;
       case "wait-for-element":
@@ -152,7 +638,8 @@ export class MessageHandler {
           req.selector,
           req.timeout,
           req.pollInterval,
-          req.visible
+          req.visible,
+          signal
         );
         break;
       case "wait-for-element-visibility":
@@ -161,40 +648,49 @@ export class MessageHandler {
           req.tabId,
           req.selector,
           req.timeout,
-          req.threshold
+          req.threshold,
+          signal
         );
         break;
       case "wait-for-condition":
         // SECURITY FIX: This feature has been disabled due to critical security vulnerability
         // The previous implementation allowed arbitrary JavaScript execution via new Function()
         // which could lead to complete system compromise, data theft, and malicious redirects
-        await this.client.sendErrorToServer(
-          req.correlationId,
+        throw new CommandError(
+          "TOOL_DISABLED",
           "wait-for-condition feature has been disabled for security reasons. " +
           "This feature previously allowed arbitrary JavaScript execution which poses " +
           "a critical security risk. Use specific wait operations like wait-for-element " +
           "or wait-for-element-visibility instead."
         );
-        break;
       default:
         const _exhaustiveCheck: never = req;
         console.error("Invalid message received:", req);
     }
   }
 
-  private async openUrl(correlationId: string, url: string): Promise<void> {
-    if (!url.startsWith("https://")) {
+  // Throws if the URL may not be opened by the server, in the given container
+  private async checkUrlAllowed(url: string, cookieStoreId?: string): Promise<void> {
+    if (!isUrlAllowedByPolicy(url, await getUrlPolicy())) {
       console.error("Invalid URL:", url);
-      throw new Error("Invalid URL");
+      throw new CommandError("INVALID_ARGUMENT", "Invalid URL, not allowed by the URL policy of the extension");
     }
 
-    if (await isDomainInDenyList(url)) {
-      throw new Error("Domain in user defined deny list");
+    if (await isDomainInDenyList(url, cookieStoreId)) {
+      throw new CommandError("DOMAIN_DENIED", "Domain in user defined deny list");
     }
+  }
 
-    const tab = await browser.tabs.create({
-      url,
-    });
+  private async openUrl(correlationId: string, url: string, cookieStoreId?: string): Promise<void> {
+    await this.checkUrlAllowed(url, cookieStoreId);
+
+    const createProperties: browser.tabs._CreateCreateProperties = { url };
+    if (cookieStoreId !== undefined) {
+      // Fails with a clear error on the browsers without containers
+      getContextualIdentities();
+      createProperties.cookieStoreId = cookieStoreId;
+    }
+    const tab = await browser.tabs.create(createProperties);
 
     await this.client.sendResourceToServer({
       resource: "opened-tab-id",
@@ -214,12 +710,32 @@ export class MessageHandler {
     });
   }
 
-  private async sendTabs(correlationId: string): Promise<void> {
+  private async sendTabs(correlationId: string, query: TabQuery = {}): Promise<void> {
+    const { offset = 0, limit } = query;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new CommandError("INVALID_ARGUMENT", `Invalid offset: ${offset}. offset must be a non-negative integer.`);
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      throw new CommandError("INVALID_ARGUMENT", `Invalid limit: ${limit}. limit must be a positive integer.`);
+    }
+
     const tabs = await browser.tabs.query({});
+    // Only the requested page of the matching tabs is sent
+    const urlRegExp = query.urlPattern !== undefined ? globToRegExp(query.urlPattern) : undefined;
+    const matching = tabs.filter((tab) => matchesTabQuery(tab, query, urlRegExp));
+    if (query.sortBy) {
+      const direction = query.sortOrder === "desc" ? -1 : 1;
+      matching.sort((a, b) => direction * compareTabs(a, b, query.sortBy!));
+    } else if (query.sortOrder === "desc") {
+      matching.reverse();
+    }
+    const page = matching.slice(offset, limit !== undefined ? offset + limit : undefined);
+
     await this.client.sendResourceToServer({
       resource: "tabs",
       correlationId,
-      tabs,
+      tabs: page.map(toBrowserTab),
+      totalCount: matching.length,
     });
   }
 
@@ -245,11 +761,12 @@ export class MessageHandler {
   private async sendTabsContent(
     correlationId: string,
     tabId: number,
-    offset?: number
+    offset?: number,
+    maxLength?: number
   ): Promise<void> {
-    const tab = await browser.tabs.get(tabId);
-    if (tab.url && (await isDomainInDenyList(tab.url))) {
-      throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+    const tab = await getTab(tabId);
+    if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+      throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
     }
 
     const MAX_CONTENT_LENGTH = 50_000;
@@ -264,7 +781,7 @@ export class MessageHandler {
               url: anchor.href,
               text: anchor.innerText.trim() || anchor.getAttribute('aria-label') || anchor.getAttribute('title') || ''
             };
-          }).filter(link => link.text !== '' && link.url.startsWith('https://') && !link.url.includes('#'));
+          }).filter(link => link.text !== '' && !link.url.includes('#'));
         }
 
         function getTextContent() {
@@ -288,16 +805,19 @@ export class MessageHandler {
           totalLength: document.body.innerText.length
         };
       },
-      args: [offset || 0, MAX_CONTENT_LENGTH]
+      args: [offset || 0, maxLength ?? MAX_CONTENT_LENGTH]
     });
     const { isTruncated, fullText, links, totalLength } = results[0].result;
+    // Only the links that the server could open
+    const urlPolicy = await getUrlPolicy();
+    const allowedLinks = links.filter((link: { url: string }) => isUrlAllowedByPolicy(link.url, urlPolicy));
     await this.client.sendResourceToServer({
       resource: "tab-content",
       tabId,
       correlationId,
       isTruncated,
       fullText,
-      links,
+      links: allowedLinks,
       totalLength,
     });
   }
@@ -318,6 +838,422 @@ export class MessageHandler {
     });
   }
 
+  private async updateTab(
+    correlationId: string,
+    tabId: number,
+    active?: boolean,
+    pinned?: boolean,
+    muted?: boolean
+  ): Promise<void> {
+    const tab = await getTab(tabId);
+    const updated = await browser.tabs.update(tabId, { active, pinned, muted });
+    // The active tab of a window is only in front once the window is
+    if (active && tab.windowId !== undefined) {
+      await browser.windows.update(tab.windowId, { focused: true });
+    }
+    await this.client.sendResourceToServer({
+      resource: "tab",
+      correlationId,
+      tab: toBrowserTab(updated),
+    });
+  }
+
+  private async discardTabs(correlationId: string, tabIds: number[]): Promise<void> {
+    const tabs = await Promise.all(tabIds.map(getTab));
+    // The browser does not discard the active tabs, which stay loaded
+    await browser.tabs.discard(tabIds);
+    const discarded = await Promise.all(tabs.map((tab) => browser.tabs.get(tab.id!)));
+    await this.client.sendResourceToServer({
+      resource: "tabs-discarded",
+      correlationId,
+      tabs: discarded.map(toBrowserTab),
+    });
+  }
+
+  private async duplicateTab(correlationId: string, tabId: number): Promise<void> {
+    const tab = await getTab(tabId);
+    if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+      throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
+    }
+    const duplicated = await browser.tabs.duplicate(tabId);
+    await this.client.sendResourceToServer({
+      resource: "tab",
+      correlationId,
+      tab: toBrowserTab(duplicated),
+    });
+  }
+
+  private async sendContainers(correlationId: string): Promise<void> {
+    const identities = await getContextualIdentities().query({});
+    await this.client.sendResourceToServer({
+      resource: "containers",
+      correlationId,
+      containers: identities.map(toBrowserContainer),
+    });
+  }
+
+  private async sendWindows(correlationId: string): Promise<void> {
+    const windows = await browser.windows.getAll({ populate: true });
+    await this.client.sendResourceToServer({
+      resource: "windows",
+      correlationId,
+      windows: windows.map(toBrowserWindow),
+    });
+  }
+
+  private async createWindow(
+    correlationId: string,
+    type: "normal" | "popup" = "normal",
+    url?: string,
+    width?: number,
+    height?: number
+  ): Promise<void> {
+    if (url !== undefined) {
+      await this.checkUrlAllowed(url);
+    }
+    for (const [name, value] of Object.entries({ width, height })) {
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        throw new CommandError("INVALID_ARGUMENT", `Invalid ${name}: ${value}. ${name} must be a positive integer.`);
+      }
+    }
+
+    const window = await browser.windows.create({ type, url, width, height });
+    await this.client.sendResourceToServer({
+      resource: "window",
+      correlationId,
+      window: toBrowserWindow(window),
+    });
+  }
+
+  private async restoreSession(correlationId: string, sessionTabs: SessionTab[]): Promise<void> {
+    // The tabs that are not allowed are skipped, the others still open
+    const allowed: SessionTab[] = [];
+    const skipped: { url: string; reason: string }[] = [];
+    for (const sessionTab of sessionTabs) {
+      try {
+        await this.checkUrlAllowed(sessionTab.url, sessionTab.cookieStoreId);
+        if (sessionTab.cookieStoreId !== undefined) {
+          getContextualIdentities();
+        }
+        allowed.push(sessionTab);
+      } catch (error) {
+        if (!(error instanceof CommandError)) {
+          throw error;
+        }
+        skipped.push({ url: sessionTab.url, reason: error.message });
+      }
+    }
+    if (allowed.length === 0) {
+      throw new CommandError("INVALID_ARGUMENT", "None of the tabs of the session can be opened");
+    }
+
+    // The new window comes with a tab of its own, closed once the session's
+    // tabs are open
+    const window = await browser.windows.create({});
+    const tabs: browser.tabs.Tab[] = [];
+    for (const { url, pinned, cookieStoreId } of allowed) {
+      const createProperties: browser.tabs._CreateCreateProperties = { windowId: window.id, url, pinned };
+      if (cookieStoreId !== undefined) {
+        createProperties.cookieStoreId = cookieStoreId;
+      }
+      try {
+        tabs.push(await browser.tabs.create(createProperties));
+      } catch (error) {
+        // E.g. the container of the tab was removed
+        skipped.push({ url, reason: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+    const initialTabIds = (window.tabs ?? []).map((tab) => tab.id!);
+    if (tabs.length > 0 && initialTabIds.length > 0) {
+      await browser.tabs.remove(initialTabIds);
+    }
+
+    await this.client.sendResourceToServer({
+      resource: "session-restored",
+      correlationId,
+      window: toBrowserWindow(await browser.windows.get(window.id!, { populate: true })),
+      tabs: tabs.map(toBrowserTab),
+      skipped,
+    });
+  }
+
+  private async updateWindow(
+    correlationId: string,
+    windowId: number,
+    updateInfo: browser.windows._UpdateUpdateInfo
+  ): Promise<void> {
+    await browser.windows.update(windowId, updateInfo);
+    // The updated window comes without its tabs, which are counted
+    const window = await browser.windows.get(windowId, { populate: true });
+    await this.client.sendResourceToServer({
+      resource: "window",
+      correlationId,
+      window: toBrowserWindow(window),
+    });
+  }
+
+  private async closeWindow(correlationId: string, windowId: number): Promise<void> {
+    await browser.windows.remove(windowId);
+    await this.client.sendResourceToServer({
+      resource: "window-closed",
+      correlationId,
+      windowId,
+    });
+  }
+
+  private async moveTabs(
+    correlationId: string,
+    tabIds: number[],
+    windowId: number,
+    index: number = -1
+  ): Promise<void> {
+    const moved = await browser.tabs.move(tabIds, { windowId, index });
+    await this.client.sendResourceToServer({
+      resource: "tabs-moved",
+      correlationId,
+      tabs: (Array.isArray(moved) ? moved : [moved]).map(toBrowserTab),
+    });
+  }
+
+  private async navigateTab(
+    correlationId: string,
+    tabId: number,
+    navigation: Navigation,
+    waitForLoad?: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (waitForLoad !== undefined && (waitForLoad < 0 || waitForLoad > 30000)) {
+      throw new CommandError("INVALID_ARGUMENT", `Invalid waitForLoad: ${waitForLoad}ms. waitForLoad must be between 0ms and 30000ms`);
+    }
+
+    const tab = await getTab(tabId);
+    if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+      throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
+    }
+    if (navigation.type === "url") {
+      await this.checkUrlAllowed(navigation.url, tab.cookieStoreId);
+    }
+
+    // Stops waiting for the load when the navigation fails or is cancelled
+    const stopWaiting = new AbortController();
+    const onAbort = () => stopWaiting.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      const pageLoad = waitForLoad ? waitForPageLoad(tabId, waitForLoad, stopWaiting.signal) : undefined;
+      switch (navigation.type) {
+        case "url":
+          await browser.tabs.update(tabId, { url: navigation.url });
+          break;
+        case "back":
+          await browser.tabs.goBack(tabId);
+          break;
+        case "forward":
+          await browser.tabs.goForward(tabId);
+          break;
+        case "reload":
+          await browser.tabs.reload(tabId, { bypassCache: navigation.bypassCache ?? false });
+          break;
+      }
+      await pageLoad;
+    } finally {
+      stopWaiting.abort();
+      signal?.removeEventListener("abort", onAbort);
+    }
+    throwIfCancelled(signal, correlationId);
+
+    // The pages reached through the history are only known now, a denied one
+    // is left before reporting the error
+    const navigated = await browser.tabs.get(tabId);
+    const historyStep = navigation.type === "back" || navigation.type === "forward" ? navigation.type : undefined;
+    if (navigated.url) {
+      let denial: CommandError | undefined;
+      if (historyStep && !isUrlAllowedByPolicy(navigated.url, await getUrlPolicy())) {
+        denial = new CommandError("INVALID_ARGUMENT", `Tab ${tabId} navigated to a URL not allowed by the URL policy of the extension`);
+      } else if (await isDomainInDenyList(navigated.url, navigated.cookieStoreId)) {
+        denial = new CommandError("DOMAIN_DENIED", `Tab ${tabId} navigated to a domain in the deny list`);
+      }
+      if (denial) {
+        if (historyStep) {
+          await leaveHistoryPage(tabId, historyStep);
+        }
+        throw denial;
+      }
+    }
+
+    await this.client.sendResourceToServer({
+      resource: "navigation-result",
+      correlationId,
+      tabId,
+      url: navigated.url,
+      title: navigated.title,
+      status: navigated.status,
+      httpStatus: navigated.status === "complete" ? await getHttpStatus(tabId) : undefined,
+    });
+  }
+
+  private async searchBookmarks(correlationId: string, query: string, maxResults: number = 50): Promise<void> {
+    if (!Number.isInteger(maxResults) || maxResults <= 0) {
+      throw new CommandError("INVALID_ARGUMENT", `Invalid maxResults: ${maxResults}. maxResults must be a positive integer.`);
+    }
+
+    const agentBookmarkIds = new Set(await getAgentBookmarkIds());
+    const bookmarks: BrowserBookmark[] = [];
+    for (const node of await browser.bookmarks.search(query)) {
+      if (bookmarks.length >= maxResults) {
+        break;
+      }
+      if (!(await isBookmarkHidden(node))) {
+        bookmarks.push(toBrowserBookmark(node, agentBookmarkIds));
+      }
+    }
+
+    await this.client.sendResourceToServer({
+      resource: "bookmarks",
+      correlationId,
+      bookmarks,
+    });
+  }
+
+  private async sendBookmarkTree(correlationId: string, folderId?: string, maxDepth?: number): Promise<void> {
+    if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+      throw new CommandError("INVALID_ARGUMENT", `Invalid maxDepth: ${maxDepth}. maxDepth must be a non-negative integer.`);
+    }
+    const [folder] = folderId !== undefined ? [await getBookmarkSubTree(folderId)] : await browser.bookmarks.getTree();
+    if (folder.url !== undefined) {
+      throw new CommandError("INVALID_ARGUMENT", `Bookmark ${folderId} is not a folder`);
+    }
+
+    // Depth first, the folders followed by their content
+    const agentBookmarkIds = new Set(await getAgentBookmarkIds());
+    const bookmarks: BrowserBookmark[] = [];
+    const visit = async (nodes: browser.bookmarks.BookmarkTreeNode[], depth: number) => {
+      for (const node of nodes) {
+        if (await isBookmarkHidden(node)) {
+          continue;
+        }
+        bookmarks.push(toBrowserBookmark(node, agentBookmarkIds, depth));
+        if (node.children && (maxDepth === undefined || depth < maxDepth)) {
+          await visit(node.children, depth + 1);
+        }
+      }
+    };
+    await visit(folder.children ?? [], 0);
+
+    await this.client.sendResourceToServer({
+      resource: "bookmarks",
+      correlationId,
+      bookmarks,
+    });
+  }
+
+  // Finds the folders of the path, creating the missing ones. The first one is
+  // looked up in the top-level folders (toolbar, menu, other bookmarks), and
+  // created in the browser's default folder.
+  private async getBookmarkFolder(folderPath: string[]): Promise<{ folderId: string; createdIds: string[] }> {
+    const titles = folderPath.map((title) => title.trim());
+    if (titles.length === 0 || titles.some((title) => title === "")) {
+      throw new CommandError("INVALID_ARGUMENT", `Invalid folder path: ${JSON.stringify(folderPath)}. Folder names cannot be empty.`);
+    }
+
+    const [root] = await browser.bookmarks.getTree();
+    const topLevelIds = new Set((root.children ?? []).map((node) => node.id));
+    const createdIds: string[] = [];
+    let folderId: string | undefined;
+    for (const title of titles) {
+      const candidates =
+        folderId === undefined
+          ? (await browser.bookmarks.search({ title })).filter((node) => topLevelIds.has(node.parentId!))
+          : await browser.bookmarks.getChildren(folderId);
+      const existing = candidates.find((node) => node.url === undefined && node.title === title);
+      if (existing) {
+        folderId = existing.id;
+        continue;
+      }
+      const created = await browser.bookmarks.create({ parentId: folderId, title });
+      createdIds.push(created.id);
+      folderId = created.id;
+    }
+    return { folderId: folderId!, createdIds };
+  }
+
+  private async createBookmark(correlationId: string, url: string, title: string, folderPath?: string[]): Promise<void> {
+    await this.checkUrlAllowed(url);
+
+    const { folderId, createdIds } = folderPath?.length
+      ? await this.getBookmarkFolder(folderPath)
+      : { folderId: undefined, createdIds: [] };
+    const bookmark = await browser.bookmarks.create({ parentId: folderId, title, url });
+    await addAgentBookmarkIds([...createdIds, bookmark.id]);
+
+    await this.client.sendResourceToServer({
+      resource: "bookmark",
+      correlationId,
+      bookmark: toBrowserBookmark(bookmark, new Set([bookmark.id])),
+    });
+  }
+
+  private async createBookmarkFolder(correlationId: string, folderPath: string[]): Promise<void> {
+    const { folderId, createdIds } = await this.getBookmarkFolder(folderPath);
+    await addAgentBookmarkIds(createdIds);
+
+    // The folder may already have existed
+    const [folder] = await browser.bookmarks.get(folderId);
+    await this.client.sendResourceToServer({
+      resource: "bookmark",
+      correlationId,
+      bookmark: toBrowserBookmark(folder, new Set(await getAgentBookmarkIds())),
+    });
+  }
+
+  private async removeBookmarks(correlationId: string, bookmarkIds: string[]): Promise<void> {
+    // Nothing is removed unless all the bookmarks, and the content of the
+    // folders, were created through the MCP server
+    const agentBookmarkIds = new Set(await getAgentBookmarkIds());
+    const nodes: browser.bookmarks.BookmarkTreeNode[] = [];
+    const removedIds: string[] = [];
+    for (const bookmarkId of bookmarkIds) {
+      if (removedIds.includes(bookmarkId)) {
+        // In a folder already listed
+        continue;
+      }
+      if (!agentBookmarkIds.has(bookmarkId)) {
+        throw new CommandError(
+          "INVALID_ARGUMENT",
+          `Bookmark ${bookmarkId} was not created through the MCP server and cannot be removed`
+        );
+      }
+      const node = await getBookmarkSubTree(bookmarkId);
+      const pending = [node];
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        if (!agentBookmarkIds.has(current.id)) {
+          throw new CommandError(
+            "INVALID_ARGUMENT",
+            `Bookmark folder ${bookmarkId} holds bookmarks not created through the MCP server and cannot be removed`
+          );
+        }
+        removedIds.push(current.id);
+        pending.push(...(current.children ?? []));
+      }
+      nodes.push(node);
+    }
+
+    for (const node of nodes) {
+      if (node.url === undefined) {
+        await browser.bookmarks.removeTree(node.id);
+      } else {
+        await browser.bookmarks.remove(node.id);
+      }
+    }
+    await removeAgentBookmarkIds(removedIds);
+
+    await this.client.sendResourceToServer({
+      resource: "bookmarks-removed",
+      correlationId,
+      bookmarkIds,
+    });
+  }
+
   private async findAndHighlightText(
     correlationId: string,
     tabId: number,
@@ -349,20 +1285,21 @@ export class MessageHandler {
     correlationId: string,
     tabId: number,
     format?: "png" | "jpeg",
-    quality?: number
+    quality?: number,
+    signal?: AbortSignal
   ): Promise<void> {
     try {
       // Validate input parameters
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       if (format && !["png", "jpeg"].includes(format)) {
-        throw new Error(`Invalid format: ${format}. Must be 'png' or 'jpeg'.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid format: ${format}. Must be 'png' or 'jpeg'.`);
       }
 
       if (quality !== undefined && (!Number.isInteger(quality) || quality < 0 || quality > 100)) {
-        throw new Error(`Invalid quality: ${quality}. Quality must be an integer between 0 and 100.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid quality: ${quality}. Quality must be an integer between 0 and 100.`);
       }
 
       // Get screenshot configuration
@@ -377,31 +1314,31 @@ export class MessageHandler {
       try {
         tab = await browser.tabs.get(tabId);
       } catch (tabError) {
-        throw new Error(`Tab with ID ${tabId} not found or is not accessible. The tab may have been closed or does not exist.`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab with ID ${tabId} not found or is not accessible. The tab may have been closed or does not exist.`);
       }
 
       if (!tab) {
-        throw new Error(`Tab with ID ${tabId} not found`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab with ID ${tabId} not found`);
       }
 
       // Check if tab is in a valid state for screenshot
       if (tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} is still loading. Please wait for the page to finish loading before taking a screenshot.`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} is still loading. Please wait for the page to finish loading before taking a screenshot.`);
       }
 
       // Check if the tab URL is valid and accessible
       if (!tab.url) {
-        throw new Error(`Tab ${tabId} does not have a valid URL`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} does not have a valid URL`);
       }
 
       // Check for special pages that can't be captured
       if (tab.url.startsWith("about:") || tab.url.startsWith("moz-extension:") || tab.url.startsWith("chrome:")) {
-        throw new Error(`Cannot capture screenshot of system page: ${tab.url}`);
+        throw new CommandError("PERMISSION_REQUIRED", `Cannot capture screenshot of system page: ${tab.url}`);
       }
 
       // Check if the tab URL is in the deny list
-      if (await isDomainInDenyList(tab.url)) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (await isDomainInDenyList(tab.url, tab.cookieStoreId)) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Validate window ID
@@ -424,7 +1361,8 @@ export class MessageHandler {
       }
 
       // Capture full page screenshot using scroll-and-stitch method
-      let imageDataUrl = await this.captureFullPageScreenshot(tabId, windowId, finalFormat, finalQuality);
+      let imageDataUrl = await this.captureFullPageScreenshot(tabId, windowId, finalFormat, finalQuality, correlationId, signal);
+      throwIfCancelled(signal, correlationId);
 
       // Apply AI optimization if enabled
       imageDataUrl = await this.optimizeScreenshotForAI(imageDataUrl, screenshotConfig);
@@ -452,6 +1390,9 @@ export class MessageHandler {
         timestamp: Date.now(),
       });
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       console.error("Screenshot capture failed:", error);
       
       // Re-throw with more context if it's already a detailed error
@@ -460,7 +1401,7 @@ export class MessageHandler {
       }
       
       // Otherwise, wrap in a generic error
-      throw new Error(`Failed to capture screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new CommandError(getErrorCode(error), `Failed to capture screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -468,7 +1409,9 @@ export class MessageHandler {
     tabId: number,
     windowId: number,
     format: "png" | "jpeg",
-    quality: number
+    quality: number,
+    correlationId: string,
+    signal?: AbortSignal
   ): Promise<string> {
     // Maximum height limit to prevent excessive memory usage
     const MAX_PAGE_HEIGHT = 10800;
@@ -505,6 +1448,15 @@ export class MessageHandler {
         
         for (let i = 0; i < segments.length; i++) {
           const segment = segments[i];
+          throwIfCancelled(signal, correlationId);
+          // Stitching counts as the last step
+          await this.client.sendProgressToServer({
+            resource: "progress",
+            correlationId,
+            progress: i,
+            total: segments.length + 1,
+            message: `Capturing segment ${i + 1} of ${segments.length}`,
+          });
           
           // Scroll to content-aware position
           await this.scrollToPosition(tabId, segment.scrollY);
@@ -522,6 +1474,14 @@ export class MessageHandler {
           return screenshots[0];
         }
         
+        throwIfCancelled(signal, correlationId);
+        await this.client.sendProgressToServer({
+          resource: "progress",
+          correlationId,
+          progress: segments.length,
+          total: segments.length + 1,
+          message: `Stitching ${segments.length} segments`,
+        });
         return await this.stitchScreenshots(screenshots, pageDimensions.viewportHeight, pageDimensions.fullHeight, tabId);
         
       } finally {
@@ -535,6 +1495,9 @@ export class MessageHandler {
       }
       
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       console.error("Full page capture failed, falling back to viewport capture:", error);
       
       // Fallback to single viewport capture if full page capture fails
@@ -1003,26 +1966,26 @@ export class MessageHandler {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       if (!Number.isInteger(x) || x < 0) {
-        throw new Error(`Invalid x coordinate: ${x}. X coordinate must be a non-negative integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid x coordinate: ${x}. X coordinate must be a non-negative integer.`);
       }
 
       if (!Number.isInteger(y) || y < 0) {
-        throw new Error(`Invalid y coordinate: ${y}. Y coordinate must be a non-negative integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid y coordinate: ${y}. Y coordinate must be a non-negative integer.`);
       }
 
       // Validate that the tab exists and is accessible
       const tab = await browser.tabs.get(tabId);
       if (!tab || tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} not found or not ready`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found or not ready`);
       }
 
       // Check if the tab URL is in the deny list
-      if (tab.url && (await isDomainInDenyList(tab.url))) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Execute scroll operation and get final position
@@ -1073,6 +2036,7 @@ export class MessageHandler {
         success: result.success,
         finalPosition: result.finalPosition,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
       });
     } catch (error) {
@@ -1083,6 +2047,7 @@ export class MessageHandler {
         success: false,
         finalPosition: { x: 0, y: 0 },
         message: `Scroll failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1098,26 +2063,26 @@ export class MessageHandler {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       if (!Number.isInteger(deltaX)) {
-        throw new Error(`Invalid deltaX: ${deltaX}. DeltaX must be an integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid deltaX: ${deltaX}. DeltaX must be an integer.`);
       }
 
       if (!Number.isInteger(deltaY)) {
-        throw new Error(`Invalid deltaY: ${deltaY}. DeltaY must be an integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid deltaY: ${deltaY}. DeltaY must be an integer.`);
       }
 
       // Validate that the tab exists and is accessible
       const tab = await browser.tabs.get(tabId);
       if (!tab || tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} not found or not ready`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found or not ready`);
       }
 
       // Check if the tab URL is in the deny list
-      if (tab.url && (await isDomainInDenyList(tab.url))) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Execute scroll operation and get final position
@@ -1168,6 +2133,7 @@ export class MessageHandler {
         success: result.success,
         finalPosition: result.finalPosition,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
       });
     } catch (error) {
@@ -1178,6 +2144,7 @@ export class MessageHandler {
         success: false,
         finalPosition: { x: 0, y: 0 },
         message: `Scroll failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1194,27 +2161,27 @@ export class MessageHandler {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       if (!selector || typeof selector !== 'string') {
-        throw new Error(`Invalid selector: selector must be a non-empty string.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid selector: selector must be a non-empty string.`);
       }
 
       // Basic CSS selector validation to prevent injection
       if (selector.includes('<') || selector.includes('>') || selector.includes('script')) {
-        throw new Error(`Invalid selector: potentially dangerous characters detected.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid selector: potentially dangerous characters detected.`);
       }
 
       // Validate that the tab exists and is accessible
       const tab = await browser.tabs.get(tabId);
       if (!tab || tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} not found or not ready`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found or not ready`);
       }
 
       // Check if the tab URL is in the deny list
-      if (tab.url && (await isDomainInDenyList(tab.url))) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Execute scroll operation and get final position
@@ -1282,6 +2249,7 @@ export class MessageHandler {
         success: result.success,
         finalPosition: result.finalPosition,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
       });
     } catch (error) {
@@ -1292,6 +2260,7 @@ export class MessageHandler {
         success: false,
         finalPosition: { x: 0, y: 0 },
         message: `Scroll failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1314,26 +2283,26 @@ export class MessageHandler {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       if (!Number.isInteger(x) || x < 0) {
-        throw new Error(`Invalid x coordinate: ${x}. X coordinate must be a non-negative integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid x coordinate: ${x}. X coordinate must be a non-negative integer.`);
       }
 
       if (!Number.isInteger(y) || y < 0) {
-        throw new Error(`Invalid y coordinate: ${y}. Y coordinate must be a non-negative integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid y coordinate: ${y}. Y coordinate must be a non-negative integer.`);
       }
 
       // Validate that the tab exists and is accessible
       const tab = await browser.tabs.get(tabId);
       if (!tab || tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} not found or not ready`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found or not ready`);
       }
 
       // Check if the tab URL is in the deny list
-      if (tab.url && (await isDomainInDenyList(tab.url))) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Send message to content script
@@ -1361,6 +2330,7 @@ export class MessageHandler {
         elementFound: result.elementFound,
         clickExecuted: result.clickExecuted,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
         elementInfo: result.elementInfo,
       });
@@ -1373,6 +2343,7 @@ export class MessageHandler {
         elementFound: false,
         clickExecuted: false,
         message: `Click failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1396,27 +2367,27 @@ export class MessageHandler {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       if (!selector || typeof selector !== 'string') {
-        throw new Error(`Invalid selector: selector must be a non-empty string.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid selector: selector must be a non-empty string.`);
       }
 
       // Basic CSS selector validation to prevent injection
       if (selector.includes('<') || selector.includes('>') || selector.includes('script')) {
-        throw new Error(`Invalid selector: potentially dangerous characters detected.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid selector: potentially dangerous characters detected.`);
       }
 
       // Validate that the tab exists and is accessible
       const tab = await browser.tabs.get(tabId);
       if (!tab || tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} not found or not ready`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found or not ready`);
       }
 
       // Check if the tab URL is in the deny list
-      if (tab.url && (await isDomainInDenyList(tab.url))) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Send message to content script
@@ -1445,6 +2416,7 @@ export class MessageHandler {
         elementFound: result.elementFound,
         clickExecuted: result.clickExecuted,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
         elementInfo: result.elementInfo,
       });
@@ -1457,6 +2429,7 @@ export class MessageHandler {
         elementFound: false,
         clickExecuted: false,
         message: `Click failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1473,40 +2446,40 @@ export class MessageHandler {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}. Tab ID must be a positive integer.`);
       }
 
       // Must have either selector or coordinates
       if (!selector && (x === undefined || y === undefined)) {
-        throw new Error(`Either selector or x,y coordinates must be provided for hover`);
+        throw new CommandError("INVALID_ARGUMENT", `Either selector or x,y coordinates must be provided for hover`);
       }
 
       if (selector && (typeof selector !== 'string' || !selector)) {
-        throw new Error(`Invalid selector: selector must be a non-empty string.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid selector: selector must be a non-empty string.`);
       }
 
       if (x !== undefined && (!Number.isInteger(x) || x < 0)) {
-        throw new Error(`Invalid x coordinate: ${x}. X coordinate must be a non-negative integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid x coordinate: ${x}. X coordinate must be a non-negative integer.`);
       }
 
       if (y !== undefined && (!Number.isInteger(y) || y < 0)) {
-        throw new Error(`Invalid y coordinate: ${y}. Y coordinate must be a non-negative integer.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid y coordinate: ${y}. Y coordinate must be a non-negative integer.`);
       }
 
       // Basic CSS selector validation to prevent injection
       if (selector && (selector.includes('<') || selector.includes('>') || selector.includes('script'))) {
-        throw new Error(`Invalid selector: potentially dangerous characters detected.`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid selector: potentially dangerous characters detected.`);
       }
 
       // Validate that the tab exists and is accessible
       const tab = await browser.tabs.get(tabId);
       if (!tab || tab.status !== "complete") {
-        throw new Error(`Tab ${tabId} not found or not ready`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} not found or not ready`);
       }
 
       // Check if the tab URL is in the deny list
-      if (tab.url && (await isDomainInDenyList(tab.url))) {
-        throw new Error(`Domain in tab URL '${tab.url}' is in the deny list`);
+      if (tab.url && (await isDomainInDenyList(tab.url, tab.cookieStoreId))) {
+        throw new CommandError("DOMAIN_DENIED", `Domain in tab URL '${tab.url}' is in the deny list`);
       }
 
       // Send message to content script
@@ -1532,6 +2505,7 @@ export class MessageHandler {
         success: result.success,
         elementFound: result.elementFound,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
         elementInfo: result.elementInfo,
       });
@@ -1543,6 +2517,7 @@ export class MessageHandler {
         success: false,
         elementFound: false,
         message: `Hover failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1555,16 +2530,31 @@ export class MessageHandler {
     selector?: string,
     clearFirst?: boolean,
     typeDelay?: number,
-    waitForElement?: number
+    waitForElement?: number,
+    signal?: AbortSignal
   ): Promise<void> {
+    // The typing loop runs in the page, so cancellation is passed to it
+    // through a flag it checks before every character. Both scripts run in
+    // the extension's isolated world, out of the page's reach.
+    const onAbort = () => {
+      executeInPage(tabId, (correlationId: string) => {
+        const flags = window as CancelFlagWindow;
+        flags.__browserControlCancelled = flags.__browserControlCancelled || {};
+        flags.__browserControlCancelled[correlationId] = true;
+      }, correlationId).catch((error) => {
+        console.warn("Failed to cancel typing in the page:", error);
+      });
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     try {
       // Validate input parameters
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}`);
       }
       
       if (typeof text !== 'string') {
-        throw new Error('Text must be a string');
+        throw new CommandError("INVALID_ARGUMENT", 'Text must be a string');
       }
 
       // Sanitize text to prevent script injection
@@ -1590,159 +2580,176 @@ export class MessageHandler {
       const finalTypeDelay = Math.max(0, Math.min(typeDelay || 0, 1000)); // Clamp between 0-1000ms
       const finalWaitForElement = Math.max(0, Math.min(waitForElement || 5000, 10000)); // Clamp between 0-10000ms
 
-      const results = await browser.tabs.executeScript(tabId, {
-        code: `
-          (async function() {
-            try {
-              let targetElement;
-              
-              // Find target element
-              if ("${selector}") {
-                const selectorStr = "${selector}";
-                targetElement = document.querySelector(selectorStr);
-                
-                if (!targetElement) {
-                  // Wait for element if waitForElement is specified
-                  if (${finalWaitForElement} > 0) {
-                    const startTime = Date.now();
-                    while (!targetElement && (Date.now() - startTime) < ${finalWaitForElement}) {
-                      await new Promise(resolve => setTimeout(resolve, 100));
-                      targetElement = document.querySelector(selectorStr);
-                    }
-                  }
-                  
-                  if (!targetElement) {
-                    return {
-                      success: false,
-                      message: "Element not found: " + selectorStr,
-                      charactersTyped: 0,
-                      elementInfo: { exists: false, visible: false, interactable: false }
-                    };
-                  }
-                }
-              } else {
-                // Use currently focused element
-                targetElement = document.activeElement;
-                if (!targetElement || targetElement === document.body) {
-                  return {
-                    success: false,
-                    message: "No element is focused. Please provide a selector or focus an element first.",
-                    charactersTyped: 0,
-                    elementInfo: { exists: false, visible: false, interactable: false }
-                  };
+      const result = await raceCancellation(executeInPage(tabId, async (
+        selector: string | undefined,
+        textToType: string,
+        clearFirst: boolean,
+        typeDelay: number,
+        waitForElement: number,
+        correlationId: string
+      ): Promise<PageTypeResult> => {
+        try {
+          let targetElement: HTMLInputElement | null;
+
+          // Find target element
+          if (selector) {
+            targetElement = document.querySelector<HTMLInputElement>(selector);
+
+            if (!targetElement) {
+              // Wait for element if waitForElement is specified
+              if (waitForElement > 0) {
+                const startTime = Date.now();
+                while (!targetElement && (Date.now() - startTime) < waitForElement) {
+                  await new Promise(resolve => setTimeout(resolve, 100));
+                  targetElement = document.querySelector<HTMLInputElement>(selector);
                 }
               }
 
-              // Check element properties
-              const rect = targetElement.getBoundingClientRect();
-              const isVisible = rect.width > 0 && rect.height > 0 &&
-                               window.getComputedStyle(targetElement).visibility !== 'hidden' &&
-                               window.getComputedStyle(targetElement).display !== 'none';
-              
-              const isInteractable = !targetElement.disabled && !targetElement.readOnly;
-              
-              if (!isVisible) {
-                return {
-                  success: false,
-                  message: "Element is not visible",
-                  charactersTyped: 0,
-                  elementInfo: { exists: true, visible: false, interactable: isInteractable, boundingRect: rect }
-                };
-              }
-              
-              if (!isInteractable) {
+              if (!targetElement) {
                 return {
                   success: false,
-                  message: "Element is not interactable (disabled or readonly)",
+                  message: "Element not found: " + selector,
                   charactersTyped: 0,
-                  elementInfo: { exists: true, visible: true, interactable: false, boundingRect: rect }
+                  elementInfo: { exists: false, visible: false, interactable: false }
                 };
               }
-
-              // Focus the element
-              targetElement.focus();
-              
-              // Clear existing text if requested
-              if (${clearFirst === true}) {
-                if (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA') {
-                  targetElement.value = '';
-                } else if (targetElement.contentEditable === 'true') {
-                  targetElement.textContent = '';
-                }
-                
-                // Dispatch change event after clearing
-                targetElement.dispatchEvent(new Event('input', { bubbles: true }));
-                targetElement.dispatchEvent(new Event('change', { bubbles: true }));
-              }
-
-              const textToType = "${sanitizedText}";
-              let charactersTyped = 0;
-              
-              // Type text character by character with delay
-              for (let i = 0; i < textToType.length; i++) {
-                const char = textToType[i];
-                
-                // Set the value directly for input/textarea elements
-                if (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA') {
-                  const currentValue = targetElement.value || '';
-                  targetElement.value = currentValue + char;
-                } else if (targetElement.contentEditable === 'true') {
-                  const currentText = targetElement.textContent || '';
-                  targetElement.textContent = currentText + char;
-                }
-                
-                charactersTyped++;
-                
-                // Dispatch input event for each character
-                targetElement.dispatchEvent(new Event('input', { bubbles: true }));
-                
-                // Add delay between characters if specified
-                if (${finalTypeDelay} > 0 && i < textToType.length - 1) {
-                  await new Promise(resolve => setTimeout(resolve, ${finalTypeDelay}));
-                }
-              }
-              
-              // Dispatch final change event
-              targetElement.dispatchEvent(new Event('change', { bubbles: true }));
-              
+            }
+          } else {
+            // Use currently focused element
+            targetElement = document.activeElement as HTMLInputElement | null;
+            if (!targetElement || targetElement === document.body) {
               return {
-                success: true,
-                message: \`Successfully typed \${charactersTyped} characters\`,
-                charactersTyped: charactersTyped,
-                elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
+                success: false,
+                message: "No element is focused. Please provide a selector or focus an element first.",
+                charactersTyped: 0,
+                elementInfo: { exists: false, visible: false, interactable: false }
               };
-              
-            } catch (error) {
+            }
+          }
+
+          // Check element properties
+          const rect = targetElement.getBoundingClientRect();
+          const isVisible = rect.width > 0 && rect.height > 0 &&
+                           window.getComputedStyle(targetElement).visibility !== 'hidden' &&
+                           window.getComputedStyle(targetElement).display !== 'none';
+
+          const isInteractable = !targetElement.disabled && !targetElement.readOnly;
+
+          if (!isVisible) {
+            return {
+              success: false,
+              message: "Element is not visible",
+              charactersTyped: 0,
+              elementInfo: { exists: true, visible: false, interactable: isInteractable, boundingRect: rect }
+            };
+          }
+
+          if (!isInteractable) {
+            return {
+              success: false,
+              message: "Element is not interactable (disabled or readonly)",
+              charactersTyped: 0,
+              elementInfo: { exists: true, visible: true, interactable: false, boundingRect: rect }
+            };
+          }
+
+          // Focus the element
+          targetElement.focus();
+
+          // Clear existing text if requested
+          if (clearFirst) {
+            if (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA') {
+              targetElement.value = '';
+            } else if (targetElement.contentEditable === 'true') {
+              targetElement.textContent = '';
+            }
+
+            // Dispatch change event after clearing
+            targetElement.dispatchEvent(new Event('input', { bubbles: true }));
+            targetElement.dispatchEvent(new Event('change', { bubbles: true }));
+          }
+
+          const flags = window as CancelFlagWindow;
+          let charactersTyped = 0;
+
+          // Type text character by character with delay
+          for (let i = 0; i < textToType.length; i++) {
+            const char = textToType[i];
+
+            // Stop typing if the server cancelled the request
+            if (flags.__browserControlCancelled?.[correlationId]) {
+              delete flags.__browserControlCancelled[correlationId];
               return {
                 success: false,
-                message: "Type failed: " + error.message,
-                charactersTyped: 0
+                message: "Typing was cancelled",
+                charactersTyped: charactersTyped
               };
             }
-          })();
-        `
-      });
 
-      const result = results[0];
+            // Set the value directly for input/textarea elements
+            if (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA') {
+              const currentValue = targetElement.value || '';
+              targetElement.value = currentValue + char;
+            } else if (targetElement.contentEditable === 'true') {
+              const currentText = targetElement.textContent || '';
+              targetElement.textContent = currentText + char;
+            }
+
+            charactersTyped++;
+
+            // Dispatch input event for each character
+            targetElement.dispatchEvent(new Event('input', { bubbles: true }));
+
+            // Add delay between characters if specified
+            if (typeDelay > 0 && i < textToType.length - 1) {
+              await new Promise(resolve => setTimeout(resolve, typeDelay));
+            }
+          }
+
+          // Dispatch final change event
+          targetElement.dispatchEvent(new Event('change', { bubbles: true }));
+
+          return {
+            success: true,
+            message: `Successfully typed ${charactersTyped} characters`,
+            charactersTyped: charactersTyped,
+            elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
+          };
+
+        } catch (error) {
+          return {
+            success: false,
+            message: "Type failed: " + (error as Error).message,
+            charactersTyped: 0
+          };
+        }
+      }, selector, sanitizedText, clearFirst === true, finalTypeDelay, finalWaitForElement, correlationId), signal, correlationId);
       await this.client.sendResourceToServer({
         resource: "type-result",
         correlationId,
         success: result.success,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
         charactersTyped: result.charactersTyped,
         elementInfo: result.elementInfo,
       });
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       console.error("Type text failed:", error);
       await this.client.sendResourceToServer({
         resource: "type-result",
         correlationId,
         success: false,
         message: `Type failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
         charactersTyped: 0,
       });
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
@@ -1761,11 +2768,11 @@ export class MessageHandler {
     try {
       // Validate input parameters
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}`);
       }
       
       if (!Array.isArray(keys) || keys.length === 0) {
-        throw new Error('Keys must be a non-empty array');
+        throw new CommandError("INVALID_ARGUMENT", 'Keys must be a non-empty array');
       }
 
       // Validate special keys
@@ -1777,118 +2784,114 @@ export class MessageHandler {
       
       for (const key of keys) {
         if (!validKeys.includes(key)) {
-          throw new Error(`Invalid key: ${key}. Allowed keys: ${validKeys.join(', ')}`);
+          throw new CommandError("INVALID_ARGUMENT", `Invalid key: ${key}. Allowed keys: ${validKeys.join(', ')}`);
         }
       }
 
       const finalModifiers = modifiers || {};
 
-      const results = await browser.tabs.executeScript(tabId, {
-        code: `
-          (function() {
-            try {
-              let targetElement;
-              
-              // Find target element
-              if ("${selector}") {
-                const selectorStr = "${selector}";
-                targetElement = document.querySelector(selectorStr);
-                
-                if (!targetElement) {
-                  return {
-                    success: false,
-                    message: "Element not found: " + selectorStr,
-                    elementInfo: { exists: false, visible: false, interactable: false }
-                  };
-                }
-              } else {
-                // Use currently focused element
-                targetElement = document.activeElement;
-                if (!targetElement || targetElement === document.body) {
-                  return {
-                    success: false,
-                    message: "No element is focused. Please provide a selector or focus an element first.",
-                    elementInfo: { exists: false, visible: false, interactable: false }
-                  };
-                }
-              }
+      const result = await executeInPage(tabId, (
+        selector: string | undefined,
+        keyList: string[],
+        modifierKeys: { ctrl?: boolean; alt?: boolean; shift?: boolean; meta?: boolean }
+      ): PageTypeResult => {
+        try {
+          let targetElement: Element | null;
 
-              // Focus the element
-              targetElement.focus();
-              
-              const keyList = ${JSON.stringify(keys)};
-              const modifierKeys = ${JSON.stringify(finalModifiers)};
-              
-              // Key code mapping
-              const keyCodes = {
-                "Enter": 13, "Tab": 9, "Escape": 27, "Backspace": 8, "Delete": 46,
-                "ArrowUp": 38, "ArrowDown": 40, "ArrowLeft": 37, "ArrowRight": 39,
-                "Home": 36, "End": 35, "PageUp": 33, "PageDown": 34,
-                "F1": 112, "F2": 113, "F3": 114, "F4": 115, "F5": 116, "F6": 117,
-                "F7": 118, "F8": 119, "F9": 120, "F10": 121, "F11": 122, "F12": 123
-              };
-              
-              let successCount = 0;
-              
-              for (const key of keyList) {
-                const keyCode = keyCodes[key];
-                if (!keyCode) continue;
-                
-                // Create keyboard events
-                const keydownEvent = new KeyboardEvent('keydown', {
-                  key: key,
-                  code: key,
-                  keyCode: keyCode,
-                  which: keyCode,
-                  ctrlKey: modifierKeys.ctrl || false,
-                  altKey: modifierKeys.alt || false,
-                  shiftKey: modifierKeys.shift || false,
-                  metaKey: modifierKeys.meta || false,
-                  bubbles: true,
-                  cancelable: true
-                });
-                
-                const keyupEvent = new KeyboardEvent('keyup', {
-                  key: key,
-                  code: key,
-                  keyCode: keyCode,
-                  which: keyCode,
-                  ctrlKey: modifierKeys.ctrl || false,
-                  altKey: modifierKeys.alt || false,
-                  shiftKey: modifierKeys.shift || false,
-                  metaKey: modifierKeys.meta || false,
-                  bubbles: true,
-                  cancelable: true
-                });
-                
-                // Dispatch events
-                targetElement.dispatchEvent(keydownEvent);
-                targetElement.dispatchEvent(keyupEvent);
-                successCount++;
-              }
-              
+          // Find target element
+          if (selector) {
+            targetElement = document.querySelector(selector);
+
+            if (!targetElement) {
               return {
-                success: true,
-                message: \`Successfully sent \${successCount} special keys\`,
-                elementInfo: { exists: true, visible: true, interactable: true }
+                success: false,
+                message: "Element not found: " + selector,
+                elementInfo: { exists: false, visible: false, interactable: false }
               };
-              
-            } catch (error) {
+            }
+          } else {
+            // Use currently focused element
+            targetElement = document.activeElement;
+            if (!targetElement || targetElement === document.body) {
               return {
                 success: false,
-                message: "Send special keys failed: " + error.message
+                message: "No element is focused. Please provide a selector or focus an element first.",
+                elementInfo: { exists: false, visible: false, interactable: false }
               };
             }
-          })();
-        `
-      });
+          }
+
+          // Focus the element
+          (targetElement as HTMLElement).focus();
+
+          // Key code mapping
+          const keyCodes: Record<string, number> = {
+            "Enter": 13, "Tab": 9, "Escape": 27, "Backspace": 8, "Delete": 46,
+            "ArrowUp": 38, "ArrowDown": 40, "ArrowLeft": 37, "ArrowRight": 39,
+            "Home": 36, "End": 35, "PageUp": 33, "PageDown": 34,
+            "F1": 112, "F2": 113, "F3": 114, "F4": 115, "F5": 116, "F6": 117,
+            "F7": 118, "F8": 119, "F9": 120, "F10": 121, "F11": 122, "F12": 123
+          };
+
+          let successCount = 0;
+
+          for (const key of keyList) {
+            const keyCode = keyCodes[key];
+            if (!keyCode) continue;
+
+            // Create keyboard events
+            const keydownEvent = new KeyboardEvent('keydown', {
+              key: key,
+              code: key,
+              keyCode: keyCode,
+              which: keyCode,
+              ctrlKey: modifierKeys.ctrl || false,
+              altKey: modifierKeys.alt || false,
+              shiftKey: modifierKeys.shift || false,
+              metaKey: modifierKeys.meta || false,
+              bubbles: true,
+              cancelable: true
+            });
+
+            const keyupEvent = new KeyboardEvent('keyup', {
+              key: key,
+              code: key,
+              keyCode: keyCode,
+              which: keyCode,
+              ctrlKey: modifierKeys.ctrl || false,
+              altKey: modifierKeys.alt || false,
+              shiftKey: modifierKeys.shift || false,
+              metaKey: modifierKeys.meta || false,
+              bubbles: true,
+              cancelable: true
+            });
+
+            // Dispatch events
+            targetElement.dispatchEvent(keydownEvent);
+            targetElement.dispatchEvent(keyupEvent);
+            successCount++;
+          }
+
+          return {
+            success: true,
+            message: `Successfully sent ${successCount} special keys`,
+            elementInfo: { exists: true, visible: true, interactable: true }
+          };
+
+        } catch (error) {
+          return {
+            success: false,
+            message: "Send special keys failed: " + (error as Error).message
+          };
+        }
+      }, selector, keys, finalModifiers);
 
-      const result = results[0];
       await this.client.sendResourceToServer({
         resource: "type-result",
         correlationId,
         success: result.success,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
         elementInfo: result.elementInfo,
       });
@@ -1899,6 +2902,7 @@ export class MessageHandler {
         correlationId,
         success: false,
         message: `Send special keys failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -1913,126 +2917,121 @@ export class MessageHandler {
     try {
       // Validate input parameters
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}`);
       }
       
       if (!selector || typeof selector !== 'string') {
-        throw new Error('Selector is required and must be a string');
+        throw new CommandError("INVALID_ARGUMENT", 'Selector is required and must be a string');
       }
 
       const finalWaitForElement = Math.max(0, Math.min(waitForElement || 5000, 10000)); // Clamp between 0-10000ms
 
-      const results = await browser.tabs.executeScript(tabId, {
-        code: `
-          (async function() {
-            try {
-              const selectorStr = "${selector}";
-              let targetElement = document.querySelector(selectorStr);
-              
-              if (!targetElement) {
-                // Wait for element if waitForElement is specified
-                if (${finalWaitForElement} > 0) {
-                  const startTime = Date.now();
-                  while (!targetElement && (Date.now() - startTime) < ${finalWaitForElement}) {
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                    targetElement = document.querySelector(selectorStr);
-                  }
-                }
-                
-                if (!targetElement) {
-                  return {
-                    success: false,
-                    message: "Element not found: " + selectorStr,
-                    elementInfo: { exists: false, visible: false, interactable: false }
-                  };
-                }
-              }
-
-              // Check element properties
-              const rect = targetElement.getBoundingClientRect();
-              const isVisible = rect.width > 0 && rect.height > 0 &&
-                               window.getComputedStyle(targetElement).visibility !== 'hidden' &&
-                               window.getComputedStyle(targetElement).display !== 'none';
-              
-              const isInteractable = !targetElement.disabled && !targetElement.readOnly;
-              
-              if (!isVisible) {
-                return {
-                  success: false,
-                  message: "Element is not visible",
-                  elementInfo: { exists: true, visible: false, interactable: isInteractable, boundingRect: rect }
-                };
-              }
-              
-              if (!isInteractable) {
-                return {
-                  success: false,
-                  message: "Element is not interactable (disabled or readonly)",
-                  elementInfo: { exists: true, visible: true, interactable: false, boundingRect: rect }
-                };
+      const result = await executeInPage(tabId, async (selector: string, waitForElement: number): Promise<PageTypeResult> => {
+        try {
+          let targetElement = document.querySelector<HTMLInputElement>(selector);
+
+          if (!targetElement) {
+            // Wait for element if waitForElement is specified
+            if (waitForElement > 0) {
+              const startTime = Date.now();
+              while (!targetElement && (Date.now() - startTime) < waitForElement) {
+                await new Promise(resolve => setTimeout(resolve, 100));
+                targetElement = document.querySelector<HTMLInputElement>(selector);
               }
+            }
 
-              // Focus the element
-              targetElement.focus();
-              
-              // Clear the input field based on element type
-              let wasCleared = false;
-              const originalValue = targetElement.value || targetElement.textContent || '';
-              
-              if (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA') {
-                targetElement.value = '';
-                wasCleared = true;
-              } else if (targetElement.contentEditable === 'true') {
-                targetElement.textContent = '';
-                wasCleared = true;
-              } else {
-                return {
-                  success: false,
-                  message: "Element is not a clearable input field (must be input, textarea, or contenteditable)",
-                  elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
-                };
-              }
-              
-              if (wasCleared) {
-                // Dispatch events to notify of the change
-                targetElement.dispatchEvent(new Event('input', { bubbles: true }));
-                targetElement.dispatchEvent(new Event('change', { bubbles: true }));
-                
-                // Verify the field was actually cleared
-                const newValue = targetElement.value || targetElement.textContent || '';
-                const actuallyCleared = newValue.length === 0;
-                
-                return {
-                  success: actuallyCleared,
-                  message: actuallyCleared
-                    ? \`Successfully cleared input field (was \${originalValue.length} characters)\`
-                    : "Failed to clear input field - value may be controlled by JavaScript",
-                  elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
-                };
-              } else {
-                return {
-                  success: false,
-                  message: "Failed to clear input field",
-                  elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
-                };
-              }
-              
-            } catch (error) {
+            if (!targetElement) {
               return {
                 success: false,
-                message: "Clear input field failed: " + error.message
+                message: "Element not found: " + selector,
+                elementInfo: { exists: false, visible: false, interactable: false }
               };
             }
-          })();
-        `
-      });
+          }
+
+          // Check element properties
+          const rect = targetElement.getBoundingClientRect();
+          const isVisible = rect.width > 0 && rect.height > 0 &&
+                           window.getComputedStyle(targetElement).visibility !== 'hidden' &&
+                           window.getComputedStyle(targetElement).display !== 'none';
+
+          const isInteractable = !targetElement.disabled && !targetElement.readOnly;
+
+          if (!isVisible) {
+            return {
+              success: false,
+              message: "Element is not visible",
+              elementInfo: { exists: true, visible: false, interactable: isInteractable, boundingRect: rect }
+            };
+          }
+
+          if (!isInteractable) {
+            return {
+              success: false,
+              message: "Element is not interactable (disabled or readonly)",
+              elementInfo: { exists: true, visible: true, interactable: false, boundingRect: rect }
+            };
+          }
+
+          // Focus the element
+          targetElement.focus();
+
+          // Clear the input field based on element type
+          let wasCleared = false;
+          const originalValue = targetElement.value || targetElement.textContent || '';
+
+          if (targetElement.tagName === 'INPUT' || targetElement.tagName === 'TEXTAREA') {
+            targetElement.value = '';
+            wasCleared = true;
+          } else if (targetElement.contentEditable === 'true') {
+            targetElement.textContent = '';
+            wasCleared = true;
+          } else {
+            return {
+              success: false,
+              message: "Element is not a clearable input field (must be input, textarea, or contenteditable)",
+              elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
+            };
+          }
+
+          if (wasCleared) {
+            // Dispatch events to notify of the change
+            targetElement.dispatchEvent(new Event('input', { bubbles: true }));
+            targetElement.dispatchEvent(new Event('change', { bubbles: true }));
+
+            // Verify the field was actually cleared
+            const newValue = targetElement.value || targetElement.textContent || '';
+            const actuallyCleared = newValue.length === 0;
+
+            return {
+              success: actuallyCleared,
+              message: actuallyCleared
+                ? `Successfully cleared input field (was ${originalValue.length} characters)`
+                : "Failed to clear input field - value may be controlled by JavaScript",
+              elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
+            };
+          } else {
+            return {
+              success: false,
+              message: "Failed to clear input field",
+              elementInfo: { exists: true, visible: true, interactable: true, boundingRect: rect }
+            };
+          }
+
+        } catch (error) {
+          return {
+            success: false,
+            message: "Clear input field failed: " + (error as Error).message
+          };
+        }
+      }, selector, finalWaitForElement);
 
-      const result = results[0];
       await this.client.sendResourceToServer({
         resource: "type-result",
         correlationId,
         success: result.success,
         message: result.message,
+        errorCode: getResultErrorCode(result),
         timestamp: Date.now(),
         elementInfo: result.elementInfo,
       });
@@ -2043,6 +3042,7 @@ export class MessageHandler {
         correlationId,
         success: false,
         message: `Clear input field failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
       });
     }
@@ -2051,18 +3051,28 @@ export class MessageHandler {
   private async waitForTime(
     correlationId: string,
     duration: number,
-    message?: string
+    message?: string,
+    signal?: AbortSignal
   ): Promise<void> {
     try {
       // Validate duration is within acceptable range (100ms to 30000ms)
       if (duration < 100 || duration > 30000) {
-        throw new Error(`Invalid duration: ${duration}ms. Duration must be between 100ms and 30000ms`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid duration: ${duration}ms. Duration must be between 100ms and 30000ms`);
       }
 
       const startTime = Date.now();
       
-      // Simple promise-based delay
-      await new Promise(resolve => setTimeout(resolve, duration));
+      // Promise-based delay, cut short if the server cancels the request
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        await raceCancellation(
+          new Promise(resolve => { timer = setTimeout(resolve, duration); }),
+          signal,
+          correlationId
+        );
+      } finally {
+        clearTimeout(timer);
+      }
       
       const actualWaitTime = Date.now() - startTime;
       const responseMessage = message
@@ -2079,11 +3089,15 @@ export class MessageHandler {
         waitTime: actualWaitTime,
       });
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       await this.client.sendResourceToServer({
         resource: "wait-result",
         correlationId,
         success: false,
         message: `Wait for time failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
         conditionMet: false,
         waitTime: 0,
@@ -2097,24 +3111,25 @@ export class MessageHandler {
     selector: string,
     timeout: number = 5000,
     pollInterval: number = 100,
-    visible: boolean = false
+    visible: boolean = false,
+    signal?: AbortSignal
   ): Promise<void> {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}`);
       }
 
       if (!selector || typeof selector !== 'string') {
-        throw new Error('Selector is required and must be a string');
+        throw new CommandError("INVALID_ARGUMENT", 'Selector is required and must be a string');
       }
 
       if (timeout < 100 || timeout > 30000) {
-        throw new Error(`Invalid timeout: ${timeout}ms. Timeout must be between 100ms and 30000ms`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid timeout: ${timeout}ms. Timeout must be between 100ms and 30000ms`);
       }
 
       if (pollInterval < 50 || pollInterval > 1000) {
-        throw new Error(`Invalid poll interval: ${pollInterval}ms. Poll interval must be between 50ms and 1000ms`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid poll interval: ${pollInterval}ms. Poll interval must be between 50ms and 1000ms`);
       }
 
       const startTime = Date.now();
@@ -2124,142 +3139,137 @@ export class MessageHandler {
       try {
         tab = await browser.tabs.get(tabId);
       } catch (tabError) {
-        throw new Error(`Tab with ID ${tabId} not found or is not accessible`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab with ID ${tabId} not found or is not accessible`);
       }
 
       if (!tab.url) {
-        throw new Error(`Tab ${tabId} does not have a valid URL`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} does not have a valid URL`);
       }
 
       // Use MutationObserver-based approach for better performance
-      const results = await browser.tabs.executeScript(tabId, {
-        code: `
-        (function() {
-          const selector = ${JSON.stringify(selector)};
-          const timeout = ${timeout};
-          const pollInterval = ${pollInterval};
-          const checkVisible = ${visible};
-          const startTime = Date.now();
-
-          function isElementVisible(element) {
-            if (!element) return false;
-            
-            const style = window.getComputedStyle(element);
-            if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
-              return false;
-            }
-            
-            const rect = element.getBoundingClientRect();
-            return rect.width > 0 && rect.height > 0;
+      const result = await raceCancellation(executeInPage(tabId, (
+        selector: string,
+        timeout: number,
+        pollInterval: number,
+        checkVisible: boolean
+      ) => {
+        const startTime = Date.now();
+
+        function isElementVisible(element: Element | null): boolean {
+          if (!element) return false;
+
+          const style = window.getComputedStyle(element);
+          if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
+            return false;
           }
 
-          function getElementInfo(element) {
-            if (!element) {
-              return { exists: false, visible: false, interactable: false };
-            }
-            
-            const visible = isElementVisible(element);
-            const rect = element.getBoundingClientRect();
-            
-            return {
-              exists: true,
-              visible: visible,
-              interactable: visible && !element.disabled,
-              boundingRect: {
-                x: rect.x,
-                y: rect.y,
-                width: rect.width,
-                height: rect.height,
-                top: rect.top,
-                right: rect.right,
-                bottom: rect.bottom,
-                left: rect.left
-              }
-            };
+          const rect = element.getBoundingClientRect();
+          return rect.width > 0 && rect.height > 0;
+        }
+
+        function getElementInfo(element: Element | null): PageElementInfo {
+          if (!element) {
+            return { exists: false, visible: false, interactable: false };
           }
 
-          return new Promise((resolve) => {
-            // Check if element already exists
-            const existingElement = document.querySelector(selector);
-            if (existingElement && (!checkVisible || isElementVisible(existingElement))) {
+          const visible = isElementVisible(element);
+          const rect = element.getBoundingClientRect();
+
+          return {
+            exists: true,
+            visible: visible,
+            interactable: visible && !(element as HTMLInputElement).disabled,
+            boundingRect: {
+              x: rect.x,
+              y: rect.y,
+              width: rect.width,
+              height: rect.height,
+              top: rect.top,
+              right: rect.right,
+              bottom: rect.bottom,
+              left: rect.left
+            } as DOMRect
+          };
+        }
+
+        return new Promise<PageWaitResult>((resolve) => {
+          // Check if element already exists
+          const existingElement = document.querySelector(selector);
+          if (existingElement && (!checkVisible || isElementVisible(existingElement))) {
+            const waitTime = Date.now() - startTime;
+            resolve({
+              success: true,
+              found: true,
+              waitTime: waitTime,
+              elementInfo: getElementInfo(existingElement)
+            });
+            return;
+          }
+
+          let timeoutId: ReturnType<typeof setTimeout>;
+          let intervalId: ReturnType<typeof setInterval>;
+
+          // Use MutationObserver for better performance
+          const observer = new MutationObserver(() => {
+            const element = document.querySelector(selector);
+            if (element && (!checkVisible || isElementVisible(element))) {
+              clearTimeout(timeoutId);
+              clearInterval(intervalId);
+              observer.disconnect();
+
               const waitTime = Date.now() - startTime;
               resolve({
                 success: true,
                 found: true,
                 waitTime: waitTime,
-                elementInfo: getElementInfo(existingElement)
+                elementInfo: getElementInfo(element)
               });
-              return;
             }
+          });
 
-            let timeoutId;
-            let intervalId;
-
-            // Use MutationObserver for better performance
-            const observer = new MutationObserver((mutations) => {
-              const element = document.querySelector(selector);
-              if (element && (!checkVisible || isElementVisible(element))) {
-                clearTimeout(timeoutId);
-                clearInterval(intervalId);
-                observer.disconnect();
-                
-                const waitTime = Date.now() - startTime;
-                resolve({
-                  success: true,
-                  found: true,
-                  waitTime: waitTime,
-                  elementInfo: getElementInfo(element)
-                });
-              }
-            });
-
-            // Observe for changes in the entire document
-            observer.observe(document.body || document.documentElement, {
-              childList: true,
-              subtree: true,
-              attributes: checkVisible ? true : false,
-              attributeFilter: checkVisible ? ['style', 'class'] : undefined
-            });
-
-            // Fallback polling in case MutationObserver misses something
-            intervalId = setInterval(() => {
-              const element = document.querySelector(selector);
-              if (element && (!checkVisible || isElementVisible(element))) {
-                clearTimeout(timeoutId);
-                clearInterval(intervalId);
-                observer.disconnect();
-                
-                const waitTime = Date.now() - startTime;
-                resolve({
-                  success: true,
-                  found: true,
-                  waitTime: waitTime,
-                  elementInfo: getElementInfo(element)
-                });
-              }
-            }, pollInterval);
+          // Observe for changes in the entire document
+          observer.observe(document.body || document.documentElement, {
+            childList: true,
+            subtree: true,
+            attributes: checkVisible ? true : false,
+            attributeFilter: checkVisible ? ['style', 'class'] : undefined
+          });
 
-            // Timeout handler
-            timeoutId = setTimeout(() => {
+          // Fallback polling in case MutationObserver misses something
+          intervalId = setInterval(() => {
+            const element = document.querySelector(selector);
+            if (element && (!checkVisible || isElementVisible(element))) {
+              clearTimeout(timeoutId);
               clearInterval(intervalId);
               observer.disconnect();
-              
+
               const waitTime = Date.now() - startTime;
-              const element = document.querySelector(selector);
               resolve({
-                success: false,
-                found: false,
+                success: true,
+                found: true,
                 waitTime: waitTime,
-                elementInfo: getElementInfo(element),
-                error: \`Element "\${selector}" not found\${checkVisible ? ' or not visible' : ''} after \${timeout}ms\`
+                elementInfo: getElementInfo(element)
               });
-            }, timeout);
-          });
-        })();
-        `,
-      });
-
-      const result = results[0];
+            }
+          }, pollInterval);
+
+          // Timeout handler
+          timeoutId = setTimeout(() => {
+            clearInterval(intervalId);
+            observer.disconnect();
+
+            const waitTime = Date.now() - startTime;
+            const element = document.querySelector(selector);
+            resolve({
+              success: false,
+              found: false,
+              waitTime: waitTime,
+              elementInfo: getElementInfo(element),
+              error: `Element "${selector}" not found${checkVisible ? ' or not visible' : ''} after ${timeout}ms`
+            });
+          }, timeout);
+        });
+      }, selector, timeout, pollInterval, visible), signal, correlationId);
       const actualWaitTime = Date.now() - startTime;
 
       if (result.success) {
@@ -2279,6 +3289,7 @@ export class MessageHandler {
           correlationId,
           success: false,
           message: result.error || `Element "${selector}" not found after ${timeout}ms`,
+          errorCode: "TIMEOUT",
           timestamp: Date.now(),
           conditionMet: false,
           waitTime: actualWaitTime,
@@ -2286,11 +3297,15 @@ export class MessageHandler {
         });
       }
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       await this.client.sendResourceToServer({
         resource: "wait-result",
         correlationId,
         success: false,
         message: `Wait for element failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
         conditionMet: false,
         waitTime: 0,
@@ -2303,24 +3318,25 @@ export class MessageHandler {
     tabId: number,
     selector: string,
     timeout: number = 5000,
-    threshold: number = 0.1
+    threshold: number = 0.1,
+    signal?: AbortSignal
   ): Promise<void> {
     try {
       // Validate inputs
       if (!Number.isInteger(tabId) || tabId < 0) {
-        throw new Error(`Invalid tab ID: ${tabId}`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid tab ID: ${tabId}`);
       }
 
       if (!selector || typeof selector !== 'string') {
-        throw new Error('Selector is required and must be a string');
+        throw new CommandError("INVALID_ARGUMENT", 'Selector is required and must be a string');
       }
 
       if (timeout < 100 || timeout > 30000) {
-        throw new Error(`Invalid timeout: ${timeout}ms. Timeout must be between 100ms and 30000ms`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid timeout: ${timeout}ms. Timeout must be between 100ms and 30000ms`);
       }
 
       if (threshold < 0 || threshold > 1) {
-        throw new Error(`Invalid threshold: ${threshold}. Threshold must be between 0 and 1`);
+        throw new CommandError("INVALID_ARGUMENT", `Invalid threshold: ${threshold}. Threshold must be between 0 and 1`);
       }
 
       const startTime = Date.now();
@@ -2330,136 +3346,127 @@ export class MessageHandler {
       try {
         tab = await browser.tabs.get(tabId);
       } catch (tabError) {
-        throw new Error(`Tab with ID ${tabId} not found or is not accessible`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab with ID ${tabId} not found or is not accessible`);
       }
 
       if (!tab.url) {
-        throw new Error(`Tab ${tabId} does not have a valid URL`);
+        throw new CommandError("TAB_NOT_FOUND", `Tab ${tabId} does not have a valid URL`);
       }
 
       // Use IntersectionObserver for efficient visibility detection
-      const results = await browser.tabs.executeScript(tabId, {
-        code: `
-        (function() {
-          const selector = ${JSON.stringify(selector)};
-          const timeout = ${timeout};
-          const threshold = ${threshold};
-          const startTime = Date.now();
-
-          function getElementInfo(element) {
-            if (!element) {
-              return { exists: false, visible: false, interactable: false };
-            }
-            
-            const style = window.getComputedStyle(element);
-            const rect = element.getBoundingClientRect();
-            const visible = style.display !== 'none' &&
-                           style.visibility !== 'hidden' &&
-                           style.opacity !== '0' &&
-                           rect.width > 0 && rect.height > 0;
-            
-            return {
-              exists: true,
-              visible: visible,
-              interactable: visible && !element.disabled,
-              boundingRect: {
-                x: rect.x,
-                y: rect.y,
-                width: rect.width,
-                height: rect.height,
-                top: rect.top,
-                right: rect.right,
-                bottom: rect.bottom,
-                left: rect.left
-              }
-            };
+      const result = await raceCancellation(executeInPage(tabId, (selector: string, timeout: number, threshold: number) => {
+        const startTime = Date.now();
+
+        function getElementInfo(element: Element | null): PageElementInfo {
+          if (!element) {
+            return { exists: false, visible: false, interactable: false };
           }
 
-          return new Promise((resolve) => {
-            // Check if element exists first
-            let element = document.querySelector(selector);
-            if (!element) {
-              // Wait for element to exist using MutationObserver
-              const mutationObserver = new MutationObserver(() => {
-                element = document.querySelector(selector);
-                if (element) {
-                  mutationObserver.disconnect();
-                  setupIntersectionObserver();
-                }
-              });
+          const style = window.getComputedStyle(element);
+          const rect = element.getBoundingClientRect();
+          const visible = style.display !== 'none' &&
+                         style.visibility !== 'hidden' &&
+                         style.opacity !== '0' &&
+                         rect.width > 0 && rect.height > 0;
 
-              mutationObserver.observe(document.body || document.documentElement, {
-                childList: true,
-                subtree: true
-              });
+          return {
+            exists: true,
+            visible: visible,
+            interactable: visible && !(element as HTMLInputElement).disabled,
+            boundingRect: {
+              x: rect.x,
+              y: rect.y,
+              width: rect.width,
+              height: rect.height,
+              top: rect.top,
+              right: rect.right,
+              bottom: rect.bottom,
+              left: rect.left
+            } as DOMRect
+          };
+        }
 
-              // Timeout for element existence
-              setTimeout(() => {
+        return new Promise<PageWaitResult>((resolve) => {
+          // Check if element exists first
+          let element = document.querySelector(selector);
+          if (!element) {
+            // Wait for element to exist using MutationObserver
+            const mutationObserver = new MutationObserver(() => {
+              element = document.querySelector(selector);
+              if (element) {
                 mutationObserver.disconnect();
-                const waitTime = Date.now() - startTime;
-                resolve({
-                  success: false,
-                  found: false,
-                  waitTime: waitTime,
-                  elementInfo: getElementInfo(null),
-                  error: \`Element "\${selector}" not found in DOM after \${timeout}ms\`
-                });
-              }, timeout);
-            } else {
-              setupIntersectionObserver();
-            }
-
-            function setupIntersectionObserver() {
-              // Check if already visible
-              const elementInfo = getElementInfo(element);
-              if (elementInfo.visible) {
-                const waitTime = Date.now() - startTime;
-                resolve({
-                  success: true,
-                  found: true,
-                  waitTime: waitTime,
-                  elementInfo: elementInfo
-                });
-                return;
+                setupIntersectionObserver(element);
               }
+            });
 
-              // Use IntersectionObserver for visibility detection
-              const intersectionObserver = new IntersectionObserver((entries) => {
-                entries.forEach(entry => {
-                  if (entry.isIntersecting && entry.intersectionRatio >= threshold) {
-                    intersectionObserver.disconnect();
-                    const waitTime = Date.now() - startTime;
-                    resolve({
-                      success: true,
-                      found: true,
-                      waitTime: waitTime,
-                      elementInfo: getElementInfo(entry.target)
-                    });
-                  }
-                });
-              }, { threshold: threshold });
+            mutationObserver.observe(document.body || document.documentElement, {
+              childList: true,
+              subtree: true
+            });
 
-              intersectionObserver.observe(element);
+            // Timeout for element existence
+            setTimeout(() => {
+              mutationObserver.disconnect();
+              const waitTime = Date.now() - startTime;
+              resolve({
+                success: false,
+                found: false,
+                waitTime: waitTime,
+                elementInfo: getElementInfo(null),
+                error: `Element "${selector}" not found in DOM after ${timeout}ms`
+              });
+            }, timeout);
+          } else {
+            setupIntersectionObserver(element);
+          }
 
-              // Timeout handler
-              setTimeout(() => {
-                intersectionObserver.disconnect();
-                const waitTime = Date.now() - startTime;
-                resolve({
-                  success: false,
-                  found: false,
-                  waitTime: waitTime,
-                  elementInfo: getElementInfo(element),
-                  error: \`Element "\${selector}" not visible (threshold: \${threshold}) after \${timeout}ms\`
-                });
-              }, timeout);
+          function setupIntersectionObserver(element: Element) {
+            // Check if already visible
+            const elementInfo = getElementInfo(element);
+            if (elementInfo.visible) {
+              const waitTime = Date.now() - startTime;
+              resolve({
+                success: true,
+                found: true,
+                waitTime: waitTime,
+                elementInfo: elementInfo
+              });
+              return;
             }
-          });
-        })();
-        `,
-      });
 
-      const result = results[0];
+            // Use IntersectionObserver for visibility detection
+            const intersectionObserver = new IntersectionObserver((entries) => {
+              entries.forEach(entry => {
+                if (entry.isIntersecting && entry.intersectionRatio >= threshold) {
+                  intersectionObserver.disconnect();
+                  const waitTime = Date.now() - startTime;
+                  resolve({
+                    success: true,
+                    found: true,
+                    waitTime: waitTime,
+                    elementInfo: getElementInfo(entry.target)
+                  });
+                }
+              });
+            }, { threshold: threshold });
+
+            intersectionObserver.observe(element);
+
+            // Timeout handler
+            setTimeout(() => {
+              intersectionObserver.disconnect();
+              const waitTime = Date.now() - startTime;
+              resolve({
+                success: false,
+                found: false,
+                waitTime: waitTime,
+                elementInfo: getElementInfo(element),
+                error: `Element "${selector}" not visible (threshold: ${threshold}) after ${timeout}ms`
+              });
+            }, timeout);
+          }
+        });
+      }, selector, timeout, threshold), signal, correlationId);
       const actualWaitTime = Date.now() - startTime;
 
       if (result.success) {
@@ -2479,6 +3486,7 @@ export class MessageHandler {
           correlationId,
           success: false,
           message: result.error || `Element "${selector}" did not become visible after ${timeout}ms`,
+          errorCode: "TIMEOUT",
           timestamp: Date.now(),
           conditionMet: false,
           waitTime: actualWaitTime,
@@ -2486,11 +3494,15 @@ export class MessageHandler {
         });
       }
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       await this.client.sendResourceToServer({
         resource: "wait-result",
         correlationId,
         success: false,
         message: `Wait for element visibility failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: getErrorCode(error),
         timestamp: Date.now(),
         conditionMet: false,
         waitTime: 0,
@@ -0,0 +1,81 @@
+import { ExtensionPayload, ServerTransport } from "./transport";
+
+// Name of the native messaging host installed by the MCP server, see
+// `npm run install-native-host` in mcp-server
+export const NATIVE_HOST_NAME = "browser_control_mcp";
+
+/**
+ * Connection to the MCP server through the native messaging host. The host is
+ * started by the browser and relays the messages to the server over a local
+ * socket, so no port is opened and the payloads don't need to be signed.
+ */
+export class NativeMessagingClient extends ServerTransport {
+  private port: browser.runtime.Port | null = null;
+  private reconnectInterval: number = 5000; // 5 seconds
+  private reconnectTimer: number | null = null;
+  // Set once the server answered on the current connection, the host is
+  // started even if no server is running
+  private serverAnswered: boolean = false;
+
+  public connect(): void {
+    console.log("Connecting to native messaging host");
+
+    this.serverAnswered = false;
+    this.port = browser.runtime.connectNative(NATIVE_HOST_NAME);
+
+    this.port.onMessage.addListener((message: object) => {
+      this.serverAnswered = true;
+      try {
+        this.handleServerPayload(message);
+      } catch (error) {
+        console.error("Failed to handle message:", error);
+      }
+    });
+
+    this.port.onDisconnect.addListener((port) => {
+      if (port.error) {
+        console.error("Native messaging host disconnected:", port.error.message);
+      }
+      this.port = null;
+      this.serverAnswered = false;
+    });
+
+    // The host buffers the hello until it reached the server
+    this.sendHelloToServer().catch((error) => {
+      console.error("Failed to send hello to server:", error);
+    });
+
+    // Start reconnection timer if not already running
+    if (this.reconnectTimer === null) {
+      this.reconnectTimer = self.setInterval(() => {
+        if (this.port === null) {
+          this.connect();
+        }
+      }, this.reconnectInterval);
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.port !== null && this.serverAnswered;
+  }
+
+  protected async sendPayload(payload: ExtensionPayload): Promise<void> {
+    if (!this.port) {
+      console.error("Native messaging host is not connected");
+      return;
+    }
+    this.port.postMessage(payload);
+  }
+
+  public disconnect(): void {
+    if (this.reconnectTimer !== null) {
+      self.clearInterval(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.port) {
+      this.port.disconnect();
+      this.port = null;
+    }
+  }
+}
@@ -8,9 +8,22 @@ import {
   setToolEnabled,
   getDomainDenyList,
   setDomainDenyList,
+  getContainerDomainDenyLists,
+  setContainerDomainDenyLists,
   getScreenshotConfig,
-  setScreenshotConfig
+  setScreenshotConfig,
+  getUrlPolicy,
+  setUrlPolicy,
+  UrlScheme,
+  getBrowserIdentity,
+  setProfileLabel,
+  getPortRange,
+  setPortRange,
+  getTransportType,
+  setTransportType,
+  TransportType
 } from "./extension-config";
+import type { DiscoveredServer } from "./discovery";
 
 const secretDisplay = document.getElementById(
   "secret-display"
@@ -23,6 +36,12 @@ const toolSettingsContainer = document.getElementById(
 const domainDenyListTextarea = document.getElementById(
   "domain-deny-list"
 ) as HTMLTextAreaElement;
+const containerDenyListsSection = document.getElementById(
+  "container-deny-lists"
+) as HTMLDivElement;
+const containerDenyListsContainer = document.getElementById(
+  "container-deny-lists-container"
+) as HTMLDivElement;
 const saveDomainListsButton = document.getElementById(
   "save-domain-lists"
 ) as HTMLButtonElement;
@@ -30,6 +49,23 @@ const domainStatusElement = document.getElementById(
   "domain-status"
 ) as HTMLDivElement;
 
+// URL policy elements
+const urlSchemeCheckboxes = Array.from(
+  document.querySelectorAll<HTMLInputElement>("input.url-scheme")
+);
+const httpHostAllowlistTextarea = document.getElementById(
+  "http-host-allowlist"
+) as HTMLTextAreaElement;
+const fileRootsTextarea = document.getElementById(
+  "file-roots"
+) as HTMLTextAreaElement;
+const saveUrlPolicyButton = document.getElementById(
+  "save-url-policy"
+) as HTMLButtonElement;
+const urlPolicyStatusElement = document.getElementById(
+  "url-policy-status"
+) as HTMLDivElement;
+
 // Screenshot settings elements
 const screenshotFormatSelect = document.getElementById(
   "screenshot-format"
@@ -53,6 +89,54 @@ const screenshotStatusElement = document.getElementById(
   "screenshot-status"
 ) as HTMLDivElement;
 
+// Browser identity elements
+const browserIdDisplay = document.getElementById(
+  "browser-id-display"
+) as HTMLDivElement;
+const profileLabelInput = document.getElementById(
+  "profile-label"
+) as HTMLInputElement;
+const saveProfileLabelButton = document.getElementById(
+  "save-profile-label"
+) as HTMLButtonElement;
+const identityStatusElement = document.getElementById(
+  "identity-status"
+) as HTMLDivElement;
+
+// MCP server discovery elements
+const serverListContainer = document.getElementById(
+  "server-list-container"
+) as HTMLDivElement;
+const portRangeStartInput = document.getElementById(
+  "port-range-start"
+) as HTMLInputElement;
+const portRangeEndInput = document.getElementById(
+  "port-range-end"
+) as HTMLInputElement;
+const savePortRangeButton = document.getElementById(
+  "save-port-range"
+) as HTMLButtonElement;
+const portRangeStatusElement = document.getElementById(
+  "port-range-status"
+) as HTMLDivElement;
+
+// Transport elements
+const transportTypeSelect = document.getElementById(
+  "transport-type"
+) as HTMLSelectElement;
+const extensionIdDisplay = document.getElementById(
+  "extension-id-display"
+) as HTMLElement;
+const saveTransportButton = document.getElementById(
+  "save-transport"
+) as HTMLButtonElement;
+const transportStatusElement = document.getElementById(
+  "transport-status"
+) as HTMLDivElement;
+
+// How often the list of discovered servers is refreshed
+const SERVER_LIST_REFRESH_MS = 2000;
+
 /**
  * Loads the secret from storage and displays it
  */
@@ -114,6 +198,208 @@ async function copyToClipboard(event: MouseEvent) {
   }
 }
 
+/**
+ * Loads the browser identity and displays it
+ */
+async function loadBrowserIdentity() {
+  try {
+    const identity = await getBrowserIdentity();
+    browserIdDisplay.textContent = `${identity.browserId} (${identity.browserName})`;
+    profileLabelInput.value = identity.profileLabel || "";
+  } catch (error) {
+    console.error("Error loading browser identity:", error);
+    browserIdDisplay.textContent =
+      "Error loading browser identity. Please check console for details.";
+    browserIdDisplay.style.color = "red";
+  }
+}
+
+/**
+ * Saves the profile label to storage
+ */
+async function saveProfileLabel(event: MouseEvent) {
+  if (!event.isTrusted) {
+    return;
+  }
+
+  try {
+    await setProfileLabel(profileLabelInput.value.trim());
+
+    // Show success message
+    identityStatusElement.textContent =
+      "Profile label saved. It will be announced on the next connection.";
+    identityStatusElement.style.color = "#4caf50";
+    setTimeout(() => {
+      identityStatusElement.textContent = "";
+      identityStatusElement.style.color = "";
+    }, 3000);
+  } catch (error) {
+    console.error("Error saving profile label:", error);
+    identityStatusElement.textContent = "Failed to save profile label";
+    identityStatusElement.style.color = "red";
+    setTimeout(() => {
+      identityStatusElement.textContent = "";
+      identityStatusElement.style.color = "";
+    }, 3000);
+  }
+}
+
+/**
+ * Asks the background script for the discovered servers and displays them
+ */
+async function refreshServerList() {
+  try {
+    const servers: DiscoveredServer[] = await browser.runtime.sendMessage({
+      type: "get-discovered-servers",
+    });
+
+    serverListContainer.innerHTML = "";
+    if (!servers || servers.length === 0) {
+      const emptyRow = document.createElement("div");
+      emptyRow.className = "tool-description";
+      emptyRow.textContent = "No MCP server found. Is the MCP server running?";
+      serverListContainer.appendChild(emptyRow);
+      return;
+    }
+
+    servers.forEach(server => {
+      const serverRow = document.createElement("div");
+      serverRow.className = "tool-row";
+
+      const labelContainer = document.createElement("div");
+      labelContainer.className = "tool-label-container";
+
+      const serverName = document.createElement("div");
+      serverName.className = "tool-name";
+      serverName.textContent = server.port !== undefined
+        ? `Port ${server.port}`
+        : "Native messaging host";
+
+      const serverDescription = document.createElement("div");
+      serverDescription.className = "tool-description";
+      serverDescription.textContent = server.serverId
+        ? `Server ${server.serverId}, started ${new Date(server.startedAt || 0).toLocaleString()}`
+        : "Unknown server";
+
+      labelContainer.appendChild(serverName);
+      labelContainer.appendChild(serverDescription);
+
+      const status = document.createElement("div");
+      status.className = `server-status-${server.status}`;
+      status.textContent = server.status;
+
+      serverRow.appendChild(labelContainer);
+      serverRow.appendChild(status);
+
+      serverListContainer.appendChild(serverRow);
+    });
+  } catch (error) {
+    console.error("Error loading discovered servers:", error);
+  }
+}
+
+/**
+ * Loads the transport type from storage and displays it, along with the
+ * extension ID needed to install the native messaging host
+ */
+async function loadTransportType() {
+  try {
+    transportTypeSelect.value = await getTransportType();
+    extensionIdDisplay.textContent = browser.runtime.id;
+  } catch (error) {
+    console.error("Error loading transport type:", error);
+  }
+}
+
+/**
+ * Saves the transport type to storage
+ */
+async function saveTransportType(event: MouseEvent) {
+  if (!event.isTrusted) {
+    return;
+  }
+
+  try {
+    await setTransportType(transportTypeSelect.value as TransportType);
+
+    // Show success message
+    transportStatusElement.textContent =
+      "Transport saved. It will be used once the extension is reloaded.";
+    transportStatusElement.style.color = "#4caf50";
+    setTimeout(() => {
+      transportStatusElement.textContent = "";
+      transportStatusElement.style.color = "";
+    }, 3000);
+  } catch (error) {
+    console.error("Error saving transport type:", error);
+    transportStatusElement.textContent = "Failed to save transport";
+    transportStatusElement.style.color = "red";
+    setTimeout(() => {
+      transportStatusElement.textContent = "";
+      transportStatusElement.style.color = "";
+    }, 3000);
+  }
+}
+
+/**
+ * Loads the port range from storage and displays it
+ */
+async function loadPortRange() {
+  try {
+    const portRange = await getPortRange();
+    portRangeStartInput.value = portRange.start.toString();
+    portRangeEndInput.value = portRange.end.toString();
+  } catch (error) {
+    console.error("Error loading port range:", error);
+  }
+}
+
+/**
+ * Saves the port range to storage
+ */
+async function savePortRange(event: MouseEvent) {
+  if (!event.isTrusted) {
+    return;
+  }
+
+  try {
+    const portRange = {
+      start: parseInt(portRangeStartInput.value),
+      end: parseInt(portRangeEndInput.value)
+    };
+
+    // Validate values
+    if (!Number.isInteger(portRange.start) || !Number.isInteger(portRange.end) ||
+        portRange.start < 1024 || portRange.end > 65535) {
+      throw new Error("Ports must be between 1024 and 65535");
+    }
+    if (portRange.start > portRange.end) {
+      throw new Error("The first port must not be greater than the last port");
+    }
+    if (portRange.end - portRange.start >= 100) {
+      throw new Error("The range must not include more than 100 ports");
+    }
+
+    await setPortRange(portRange);
+
+    // Show success message
+    portRangeStatusElement.textContent = "Port range saved successfully!";
+    portRangeStatusElement.style.color = "#4caf50";
+    setTimeout(() => {
+      portRangeStatusElement.textContent = "";
+      portRangeStatusElement.style.color = "";
+    }, 3000);
+  } catch (error) {
+    console.error("Error saving port range:", error);
+    portRangeStatusElement.textContent = `Failed to save port range: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    portRangeStatusElement.style.color = "red";
+    setTimeout(() => {
+      portRangeStatusElement.textContent = "";
+      portRangeStatusElement.style.color = "";
+    }, 3000);
+  }
+}
+
 /**
  * Creates the tool settings UI
  */
@@ -198,6 +484,8 @@ async function loadDomainLists() {
     // Load deny list
     const denyList = await getDomainDenyList();
     domainDenyListTextarea.value = denyList.join('\n');
+
+    await loadContainerDenyLists();
   } catch (error) {
     console.error("Error loading domain lists:", error);
     domainStatusElement.textContent = "Error loading domain lists. Please check console for details.";
@@ -209,6 +497,46 @@ async function loadDomainLists() {
   }
 }
 
+/**
+ * Displays a deny list for each Firefox container. Browsers without
+ * containers keep the section hidden.
+ */
+async function loadContainerDenyLists() {
+  if (!browser.contextualIdentities) {
+    return;
+  }
+  // Rejects when containers are disabled in the browser settings
+  const containers = await browser.contextualIdentities.query({}).catch(() => []);
+  if (containers.length === 0) {
+    return;
+  }
+  const denyLists = await getContainerDomainDenyLists();
+
+  containerDenyListsContainer.innerHTML = "";
+  containers.forEach(container => {
+    const label = document.createElement("label");
+    label.textContent = container.name;
+    label.style.display = "block";
+    label.style.marginTop = "10px";
+
+    const textarea = document.createElement("textarea");
+    textarea.rows = 3;
+    textarea.style.width = "100%";
+    textarea.style.fontFamily = "monospace";
+    textarea.dataset.cookieStoreId = container.cookieStoreId;
+    textarea.value = (denyLists[container.cookieStoreId] || []).join('\n');
+
+    label.appendChild(textarea);
+    containerDenyListsContainer.appendChild(label);
+  });
+  containerDenyListsSection.style.display = "block";
+}
+
+// Splits a textarea's content into lines, trimmed, skipping the empty ones
+function parseLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
 /**
  * Saves the domain lists to storage
  */
@@ -219,11 +547,23 @@ async function saveDomainLists(event: MouseEvent) {
   
   try {
     // Parse deny list (split by newlines and filter out empty lines)
-    const denyListText = domainDenyListTextarea.value.trim();
-    const denyList = denyListText ? denyListText.split('\n').map(domain => domain.trim()).filter(Boolean) : [];
+    const denyList = parseLines(domainDenyListTextarea.value);
+
+    // The lists of the containers that are not displayed are kept
+    const containerDenyLists = await getContainerDomainDenyLists();
+    containerDenyListsContainer.querySelectorAll("textarea").forEach(textarea => {
+      const cookieStoreId = textarea.dataset.cookieStoreId!;
+      const domains = parseLines(textarea.value);
+      if (domains.length > 0) {
+        containerDenyLists[cookieStoreId] = domains;
+      } else {
+        delete containerDenyLists[cookieStoreId];
+      }
+    });
     
     // Save to storage
     await setDomainDenyList(denyList);
+    await setContainerDomainDenyLists(containerDenyLists);
     
     // Show success message
     domainStatusElement.textContent = "Domain deny list saved successfully!";
@@ -243,6 +583,63 @@ async function saveDomainLists(event: MouseEvent) {
   }
 }
 
+/**
+ * Loads the URL policy from storage and displays it
+ */
+async function loadUrlPolicy() {
+  try {
+    const urlPolicy = await getUrlPolicy();
+    urlSchemeCheckboxes.forEach(checkbox => {
+      checkbox.checked = urlPolicy.allowedSchemes.includes(checkbox.value as UrlScheme);
+    });
+    httpHostAllowlistTextarea.value = urlPolicy.httpHostAllowlist.join('\n');
+    fileRootsTextarea.value = urlPolicy.fileRoots.join('\n');
+  } catch (error) {
+    console.error("Error loading URL policy:", error);
+  }
+}
+
+/**
+ * Saves the URL policy to storage
+ */
+async function saveUrlPolicy(event: MouseEvent) {
+  if (!event.isTrusted) {
+    return;
+  }
+
+  try {
+    const fileRoots = parseLines(fileRootsTextarea.value);
+    const relativeRoot = fileRoots.find(root => !root.startsWith("/") && !/^[a-zA-Z]:[\\/]/.test(root));
+    if (relativeRoot) {
+      throw new Error(`Directory "${relativeRoot}" is not an absolute path`);
+    }
+
+    await setUrlPolicy({
+      allowedSchemes: urlSchemeCheckboxes
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => checkbox.value as UrlScheme),
+      httpHostAllowlist: parseLines(httpHostAllowlistTextarea.value),
+      fileRoots
+    });
+
+    // Show success message
+    urlPolicyStatusElement.textContent = "URL policy saved successfully!";
+    urlPolicyStatusElement.style.color = "#4caf50";
+    setTimeout(() => {
+      urlPolicyStatusElement.textContent = "";
+      urlPolicyStatusElement.style.color = "";
+    }, 3000);
+  } catch (error) {
+    console.error("Error saving URL policy:", error);
+    urlPolicyStatusElement.textContent = `Failed to save URL policy: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    urlPolicyStatusElement.style.color = "red";
+    setTimeout(() => {
+      urlPolicyStatusElement.textContent = "";
+      urlPolicyStatusElement.style.color = "";
+    }, 3000);
+  }
+}
+
 /**
  * Loads the screenshot configuration from storage and displays it
  */
@@ -344,14 +741,24 @@ function initializeCollapsibleSections() {
 
 // Initialize the page
 copyButton.addEventListener("click", copyToClipboard);
+saveProfileLabelButton.addEventListener("click", saveProfileLabel);
+saveTransportButton.addEventListener("click", saveTransportType);
+savePortRangeButton.addEventListener("click", savePortRange);
 saveDomainListsButton.addEventListener("click", saveDomainLists);
+saveUrlPolicyButton.addEventListener("click", saveUrlPolicy);
 saveScreenshotSettingsButton.addEventListener("click", saveScreenshotConfig);
 screenshotQualityRange.addEventListener("input", updateQualityDisplay);
 
 document.addEventListener("DOMContentLoaded", () => {
   loadSecret();
+  loadBrowserIdentity();
+  loadTransportType();
+  loadPortRange();
+  refreshServerList();
+  setInterval(refreshServerList, SERVER_LIST_REFRESH_MS);
   createToolSettingsUI();
   loadDomainLists();
+  loadUrlPolicy();
   loadScreenshotConfig();
   initializeCollapsibleSections();
 });
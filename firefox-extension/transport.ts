@@ -0,0 +1,146 @@
+import type {
+  BrowserEvent,
+  BrowserEventExtensionMessage,
+  CancelServerMessage,
+  ErrorCode,
+  ExtensionError,
+  ExtensionHelloMessage,
+  ExtensionMessage,
+  ProgressExtensionMessage,
+  ServerHelloMessage,
+  ServerMessageRequest,
+} from "@browser-control-mcp/common";
+import { MalformedMessageError, parseServerPayload } from "@browser-control-mcp/common";
+import { getBrowserIdentity } from "./extension-config";
+import { SUPPORTED_COMMANDS } from "./message-handler";
+
+// Version of the message protocol implemented by this extension build,
+// announced to the server in the extension hello
+export const PROTOCOL_VERSION = 1;
+
+// Payloads sent to the server
+export type ExtensionPayload =
+  | ExtensionMessage
+  | ExtensionError
+  | ExtensionHelloMessage
+  | ProgressExtensionMessage
+  | BrowserEventExtensionMessage;
+
+// Payloads received from the server
+export type ServerPayload =
+  | ServerMessageRequest
+  | ServerHelloMessage
+  | CancelServerMessage;
+
+/**
+ * Connection to an MCP server. The subclasses move payloads through their
+ * transport (WebSocket, native messaging), while the protocol itself (hello,
+ * cancellation, message types) is handled here, so that the MessageHandler
+ * works the same over every transport.
+ */
+export abstract class ServerTransport {
+  private messageCallback: ((data: ServerMessageRequest) => void) | null = null;
+  private cancelCallback: ((correlationId: string) => void) | null = null;
+  private serverHello: ServerHelloMessage | null = null;
+
+  public abstract connect(): void;
+
+  public abstract disconnect(): void;
+
+  public abstract isConnected(): boolean;
+
+  protected abstract sendPayload(payload: ExtensionPayload): Promise<void>;
+
+  public addMessageListener(
+    callback: (data: ServerMessageRequest) => void
+  ): void {
+    this.messageCallback = callback;
+  }
+
+  // Called when the server cancels an in-flight request
+  public addCancelListener(callback: (correlationId: string) => void): void {
+    this.cancelCallback = callback;
+  }
+
+  // The identity of the server last seen through this transport, if any
+  public getServerHello(): ServerHelloMessage | null {
+    return this.serverHello;
+  }
+
+  // Dispatches a payload received from the server, once the transport has
+  // checked where it comes from. Payloads that do not match the protocol are
+  // dropped, and the request they belong to, if any, fails right away.
+  protected handleServerPayload(received: unknown): void {
+    let payload: ServerPayload;
+    try {
+      payload = parseServerPayload(received);
+    } catch (error) {
+      if (!(error instanceof MalformedMessageError)) {
+        throw error;
+      }
+      console.error(`Rejected server payload: ${error.message}`);
+      if (error.correlationId !== undefined) {
+        this.sendErrorToServer(error.correlationId, error.message, "INVALID_ARGUMENT").catch(
+          (sendError) => console.error("Failed to send error to server:", sendError)
+        );
+      }
+      return;
+    }
+    if (payload.cmd === "server-hello") {
+      this.serverHello = payload;
+      if (payload.protocolVersion !== PROTOCOL_VERSION) {
+        console.warn(
+          `Server ${payload.serverId} speaks protocol version ` +
+          `${payload.protocolVersion}, extension speaks ${PROTOCOL_VERSION}`
+        );
+      }
+      return;
+    }
+    if (payload.cmd === "cancel") {
+      this.cancelCallback?.(payload.correlationId);
+      return;
+    }
+    this.messageCallback?.(payload);
+  }
+
+  protected async sendHelloToServer(): Promise<void> {
+    const identity = await getBrowserIdentity();
+    const hello: ExtensionHelloMessage = {
+      resource: "extension-hello",
+      ...identity,
+      extensionVersion: browser.runtime.getManifest().version,
+      protocolVersion: PROTOCOL_VERSION,
+      supportedCommands: SUPPORTED_COMMANDS,
+    };
+    await this.sendPayload(hello);
+  }
+
+  public async sendResourceToServer(resource: ExtensionMessage): Promise<void> {
+    await this.sendPayload(resource);
+  }
+
+  public async sendProgressToServer(progress: ProgressExtensionMessage): Promise<void> {
+    await this.sendPayload(progress);
+  }
+
+  public async sendEventToServer(event: BrowserEvent): Promise<void> {
+    await this.sendPayload({
+      resource: "browser-event",
+      event,
+      timestamp: Date.now(),
+    });
+  }
+
+  public async sendErrorToServer(
+    correlationId: string,
+    errorMessage: string,
+    errorCode?: ErrorCode
+  ): Promise<void> {
+    const extensionError: ExtensionError = {
+      correlationId,
+      errorMessage: errorMessage,
+      errorCode,
+    };
+    await this.sendPayload(extensionError);
+  }
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConfigError, loadConfig } from "../config";
+
+describe("loadConfig", () => {
+  let tempDir: string;
+
+  function writeConfigFile(name: string, text: string) {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  }
+
+  function loadError(argv: string[], env: NodeJS.ProcessEnv = {}) {
+    try {
+      loadConfig(argv, env);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      return (error as Error).message;
+    }
+    throw new Error("Expected the configuration to be rejected");
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "browser-control-mcp-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should apply the defaults", () => {
+    const config = loadConfig(["--secret", "flag-secret"], {});
+
+    expect(config).toMatchObject({
+      secret: "flag-secret",
+      extensionTransport: "websocket",
+      portRange: { start: 8081, end: 8090 },
+      timeouts: { defaultMs: 1000, screenshotMs: 30000 },
+      logLevel: "info",
+      mcpTransport: "stdio",
+    });
+  });
+
+  it("should let the flags override the environment and the environment override the file", () => {
+    const file = writeConfigFile(
+      "config.yaml",
+      "secret: file-secret\nlogLevel: debug\nmaxContentLength: 100\ntimeouts:\n  defaultMs: 2000\n"
+    );
+
+    const config = loadConfig(["--config", file, "--log-level", "error"], {
+      LOG_LEVEL: "warn",
+      EXTENSION_SECRET: "env-secret",
+    });
+
+    expect(config.logLevel).toBe("error");
+    expect(config.secret).toBe("env-secret");
+    expect(config.maxContentLength).toBe(100);
+    expect(config.timeouts.defaultMs).toBe(2000);
+  });
+
+  it("should read the config file given in the environment", () => {
+    const file = writeConfigFile("config.json", JSON.stringify({ secret: "file-secret" }));
+
+    expect(loadConfig([], { BROWSER_CONTROL_MCP_CONFIG: file }).secret).toBe("file-secret");
+  });
+
+  it("should let a secret file given on the command line override the secret of the file", () => {
+    const secretFile = writeConfigFile("secret.txt", "file-secret\n");
+    const file = writeConfigFile("config.json", JSON.stringify({ secret: "stale-secret" }));
+
+    const config = loadConfig(["--config", file, "--secret-file", secretFile], {});
+
+    expect(config.secret).toBe("file-secret");
+  });
+
+  it("should let a secret in the environment override the secret file of the file", () => {
+    writeConfigFile("secret.txt", "file-secret\n");
+    const file = writeConfigFile("config.json", JSON.stringify({ secretFile: "secret.txt" }));
+
+    const config = loadConfig(["--config", file], { EXTENSION_SECRET: "env-secret" });
+
+    expect(config.secret).toBe("env-secret");
+    expect(config.secretFile).toBeUndefined();
+  });
+
+  it("should resolve the paths of the config file relative to it", () => {
+    writeConfigFile("secret.txt", "file-secret\n");
+    const file = writeConfigFile(
+      "config.json",
+      JSON.stringify({ secretFile: "secret.txt", screenshotDir: "shots", sessionDir: "/var/sessions" })
+    );
+
+    const config = loadConfig(["--config", path.relative(process.cwd(), file)], {});
+
+    expect(config.secret).toBe("file-secret");
+    expect(config.screenshotDir).toBe(path.join(tempDir, "shots"));
+    expect(config.sessionDir).toBe("/var/sessions");
+  });
+
+  it("should parse the port range", () => {
+    const config = loadConfig(["--secret", "flag-secret", "--port-range", "9000-9005"], {});
+
+    expect(config.portRange).toEqual({ start: 9000, end: 9005 });
+  });
+
+  it.each([
+    ["9000", "--port-range: expected <start>-<end>, e.g. 8081-8090"],
+    ["9005-9000", "portRange: start must not be greater than end"],
+    ["9000-9100", "portRange: must not include more than 100 ports"],
+    ["80-90", "portRange.start: Number must be greater than or equal to 1024"],
+  ])("should reject the port range %s", (portRange, message) => {
+    expect(loadError(["--secret", "flag-secret", "--port-range", portRange])).toContain(message);
+  });
+
+  it("should list the invalid settings with the config file they come from", () => {
+    const file = writeConfigFile("config.json", JSON.stringify({ logLevel: "loud", unknownSetting: 1 }));
+
+    const message = loadError(["--config", file, "--timeout", "0"]);
+
+    expect(message).toContain(`Invalid configuration (config file ${file}):`);
+    expect(message).toContain("  logLevel: ");
+    expect(message).toContain("Unrecognized key(s) in object: 'unknownSetting'");
+    expect(message).toContain("  timeouts.defaultMs: Number must be greater than 0");
+  });
+
+  it("should require a secret for the websocket transport", () => {
+    expect(loadError([])).toContain("  secret: secret or secretFile is required by the websocket extension transport");
+  });
+
+  it("should require an auth token for the http transport", () => {
+    expect(loadError(["--secret", "flag-secret", "--mcp-transport", "http"])).toContain(
+      "  http.authToken: required by the http MCP transport"
+    );
+  });
+
+  it("should reject an empty or missing secret file", () => {
+    const emptyFile = writeConfigFile("empty.txt", "\n");
+
+    expect(loadError(["--secret-file", emptyFile])).toContain(`secretFile: ${emptyFile} is empty`);
+    expect(loadError(["--secret-file", path.join(tempDir, "missing.txt")])).toContain("secretFile: cannot read");
+  });
+
+  it("should reject the unknown flags", () => {
+    expect(loadError(["--secrets", "flag-secret"])).toContain("Invalid command line:");
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  EnvelopeError,
+  MAX_ENVELOPE_AGE_MS,
+  ReplayGuard,
+  signEnvelope,
+  verifyEnvelope,
+} from "../envelope";
+
+const SECRET = "test-secret";
+
+function getRejectionReason(verify: () => unknown) {
+  try {
+    verify();
+  } catch (error) {
+    expect(error).toBeInstanceOf(EnvelopeError);
+    return (error as EnvelopeError).reason;
+  }
+  throw new Error("Expected the envelope to be rejected");
+}
+
+describe("verifyEnvelope", () => {
+  let replayGuard: ReplayGuard;
+
+  beforeEach(() => {
+    replayGuard = new ReplayGuard();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the envelopes signed with the secret", () => {
+    const envelope = signEnvelope({ resource: "tabs", tabs: [] }, SECRET);
+
+    expect(verifyEnvelope(envelope, SECRET, replayGuard)).toEqual(envelope);
+  });
+
+  it.each([null, "frame", { payload: { resource: "tabs" }, nonce: "nonce", issuedAt: "now", signature: "0" }])(
+    "should reject %p as malformed",
+    (frame) => {
+      expect(getRejectionReason(() => verifyEnvelope(frame, SECRET, replayGuard))).toBe("malformed");
+    }
+  );
+
+  it("should reject the envelopes signed with another secret", () => {
+    const envelope = signEnvelope({ resource: "tabs", tabs: [] }, "other-secret");
+
+    expect(getRejectionReason(() => verifyEnvelope(envelope, SECRET, replayGuard))).toBe("invalid-signature");
+  });
+
+  it("should reject a replayed envelope as a duplicate", () => {
+    const envelope = signEnvelope({ resource: "tabs", tabs: [] }, SECRET);
+    verifyEnvelope(envelope, SECRET, replayGuard);
+
+    expect(getRejectionReason(() => verifyEnvelope(envelope, SECRET, replayGuard))).toBe("duplicate");
+  });
+
+  it("should reject the envelopes issued outside the accepted window as stale", () => {
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now - MAX_ENVELOPE_AGE_MS - 1);
+    const old = signEnvelope({ resource: "tabs", tabs: [] }, SECRET);
+    jest.spyOn(Date, "now").mockReturnValue(now + MAX_ENVELOPE_AGE_MS + 1);
+    const future = signEnvelope({ resource: "tabs", tabs: [] }, SECRET);
+    jest.spyOn(Date, "now").mockReturnValue(now);
+
+    expect(getRejectionReason(() => verifyEnvelope(old, SECRET, replayGuard))).toBe("stale");
+    expect(getRejectionReason(() => verifyEnvelope(future, SECRET, replayGuard))).toBe("stale");
+  });
+});
+
+describe("ReplayGuard", () => {
+  it("should forget the nonces once their envelope is out of the window", () => {
+    const replayGuard = new ReplayGuard();
+    const issuedAt = Date.now();
+    const later = issuedAt + MAX_ENVELOPE_AGE_MS + 1;
+    replayGuard.check("nonce", issuedAt, issuedAt);
+
+    // Still remembered at the end of the window
+    expect(() => replayGuard.check("nonce", issuedAt, issuedAt + MAX_ENVELOPE_AGE_MS)).toThrow("already used");
+    // Pruned after it, so that the guard doesn't grow forever
+    expect(() => replayGuard.check("nonce", later, later)).not.toThrow();
+  });
+});
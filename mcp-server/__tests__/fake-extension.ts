@@ -0,0 +1,352 @@
+import WebSocket from "ws";
+import type {
+  BrowserBookmark,
+  BrowserEvent,
+  BrowserWindow,
+  ErrorCode,
+  ExtensionMessage,
+  ServerHelloMessage,
+  ServerMessage,
+  ServerMessageRequest,
+} from "@browser-control-mcp/common";
+import { ReplayGuard, signEnvelope, verifyEnvelope } from "../envelope";
+import type { ServerPayload } from "../transport";
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+// What the fake extension answers to a command: a response, an error frame,
+// or nothing at all (undefined) to let the request time out
+export type FakeResponse =
+  | DistributiveOmit<ExtensionMessage, "correlationId">
+  | { errorMessage: string; errorCode?: ErrorCode }
+  | undefined;
+
+export type FakeResponder<C extends ServerMessage["cmd"]> = (
+  request: Extract<ServerMessageRequest, { cmd: C }>
+) => FakeResponse;
+
+type FakeResponders = { [C in ServerMessage["cmd"]]: FakeResponder<C> };
+
+// A 1x1 transparent PNG
+export const FAKE_PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+// Successful responses to every command, which the tests override as needed
+const DEFAULT_RESPONDERS: FakeResponders = {
+  "open-tab": () => ({ resource: "opened-tab-id", tabId: 1 }),
+  "close-tabs": () => ({ resource: "tabs-closed" }),
+  "get-tab-list": () => ({
+    resource: "tabs",
+    tabs: [{ id: 1, url: "https://example.com/", title: "Example Domain", lastAccessed: Date.now() }],
+  }),
+  "get-browser-recent-history": () => ({
+    resource: "history",
+    historyItems: [{ url: "https://example.com/", title: "Example Domain", lastVisitTime: Date.now() }],
+  }),
+  "get-tab-content": (request) => ({
+    resource: "tab-content",
+    tabId: request.tabId,
+    fullText: "Example Domain",
+    isTruncated: false,
+    totalLength: 14,
+    links: [],
+  }),
+  "reorder-tabs": (request) => ({ resource: "tabs-reordered", tabOrder: request.tabOrder }),
+  "update-tab": (request) => ({
+    resource: "tab",
+    tab: {
+      id: request.tabId,
+      url: "https://example.com/",
+      title: "Example Domain",
+      active: request.active ?? false,
+      pinned: request.pinned ?? false,
+      mutedInfo: { muted: request.muted ?? false },
+    },
+  }),
+  "discard-tabs": (request) => ({
+    resource: "tabs-discarded",
+    tabs: request.tabIds.map((id) => ({ id, discarded: true })),
+  }),
+  "duplicate-tab": () => ({
+    resource: "tab",
+    tab: { id: 2, url: "https://example.com/", title: "Example Domain", active: true },
+  }),
+  "get-container-list": () => ({
+    resource: "containers",
+    containers: [{ cookieStoreId: "firefox-container-1", name: "Personal", color: "blue", icon: "fingerprint" }],
+  }),
+  "get-window-list": () => ({ resource: "windows", windows: [fakeWindow(1)] }),
+  "create-window": (request) => ({
+    resource: "window",
+    window: { ...fakeWindow(2), type: request.type, width: request.width, height: request.height },
+  }),
+  "restore-session": (request) => ({
+    resource: "session-restored",
+    window: { ...fakeWindow(3), tabCount: request.tabs.length },
+    tabs: request.tabs.map(({ url, title }, index) => ({ id: 10 + index, url, title, windowId: 3, index })),
+    skipped: [],
+  }),
+  "focus-window": (request) => ({ resource: "window", window: fakeWindow(request.windowId) }),
+  "minimize-window": (request) => ({
+    resource: "window",
+    window: { ...fakeWindow(request.windowId), state: "minimized", focused: false },
+  }),
+  "close-window": (request) => ({ resource: "window-closed", windowId: request.windowId }),
+  "move-tabs": (request) => ({
+    resource: "tabs-moved",
+    tabs: request.tabIds.map((id, offset) => ({
+      id,
+      windowId: request.windowId,
+      index: (request.index ?? 1) + offset,
+    })),
+  }),
+  "navigate-tab": (request) => ({
+    resource: "navigation-result",
+    tabId: request.tabId,
+    url: request.url,
+    title: "Example Domain",
+    status: request.waitForLoad ? "complete" : "loading",
+    httpStatus: request.waitForLoad ? 200 : undefined,
+  }),
+  "go-back": (request) => fakeNavigation(request.tabId),
+  "go-forward": (request) => fakeNavigation(request.tabId),
+  "reload-tab": (request) => fakeNavigation(request.tabId),
+  "search-bookmarks": () => ({ resource: "bookmarks", bookmarks: [fakeBookmark("b1")] }),
+  "get-bookmark-tree": () => ({
+    resource: "bookmarks",
+    bookmarks: [
+      { id: "f1", title: "Research", type: "folder", depth: 0, createdByAgent: false },
+      { ...fakeBookmark("b1"), parentId: "f1", depth: 1 },
+    ],
+  }),
+  "create-bookmark": (request) => ({
+    resource: "bookmark",
+    bookmark: { ...fakeBookmark("b2"), title: request.title, url: request.url, createdByAgent: true },
+  }),
+  "create-bookmark-folder": (request) => ({
+    resource: "bookmark",
+    bookmark: { id: "f2", title: request.folderPath[request.folderPath.length - 1], type: "folder", createdByAgent: true },
+  }),
+  "remove-bookmarks": (request) => ({ resource: "bookmarks-removed", bookmarkIds: request.bookmarkIds }),
+  "find-highlight": () => ({ resource: "find-highlight-result", noOfResults: 1 }),
+  "take-screenshot": (request) => ({
+    resource: "screenshot",
+    tabId: request.tabId,
+    imageData: FAKE_PNG_BASE64,
+    format: request.format ?? "png",
+    timestamp: Date.now(),
+  }),
+  "scroll-to-position": (request) => scrollResult(request.x ?? 0, request.y),
+  "scroll-by-offset": (request) => scrollResult(request.deltaX ?? 0, request.deltaY),
+  "scroll-to-element": () => scrollResult(0, 100),
+  "click-at-coordinates": () => clickResult(),
+  "click-element": () => clickResult(),
+  "hover-element": () => ({
+    resource: "hover-result",
+    success: true,
+    elementFound: true,
+    message: "Hovered",
+    timestamp: Date.now(),
+  }),
+  "type-text": (request) => typeResult(request.text.length),
+  "send-special-keys": () => typeResult(),
+  "clear-input-field": () => typeResult(),
+  "wait-for-time": (request) => waitResult(request.duration),
+  "wait-for-element": () => waitResult(0),
+  "wait-for-element-visibility": () => waitResult(0),
+  "wait-for-condition": () => ({
+    errorMessage: "wait-for-condition is disabled for security reasons",
+    errorCode: "TOOL_DISABLED",
+  }),
+};
+
+function fakeBookmark(id: string): BrowserBookmark {
+  return { id, title: "Example Domain", url: "https://example.com/", type: "bookmark", createdByAgent: false };
+}
+
+function fakeWindow(id: number): BrowserWindow {
+  return {
+    id,
+    type: "normal",
+    state: "normal",
+    focused: true,
+    incognito: false,
+    left: 0,
+    top: 0,
+    width: 1280,
+    height: 800,
+    tabCount: 1,
+  };
+}
+
+function fakeNavigation(tabId: number): FakeResponse {
+  return {
+    resource: "navigation-result",
+    tabId,
+    url: "https://example.com/",
+    title: "Example Domain",
+    status: "complete",
+    httpStatus: 200,
+  };
+}
+
+function scrollResult(x: number, y: number): FakeResponse {
+  return {
+    resource: "scroll-result",
+    success: true,
+    finalPosition: { x, y },
+    message: "Scrolled",
+    timestamp: Date.now(),
+  };
+}
+
+function clickResult(): FakeResponse {
+  return {
+    resource: "click-result",
+    success: true,
+    elementFound: true,
+    clickExecuted: true,
+    message: "Clicked",
+    timestamp: Date.now(),
+  };
+}
+
+function typeResult(charactersTyped?: number): FakeResponse {
+  return {
+    resource: "type-result",
+    success: true,
+    message: "Typed",
+    timestamp: Date.now(),
+    charactersTyped,
+  };
+}
+
+function waitResult(waitTime: number): FakeResponse {
+  return {
+    resource: "wait-result",
+    success: true,
+    message: "Waited",
+    timestamp: Date.now(),
+    conditionMet: true,
+    waitTime,
+  };
+}
+
+export interface FakeExtensionOptions {
+  port: number;
+  secret: string;
+  browserId?: string;
+  browserName?: string;
+  // Commands announced in the hello, all of them by default
+  supportedCommands?: string[];
+}
+
+/**
+ * Stands in for the browser extension in the server tests: connects to the
+ * BrowserAPI over a real WebSocket, signs its frames with the shared secret
+ * like the extension does, and answers every command with a scripted
+ * response.
+ */
+export class FakeExtension {
+  // Commands received from the server, in order
+  readonly requests: ServerMessageRequest[] = [];
+  // Cancellations received from the server, by correlationId
+  readonly cancelled: string[] = [];
+  serverHello: ServerHelloMessage | undefined;
+
+  private ws: WebSocket | null = null;
+  private readonly replayGuard: ReplayGuard = new ReplayGuard();
+  private readonly responders: Partial<FakeResponders> = {};
+
+  constructor(private readonly options: FakeExtensionOptions) {}
+
+  // Opens the connection and says hello once the server did
+  async connect(): Promise<void> {
+    const ws = new WebSocket(`ws://localhost:${this.options.port}`);
+    this.ws = ws;
+    await new Promise<void>((resolve, reject) => {
+      ws.once("error", reject);
+      ws.on("message", (data) => {
+        const payload = this.handleFrame(data.toString());
+        if (payload?.cmd === "server-hello") {
+          ws.off("error", reject);
+          resolve();
+        }
+      });
+    });
+    this.send({
+      resource: "extension-hello",
+      browserId: this.options.browserId ?? "fake-browser",
+      browserName: this.options.browserName ?? "Fake Browser 1.0",
+      extensionVersion: "0.0.0-test",
+      protocolVersion: 1,
+      supportedCommands:
+        this.options.supportedCommands ?? Object.keys(DEFAULT_RESPONDERS),
+    });
+  }
+
+  // Scripts the response to a command, until the next call
+  respondTo<C extends ServerMessage["cmd"]>(cmd: C, responder: FakeResponder<C>) {
+    (this.responders as Record<string, unknown>)[cmd] = responder;
+  }
+
+  // Sends a payload in an envelope signed with the given secret, the shared
+  // one by default
+  send(payload: object, secret: string = this.options.secret) {
+    this.sendRaw(JSON.stringify(signEnvelope(payload, secret)));
+  }
+
+  // Sends a frame as is, e.g. one that is not a signed envelope
+  sendRaw(frame: string) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error("Fake extension is not connected");
+    }
+    this.ws.send(frame);
+  }
+
+  sendEvent(event: BrowserEvent) {
+    this.send({ resource: "browser-event", event, timestamp: Date.now() });
+  }
+
+  async close() {
+    const ws = this.ws;
+    this.ws = null;
+    if (!ws || ws.readyState === WebSocket.CLOSED) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      ws.once("close", () => resolve());
+      ws.close();
+    });
+  }
+
+  private handleFrame(frame: string): ServerPayload | undefined {
+    // Frames that fail verification throw, failing the test
+    const { payload } = verifyEnvelope(JSON.parse(frame), this.options.secret, this.replayGuard);
+    const serverPayload = payload as ServerPayload;
+    switch (serverPayload.cmd) {
+      case "server-hello":
+        this.serverHello = serverPayload;
+        break;
+      case "cancel":
+        this.cancelled.push(serverPayload.correlationId);
+        break;
+      default:
+        this.requests.push(serverPayload);
+        this.respond(serverPayload);
+    }
+    return serverPayload;
+  }
+
+  private respond(request: ServerMessageRequest) {
+    const responder = (this.responders[request.cmd] ?? DEFAULT_RESPONDERS[request.cmd]) as (
+      request: ServerMessageRequest
+    ) => FakeResponse;
+    const response = responder(request);
+    // Requests may still arrive while the connection closes, e.g. the one
+    // the server sends to load the tabs of a newly connected browser
+    if (response !== undefined && this.ws?.readyState === WebSocket.OPEN) {
+      this.send({ ...response, correlationId: request.correlationId });
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { BrowserAPI } from "../browser-api";
+import { createMcpSession } from "../server";
+
+export async function waitFor(condition: () => boolean, timeoutMs: number = 2000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+// Connects an MCP client to the tools of server.ts over an in-memory transport
+export async function connectMcpClient(browserApi: BrowserAPI): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([
+    createMcpSession(browserApi).server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return client;
+}
+
+// The text contents of a tool result, one per line
+export function textOf(result: Awaited<ReturnType<Client["callTool"]>>): string {
+  return (result.content as { type: string; text?: string }[])
+    .map((content) => content.text ?? "")
+    .join("\n");
+}
@@ -0,0 +1,160 @@
+import type { AddressInfo } from "net";
+import type * as http from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { BrowserAPI } from "../browser-api";
+import { WebSocketTransport } from "../websocket-transport";
+import { serveHttp } from "../mcp-http";
+import { createMcpSession } from "../server";
+import { setLogLevel } from "../logger";
+import { FakeExtension } from "./fake-extension";
+import { textOf, waitFor } from "./helpers";
+
+const SECRET = "test-secret";
+const AUTH_TOKEN = "test-token";
+const PORT_RANGE = { start: 18181, end: 18190 };
+const INITIALIZE_REQUEST = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+};
+
+describe("MCP over HTTP", () => {
+  let browserApi: BrowserAPI;
+  let extension: FakeExtension;
+  let httpServer: http.Server;
+  let url: URL;
+  const clients: Client[] = [];
+
+  beforeAll(() => {
+    setLogLevel("error");
+  });
+
+  async function startServer(sessionIdleTimeoutMs?: number) {
+    httpServer = await serveHttp({
+      host: "127.0.0.1",
+      // Any free port
+      port: 0,
+      authToken: AUTH_TOKEN,
+      createServer: () => createMcpSession(browserApi).server,
+      sessionIdleTimeoutMs,
+    });
+    url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+  }
+
+  async function connectClient() {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${AUTH_TOKEN}` } },
+    });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  function post(body: unknown, headers: Record<string, string>) {
+    return fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    browserApi = new BrowserAPI(new WebSocketTransport(SECRET, PORT_RANGE), {
+      screenshotDir: null,
+      sessionDir: null,
+      timeouts: { defaultMs: 2000, screenshotMs: 2000 },
+      maxContentLength: 1000,
+    });
+    await browserApi.init();
+    extension = new FakeExtension({ port: browserApi.getSelectedPort()!, secret: SECRET });
+    await extension.connect();
+    await waitFor(() => browserApi.getConnectedBrowsers().length === 1);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await extension.close();
+    browserApi.close();
+  });
+
+  it.each([
+    ["no", {}],
+    ["a wrong", { Authorization: "Bearer wrong-token" }],
+  ])("should reject the requests with %s bearer token", async (_, headers) => {
+    await startServer();
+
+    const response = await post(INITIALIZE_REQUEST, headers);
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+  });
+
+  it("should reject an unknown session ID", async () => {
+    await startServer();
+
+    const response = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { Authorization: `Bearer ${AUTH_TOKEN}`, "mcp-session-id": "unknown-session" }
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: { code: -32001, message: "Session not found" } });
+  });
+
+  it("should only cancel the requests of the session that closes", async () => {
+    await startServer();
+    extension.respondTo("open-tab", () => undefined);
+    const first = await connectClient();
+    const second = await connectClient();
+    const firstAbort = new AbortController();
+
+    first.client
+      .callTool({ name: "open-browser-tab", arguments: { url: "https://first.example/" } }, undefined, {
+        signal: firstAbort.signal,
+      })
+      .catch(() => {});
+    const secondResult = second.client.callTool({ name: "open-browser-tab", arguments: { url: "https://second.example/" } });
+    await waitFor(() => extension.requests.filter((request) => request.cmd === "open-tab").length === 2);
+    const [firstRequest, secondRequest] = ["https://first.example/", "https://second.example/"].map(
+      (tabUrl) => extension.requests.find((request) => request.cmd === "open-tab" && request.url === tabUrl)!
+    );
+    await first.transport.terminateSession();
+    await waitFor(() => extension.cancelled.includes(firstRequest.correlationId));
+    extension.send({ resource: "opened-tab-id", tabId: 42, correlationId: secondRequest.correlationId });
+
+    expect(textOf(await secondResult)).toBe("https://second.example/ opened in tab id 42");
+    expect(extension.cancelled).toEqual([firstRequest.correlationId]);
+    // The closed session never answers, this clears the timeout of the client
+    firstAbort.abort();
+  });
+
+  it("should close the sessions that stay idle", async () => {
+    await startServer(50);
+    const response = await post(INITIALIZE_REQUEST, { Authorization: `Bearer ${AUTH_TOKEN}` });
+    const sessionId = response.headers.get("mcp-session-id")!;
+    await response.text();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const afterIdle = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { Authorization: `Bearer ${AUTH_TOKEN}`, "mcp-session-id": sessionId }
+    );
+
+    expect(afterIdle.status).toBe(404);
+  });
+
+  it("should keep the idle sessions that have a stream open", async () => {
+    await startServer(50);
+    const { client } = await connectClient();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const result = await client.callTool({ name: "list-connected-browsers", arguments: {} });
+
+    expect(textOf(result)).toContain("browser id=fake-browser");
+  });
+});
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BrowserAPI } from "../browser-api";
+import { WebSocketTransport } from "../websocket-transport";
+import { RecordingTransport, ReplayTransport, readRecording } from "../recording";
+import { setLogLevel } from "../logger";
+import { FakeExtension } from "./fake-extension";
+import { connectMcpClient, textOf, waitFor } from "./helpers";
+
+const SECRET = "test-secret";
+const PORT_RANGE = { start: 18181, end: 18190 };
+const OPTIONS = {
+  screenshotDir: null,
+  sessionDir: null,
+  timeouts: { defaultMs: 300, screenshotMs: 500 },
+  maxContentLength: 1000,
+};
+
+describe("Recording and replay", () => {
+  let tempDir: string;
+  let recordFile: string;
+  // Tool results of the recorded run
+  let recorded: Record<string, string>;
+
+  beforeAll(async () => {
+    setLogLevel("error");
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "browser-control-mcp-test-"));
+    recordFile = path.join(tempDir, "recording.jsonl");
+
+    const browserApi = new BrowserAPI(
+      new RecordingTransport(new WebSocketTransport(SECRET, PORT_RANGE), recordFile),
+      OPTIONS
+    );
+    await browserApi.init();
+    const extension = new FakeExtension({ port: browserApi.getSelectedPort()!, secret: SECRET });
+    extension.respondTo("find-highlight", (request) => ({
+      resource: "find-highlight-result",
+      noOfResults: request.queryPhrase.length,
+    }));
+    extension.respondTo("get-tab-content", (request) => ({
+      errorMessage: `Tab ${request.tabId} not found`,
+      errorCode: "TAB_NOT_FOUND",
+    }));
+    await extension.connect();
+    await waitFor(() => browserApi.getConnectedBrowsers().length === 1);
+    const client = await connectMcpClient(browserApi);
+
+    recorded = {};
+    for (const [key, name, args] of [
+      ["tabs", "get-list-of-open-tabs", {}],
+      ["find-a", "find-highlight-in-browser-tab", { tabId: 1, queryPhrase: "a" }],
+      ["find-bbb", "find-highlight-in-browser-tab", { tabId: 1, queryPhrase: "bbb" }],
+      ["content", "get-tab-web-content", { tabId: 9 }],
+    ] as const) {
+      recorded[key] = textOf(await client.callTool({ name, arguments: args }));
+    }
+
+    await extension.close();
+    // The disconnection is the last entry, written after all the others
+    await waitFor(() => fs.readFileSync(recordFile, "utf8").includes('"type":"disconnect"'));
+    await client.close();
+    browserApi.close();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should record the payloads exchanged with the extension", () => {
+    const entries = readRecording(recordFile);
+
+    expect(entries[0]).toMatchObject({ type: "connect", connection: 1 });
+    expect(entries[entries.length - 1]).toMatchObject({ type: "disconnect", connection: 1 });
+    const sent = entries.filter((entry) => entry.type === "sent").map((entry: any) => entry.payload);
+    expect(sent.map((payload) => payload.cmd)).toEqual([
+      "server-hello",
+      // Sent by the server when the browser connects
+      "get-tab-list",
+      "get-tab-list",
+      "find-highlight",
+      "find-highlight",
+      "get-tab-content",
+    ]);
+    const received = entries.filter((entry) => entry.type === "received").map((entry: any) => entry.payload);
+    expect(received[0]).toMatchObject({ resource: "extension-hello", browserId: "fake-browser" });
+    expect(received).toContainEqual({
+      correlationId: sent[5].correlationId,
+      errorMessage: "Tab 9 not found",
+      errorCode: "TAB_NOT_FOUND",
+    });
+    // Times are increasing, from the start of the recording
+    const times = entries.map((entry) => entry.time);
+    expect([...times].sort((a, b) => a - b)).toEqual(times);
+    expect(fs.readFileSync(recordFile, "utf8")).not.toContain("signature");
+  });
+
+  describe("replay", () => {
+    let browserApi: BrowserAPI;
+    let client: Awaited<ReturnType<typeof connectMcpClient>>;
+
+    beforeEach(async () => {
+      browserApi = new BrowserAPI(new ReplayTransport(recordFile), OPTIONS);
+      await browserApi.init();
+      await waitFor(() => browserApi.getConnectedBrowsers().length === 1);
+      client = await connectMcpClient(browserApi);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      browserApi.close();
+    });
+
+    it("should connect the recorded browser", async () => {
+      const result = await client.callTool({ name: "list-connected-browsers", arguments: {} });
+
+      expect(textOf(result)).toContain("browser id=fake-browser, name=Fake Browser 1.0");
+    });
+
+    it("should answer the tool calls as recorded", async () => {
+      const tabs = await client.callTool({ name: "get-list-of-open-tabs", arguments: {} });
+      const content = await client.callTool({ name: "get-tab-web-content", arguments: { tabId: 9 } });
+
+      expect(textOf(tabs)).toBe(recorded.tabs);
+      expect(textOf(content)).toBe(recorded.content);
+      expect(content.isError).toBe(true);
+    });
+
+    it("should match the requests by their parameters", async () => {
+      const findBbb = await client.callTool({
+        name: "find-highlight-in-browser-tab",
+        arguments: { tabId: 1, queryPhrase: "bbb" },
+      });
+      const findA = await client.callTool({
+        name: "find-highlight-in-browser-tab",
+        arguments: { tabId: 1, queryPhrase: "a" },
+      });
+
+      expect(textOf(findBbb)).toBe(recorded["find-bbb"]);
+      expect(textOf(findA)).toBe(recorded["find-a"]);
+      expect(textOf(findA)).toContain("highlighted in the tab: 1");
+    });
+
+    it("should fail the requests missing from the recording", async () => {
+      const result = await client.callTool({
+        name: "open-browser-tab",
+        arguments: { url: "https://example.com/" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("The recording has no answer to open-tab (error code: INTERNAL)");
+    });
+  });
+});
@@ -0,0 +1,702 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { BrowserAPI } from "../browser-api";
+import { WebSocketTransport } from "../websocket-transport";
+import { setLogLevel } from "../logger";
+import { FAKE_PNG_BASE64, FakeExtension } from "./fake-extension";
+import { connectMcpClient, textOf, waitFor } from "./helpers";
+
+const SECRET = "test-secret";
+// Away from the default range, so that the tests don't collide with a
+// running server
+const PORT_RANGE = { start: 18181, end: 18190 };
+const TIMEOUTS = { defaultMs: 300, screenshotMs: 500 };
+
+describe("MCP server with a fake extension", () => {
+  let tempDir: string;
+  let screenshotDir: string;
+  let sessionDir: string;
+  let browserApi: BrowserAPI;
+  let extension: FakeExtension;
+  let client: Client;
+
+  beforeAll(() => {
+    setLogLevel("error");
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "browser-control-mcp-test-"));
+    screenshotDir = path.join(tempDir, "screenshots");
+    fs.mkdirSync(screenshotDir);
+    sessionDir = path.join(tempDir, "sessions");
+
+    browserApi = new BrowserAPI(new WebSocketTransport(SECRET, PORT_RANGE), {
+      screenshotDir,
+      sessionDir,
+      timeouts: TIMEOUTS,
+      maxContentLength: 1000,
+    });
+    await browserApi.init();
+
+    extension = new FakeExtension({ port: browserApi.getSelectedPort()!, secret: SECRET });
+    await extension.connect();
+    await waitFor(() => browserApi.getConnectedBrowsers().length === 1);
+
+    client = await connectMcpClient(browserApi);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await extension.close();
+    browserApi.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function callTool(name: string, args: Record<string, unknown> = {}) {
+    return client.callTool({ name, arguments: args });
+  }
+
+  it("should list the connected fake browser", async () => {
+    const result = await callTool("list-connected-browsers");
+
+    expect(textOf(result)).toContain("browser id=fake-browser, name=Fake Browser 1.0");
+    expect(extension.serverHello?.port).toBe(browserApi.getSelectedPort());
+  });
+
+  it("should send the tool arguments to the extension", async () => {
+    extension.respondTo("open-tab", () => ({ resource: "opened-tab-id", tabId: 42 }));
+
+    const result = await callTool("open-browser-tab", { url: "https://example.org/" });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).toBe("https://example.org/ opened in tab id 42");
+    const request = extension.requests.find((request) => request.cmd === "open-tab");
+    expect(request).toMatchObject({ cmd: "open-tab", url: "https://example.org/" });
+  });
+
+  it("should return the scripted responses", async () => {
+    extension.respondTo("get-tab-list", () => ({
+      resource: "tabs",
+      tabs: [{ id: 7, url: "https://example.net/", title: "Scripted" }],
+    }));
+
+    const result = await callTool("get-list-of-open-tabs");
+
+    expect(textOf(result)).toContain("tab id=7, tab url=https://example.net/, tab title=Scripted");
+  });
+
+  describe("tab queries", () => {
+    it("should send the filters to the extension", async () => {
+      await callTool("get-list-of-open-tabs", {
+        urlPattern: "*://*.example.com/*",
+        pinned: true,
+        lastAccessedAfter: "2026-01-02T03:04:05Z",
+        sortBy: "lastAccessed",
+        sortOrder: "desc",
+        limit: 10,
+      });
+
+      const request = extension.requests.find((request) => request.cmd === "get-tab-list" && request.limit);
+      expect(request).toMatchObject({
+        urlPattern: "*://*.example.com/*",
+        pinned: true,
+        lastAccessedAfter: Date.UTC(2026, 0, 2, 3, 4, 5),
+        sortBy: "lastAccessed",
+        sortOrder: "desc",
+        offset: 0,
+        limit: 10,
+      });
+    });
+
+    it("should tell where the next page starts", async () => {
+      extension.respondTo("get-tab-list", () => ({
+        resource: "tabs",
+        tabs: [{ id: 3 }, { id: 4 }],
+        totalCount: 300,
+      }));
+
+      const result = await callTool("get-list-of-open-tabs", { offset: 2, limit: 2 });
+
+      expect(textOf(result)).toContain("tab id=4");
+      expect(textOf(result)).toContain("Showing tabs 3-4 of 300 matching tabs, use offset=4 for the next page");
+    });
+
+    it("should report when no tab matches", async () => {
+      extension.respondTo("get-tab-list", () => ({ resource: "tabs", tabs: [], totalCount: 0 }));
+
+      const result = await callTool("get-list-of-open-tabs", { titleContains: "nothing" });
+
+      expect(textOf(result)).toBe("No matching tabs");
+    });
+  });
+
+  describe("tab sessions", () => {
+    beforeEach(() => {
+      extension.respondTo("get-tab-list", () => ({
+        resource: "tabs",
+        tabs: [
+          { id: 1, url: "https://example.com/", title: "Example", pinned: true },
+          { id: 2, url: "https://example.org/", title: "Other", cookieStoreId: "firefox-container-1" },
+        ],
+      }));
+    });
+
+    it("should save the tabs of a window as a session file", async () => {
+      const result = await callTool("save-tab-session", { name: "work", windowId: 2 });
+
+      expect(textOf(result)).toBe(`Session "work" saved with 2 tabs to ${path.join(sessionDir, "work.json")}`);
+      const request = extension.requests.find((request) => request.cmd === "get-tab-list" && request.windowId);
+      expect(request).toMatchObject({ windowId: 2, sortBy: "index" });
+      const session = JSON.parse(fs.readFileSync(path.join(sessionDir, "work.json"), "utf8"));
+      expect(session).toMatchObject({
+        name: "work",
+        browserId: "fake-browser",
+        tabs: [
+          { url: "https://example.com/", title: "Example", pinned: true },
+          { url: "https://example.org/", title: "Other", cookieStoreId: "firefox-container-1" },
+        ],
+      });
+    });
+
+    it("should only save the given tabs", async () => {
+      const result = await callTool("save-tab-session", { name: "one", tabIds: [2] });
+
+      expect(textOf(result)).toContain("saved with 1 tabs");
+    });
+
+    it("should not overwrite a session unless asked to", async () => {
+      await callTool("save-tab-session", { name: "work" });
+
+      const result = await callTool("save-tab-session", { name: "work" });
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Session "work" already exists, delete it or overwrite it (error code: INVALID_ARGUMENT)');
+
+      const overwritten = await callTool("save-tab-session", { name: "work", overwrite: true });
+      expect(overwritten.isError).toBeFalsy();
+    });
+
+    it("should reject names that are not plain file names", async () => {
+      const result = await callTool("save-tab-session", { name: "../work" });
+
+      expect(textOf(result)).toContain("Invalid session name: ../work");
+      expect(fs.existsSync(sessionDir)).toBe(false);
+    });
+
+    it("should list, restore and delete the sessions", async () => {
+      await callTool("save-tab-session", { name: "work" });
+
+      expect(textOf(await callTool("list-tab-sessions"))).toMatch(
+        /^session name=work, tabs=2, saved=.+, browser id=fake-browser$/
+      );
+
+      const restored = await callTool("restore-tab-session", { name: "work" });
+      expect(textOf(restored)).toContain('Session "work" restored in window id=3');
+      expect(textOf(restored)).toContain("Tab opened: tab id=11, tab url=https://example.org/");
+      const request = extension.requests.find((request) => request.cmd === "restore-session");
+      expect(request).toMatchObject({
+        tabs: [
+          { url: "https://example.com/", pinned: true },
+          { url: "https://example.org/", cookieStoreId: "firefox-container-1" },
+        ],
+      });
+
+      expect(textOf(await callTool("delete-tab-session", { name: "work" }))).toBe('Session "work" deleted');
+      expect(textOf(await callTool("list-tab-sessions"))).toBe("No saved session");
+    });
+
+    it("should report the tabs the extension skipped", async () => {
+      await callTool("save-tab-session", { name: "work" });
+      extension.respondTo("restore-session", (request) => ({
+        resource: "session-restored",
+        window: { id: 3, focused: true, incognito: false, tabCount: 1 },
+        tabs: [{ id: 11, url: request.tabs[1].url }],
+        skipped: [{ url: request.tabs[0].url, reason: "Domain in user defined deny list" }],
+      }));
+
+      const result = await callTool("restore-tab-session", { name: "work" });
+
+      expect(textOf(result)).toContain("Tab skipped: url=https://example.com/, reason=Domain in user defined deny list");
+    });
+
+    it("should diff a session with the open tabs", async () => {
+      await callTool("save-tab-session", { name: "work" });
+      extension.respondTo("get-tab-list", () => ({
+        resource: "tabs",
+        tabs: [
+          { id: 2, url: "https://example.org/", title: "Other" },
+          { id: 3, url: "https://example.net/", title: "New" },
+        ],
+      }));
+
+      const result = await callTool("diff-tab-sessions", { name: "work" });
+
+      expect(textOf(result)).toBe(
+        'Session "work" compared to the open tabs: 1 added, 1 removed, 1 unchanged\n' +
+          "added: url=https://example.net/, title=New\n" +
+          "removed: url=https://example.com/, title=Example"
+      );
+    });
+
+    it("should fail on a missing session", async () => {
+      const result = await callTool("restore-tab-session", { name: "missing" });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Session "missing" not found');
+    });
+  });
+
+  describe("bookmarks", () => {
+    it("should search the bookmarks", async () => {
+      const result = await callTool("search-browser-bookmarks", { query: "example" });
+
+      expect(textOf(result)).toBe("bookmark id=b1, title=Example Domain, url=https://example.com/");
+      const request = extension.requests.find((request) => request.cmd === "search-bookmarks");
+      expect(request).toMatchObject({ query: "example", maxResults: 50 });
+    });
+
+    it("should indent the folder tree by level", async () => {
+      const result = await callTool("list-browser-bookmark-tree");
+
+      expect(textOf(result)).toBe(
+        "folder id=f1, title=Research\n" +
+          "  bookmark id=b1, title=Example Domain, url=https://example.com/, parent id=f1"
+      );
+    });
+
+    it("should split the folder path of a new bookmark", async () => {
+      const result = await callTool("create-browser-bookmark", {
+        url: "https://example.org/",
+        title: "Finding",
+        folderPath: "agent findings/2026-10-18/",
+      });
+
+      expect(textOf(result)).toBe(
+        "Bookmark created: bookmark id=b2, title=Finding, url=https://example.org/, created by agent"
+      );
+      const request = extension.requests.find((request) => request.cmd === "create-bookmark");
+      expect(request).toMatchObject({ folderPath: ["agent findings", "2026-10-18"] });
+    });
+
+    it("should report the bookmarks the extension refuses to remove", async () => {
+      extension.respondTo("remove-bookmarks", () => ({
+        errorMessage: "Bookmark b1 was not created through the MCP server and cannot be removed",
+        errorCode: "INVALID_ARGUMENT",
+      }));
+
+      const result = await callTool("remove-browser-bookmarks", { bookmarkIds: ["b1"] });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain(
+        "Failed to remove bookmarks: Bookmark b1 was not created through the MCP server and cannot be removed"
+      );
+    });
+  });
+
+  describe("tab state", () => {
+    it("should report the state of the tabs in the list", async () => {
+      extension.respondTo("get-tab-list", () => ({
+        resource: "tabs",
+        tabs: [
+          { id: 7, url: "https://example.net/", title: "Music", pinned: true, audible: true, mutedInfo: { muted: true } },
+          { id: 8, url: "https://example.org/", title: "Plain", pinned: false, mutedInfo: { muted: false } },
+        ],
+      }));
+
+      const result = await callTool("get-list-of-open-tabs");
+
+      expect(textOf(result)).toContain("tab title=Music, last accessed=unknown, state=pinned,audible,muted");
+      expect(textOf(result)).toMatch(/tab title=Plain, last accessed=unknown$/);
+    });
+
+    it("should activate and pin a tab", async () => {
+      const result = await callTool("update-browser-tab", { tabId: 5, active: true, pinned: true });
+
+      expect(textOf(result)).toContain("Tab updated: tab id=5");
+      expect(textOf(result)).toContain("state=active,pinned");
+      const request = extension.requests.find((request) => request.cmd === "update-tab");
+      expect(request).toMatchObject({ tabId: 5, active: true, pinned: true });
+      expect(request).not.toHaveProperty("muted");
+    });
+
+    it("should discard tabs", async () => {
+      const result = await callTool("discard-browser-tabs", { tabIds: [3, 4] });
+
+      expect(textOf(result)).toBe("tab id=3 discarded\ntab id=4 discarded");
+    });
+  });
+
+  describe("browser resources", () => {
+    function readResource(uri: string) {
+      return client.readResource({ uri }).then(({ contents }) => (contents[0] as { text: string }).text);
+    }
+
+    it("should list the tabs of every connected browser", async () => {
+      const otherExtension = new FakeExtension({
+        port: browserApi.getSelectedPort()!,
+        secret: SECRET,
+        browserId: "other-browser",
+      });
+      otherExtension.respondTo("get-tab-list", () => ({
+        resource: "tabs",
+        tabs: [{ id: 1, url: "https://example.org/", title: "Other" }],
+      }));
+      await otherExtension.connect();
+      await waitFor(() => browserApi.getConnectedBrowsers().length === 2);
+      await waitFor(() => browserApi.getBrowserState("other-browser").tabs.length === 1);
+
+      const text = await readResource("browser://tabs");
+
+      expect(text).toContain("browser id=fake-browser, tab id=1, tab url=https://example.com/");
+      expect(text).toContain("browser id=other-browser, tab id=1, tab url=https://example.org/");
+      await otherExtension.close();
+    });
+
+    it("should list the downloads of every connected browser", async () => {
+      extension.sendEvent({
+        type: "download-changed",
+        download: { id: 2, url: "https://example.com/file.zip", filename: "file.zip", state: "complete", bytesReceived: 10, totalBytes: 10 },
+      });
+      await waitFor(() => browserApi.getBrowserState().downloads.length === 1);
+
+      expect(await readResource("browser://downloads")).toBe(
+        "browser id=fake-browser, download id=2, url=https://example.com/file.zip, file=file.zip, state=complete, received=10/10 bytes"
+      );
+    });
+
+    it("should return empty resources when no browser is connected", async () => {
+      await extension.close();
+      await waitFor(() => browserApi.getConnectedBrowsers().length === 0);
+
+      expect(await readResource("browser://tabs")).toBe("");
+      expect(await readResource("browser://downloads")).toBe("");
+    });
+  });
+
+  describe("containers", () => {
+    it("should list the containers", async () => {
+      const result = await callTool("list-browser-containers");
+
+      expect(textOf(result)).toBe(
+        "container cookieStoreId=firefox-container-1, name=Personal, color=blue, icon=fingerprint"
+      );
+    });
+
+    it("should open a tab in a container", async () => {
+      const result = await callTool("open-browser-tab", {
+        url: "https://example.org/",
+        cookieStoreId: "firefox-container-1",
+      });
+
+      expect(textOf(result)).toBe("https://example.org/ opened in tab id 1");
+      const request = extension.requests.find((request) => request.cmd === "open-tab");
+      expect(request).toMatchObject({ url: "https://example.org/", cookieStoreId: "firefox-container-1" });
+    });
+
+    it("should report the container of the tabs", async () => {
+      extension.respondTo("get-tab-list", () => ({
+        resource: "tabs",
+        tabs: [{ id: 7, url: "https://example.net/", title: "Work", cookieStoreId: "firefox-container-2" }],
+      }));
+
+      const result = await callTool("get-list-of-open-tabs");
+
+      expect(textOf(result)).toContain("tab id=7, tab url=https://example.net/, tab title=Work");
+      expect(textOf(result)).toContain(", container=firefox-container-2");
+    });
+  });
+
+  describe("windows", () => {
+    it("should list the windows with their state, bounds and tab counts", async () => {
+      const result = await callTool("list-browser-windows");
+
+      expect(textOf(result)).toBe(
+        "window id=1, type=normal, state=normal, focused=true, incognito=false, bounds=1280x800 at 0,0, tabs=1"
+      );
+    });
+
+    it("should create a popup window with a size", async () => {
+      const result = await callTool("create-browser-window", { type: "popup", width: 400, height: 300 });
+
+      expect(textOf(result)).toContain("Window created: window id=2, type=popup");
+      expect(textOf(result)).toContain("bounds=400x300");
+      const request = extension.requests.find((request) => request.cmd === "create-window");
+      expect(request).toMatchObject({ type: "popup", width: 400, height: 300 });
+    });
+
+    it("should move tabs to another window", async () => {
+      const result = await callTool("move-browser-tabs", { tabIds: [4, 5], windowId: 2, index: 0 });
+
+      expect(textOf(result)).toBe(
+        "tab id=4 moved to window id=2, index=0\ntab id=5 moved to window id=2, index=1"
+      );
+      const request = extension.requests.find((request) => request.cmd === "move-tabs");
+      expect(request).toMatchObject({ tabIds: [4, 5], windowId: 2, index: 0 });
+    });
+  });
+
+  describe("navigation", () => {
+    it("should navigate a tab and report the loaded page", async () => {
+      const result = await callTool("navigate-browser-tab", {
+        tabId: 3,
+        url: "https://example.org/",
+        waitForLoad: 5000,
+      });
+
+      expect(textOf(result)).toBe(
+        "Navigated: tab id=3, url=https://example.org/, title=Example Domain, status=complete, http status=200"
+      );
+      const request = extension.requests.find((request) => request.cmd === "navigate-tab");
+      expect(request).toMatchObject({ tabId: 3, url: "https://example.org/", waitForLoad: 5000 });
+      // The time given to the page to load, on top of the default timeout
+      expect(request!.deadline! - Date.now()).toBeGreaterThan(5000);
+    });
+
+    it("should report the status when not waiting for the load", async () => {
+      const result = await callTool("navigate-browser-tab", { tabId: 3, url: "https://example.org/" });
+
+      expect(textOf(result)).toContain("status=loading, http status=unknown");
+    });
+
+    it("should reload a tab bypassing the cache", async () => {
+      const result = await callTool("reload-browser-tab", { tabId: 3, bypassCache: true });
+
+      expect(textOf(result)).toContain("Reloaded: tab id=3");
+      const request = extension.requests.find((request) => request.cmd === "reload-tab");
+      expect(request).toMatchObject({ tabId: 3, bypassCache: true });
+    });
+  });
+
+  describe("error frames", () => {
+    it("should report the error code and hint of the extension", async () => {
+      extension.respondTo("get-tab-content", (request) => ({
+        errorMessage: `Tab ${request.tabId} not found`,
+        errorCode: "TAB_NOT_FOUND",
+      }));
+
+      const result = await callTool("get-tab-web-content", { tabId: 5 });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Tab 5 not found (error code: TAB_NOT_FOUND)");
+      expect(textOf(result)).toContain("Hint: The tab may have been closed");
+    });
+
+    it("should report errors without a code as internal errors", async () => {
+      extension.respondTo("find-highlight", () => ({ errorMessage: "Something broke" }));
+
+      const result = await callTool("find-highlight-in-browser-tab", { tabId: 1, queryPhrase: "x" });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("Something broke (error code: INTERNAL)");
+    });
+  });
+
+  describe("timeouts", () => {
+    it("should time out when the extension doesn't respond", async () => {
+      extension.respondTo("reorder-tabs", () => undefined);
+
+      const start = Date.now();
+      const result = await callTool("reorder-browser-tabs", { tabOrder: [2, 1] });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain("(error code: TIMEOUT)");
+      expect(Date.now() - start).toBeGreaterThanOrEqual(TIMEOUTS.defaultMs - 50);
+    });
+
+    it("should send the deadline it waits for with the request", async () => {
+      extension.respondTo("wait-for-time", () => undefined);
+
+      const before = Date.now();
+      const result = await callTool("wait-for-time", { duration: 100 });
+
+      const request = extension.requests.find((request) => request.cmd === "wait-for-time");
+      // The duration, plus a margin for the round trip
+      expect(request?.deadline).toBeGreaterThanOrEqual(before + 100);
+      expect(request?.deadline).toBeLessThanOrEqual(Date.now());
+      expect(textOf(result)).toContain("(error code: TIMEOUT)");
+    });
+
+    it("should ignore a response that arrives after the timeout", async () => {
+      extension.respondTo("close-tabs", () => undefined);
+      const result = await callTool("close-browser-tabs", { tabIds: [1] });
+      const request = extension.requests.find((request) => request.cmd === "close-tabs")!;
+
+      extension.send({ resource: "tabs-closed", correlationId: request.correlationId });
+      extension.respondTo("get-tab-list", () => ({ resource: "tabs", tabs: [] }));
+      const next = await callTool("get-list-of-open-tabs");
+
+      expect(textOf(result)).toContain("(error code: TIMEOUT)");
+      expect(next.isError).toBeFalsy();
+    });
+  });
+
+  describe("bad signatures", () => {
+    it("should reject responses signed with another secret", async () => {
+      extension.respondTo("find-highlight", (request) => {
+        extension.send(
+          { resource: "find-highlight-result", correlationId: request.correlationId, noOfResults: 3 },
+          "wrong-secret"
+        );
+        return undefined;
+      });
+
+      const result = await callTool("find-highlight-in-browser-tab", { tabId: 1, queryPhrase: "x" });
+
+      expect(textOf(result)).toContain("(error code: TIMEOUT)");
+    });
+
+    it("should reject responses that are not signed", async () => {
+      extension.respondTo("find-highlight", (request) => {
+        extension.sendRaw(
+          JSON.stringify({ resource: "find-highlight-result", correlationId: request.correlationId, noOfResults: 3 })
+        );
+        return undefined;
+      });
+
+      const result = await callTool("find-highlight-in-browser-tab", { tabId: 1, queryPhrase: "x" });
+
+      expect(textOf(result)).toContain("(error code: TIMEOUT)");
+    });
+  });
+
+  describe("malformed frames", () => {
+    it("should fail the request answered with a malformed response", async () => {
+      extension.respondTo("find-highlight", () => ({
+        resource: "find-highlight-result",
+        noOfResults: "three",
+      }) as any);
+
+      const start = Date.now();
+      const result = await callTool("find-highlight-in-browser-tab", { tabId: 1, queryPhrase: "x" });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain(
+        "Malformed find-highlight-result message: noOfResults: Expected number, received string (error code: INTERNAL)"
+      );
+      // Without waiting for the timeout
+      expect(Date.now() - start).toBeLessThan(TIMEOUTS.defaultMs);
+    });
+
+    it("should ignore malformed frames and responses to unknown requests", async () => {
+      extension.send({ resource: "tabs", tabs: "none" });
+      extension.send({ unexpected: true });
+      extension.send({ resource: "tabs-closed", correlationId: "unknown-request" });
+      extension.send({ correlationId: "unknown-request", errorMessage: "Too late" });
+
+      const result = await callTool("get-list-of-open-tabs");
+
+      expect(result.isError).toBeFalsy();
+      expect(textOf(result)).toContain("tab id=1");
+    });
+
+    it("should drop frames that are not JSON and keep serving", async () => {
+      extension.sendRaw("not json {");
+      extension.sendRaw("");
+
+      const result = await callTool("get-list-of-open-tabs");
+
+      expect(result.isError).toBeFalsy();
+      expect(textOf(result)).toContain("tab id=1");
+      expect(browserApi.getConnectedBrowsers()).toHaveLength(1);
+    });
+  });
+
+  describe("screenshots", () => {
+    it("should save the screenshot in the screenshot directory", async () => {
+      const result = await callTool("take-screenshot", { tabId: 3 });
+
+      const match = /Screenshot saved to: (.+)/.exec(textOf(result));
+      expect(match).not.toBeNull();
+      const filePath = match![1];
+      expect(path.dirname(filePath)).toBe(screenshotDir);
+      expect(path.basename(filePath)).toMatch(/^screenshot-\d+-3\.png$/);
+      expect(fs.readFileSync(filePath)).toEqual(Buffer.from(FAKE_PNG_BASE64, "base64"));
+    });
+
+    it("should return the screenshot when it cannot be saved", async () => {
+      fs.rmSync(screenshotDir, { recursive: true });
+      // A file where the directory should be
+      fs.writeFileSync(screenshotDir, "");
+      const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const result = await callTool("take-screenshot", { tabId: 3, format: "jpeg" });
+
+      expect(result.isError).toBeFalsy();
+      expect(textOf(result)).toContain("Screenshot captured from tab 3 in jpeg format");
+      expect(textOf(result)).toContain(`Image data (base64): ${FAKE_PNG_BASE64.substring(0, 100)}`);
+      expect(consoleError).toHaveBeenCalledWith("Screenshot save failed:", expect.anything());
+      consoleError.mockRestore();
+    });
+  });
+
+  it("should reject the commands the extension doesn't support", async () => {
+    const olderExtension = new FakeExtension({
+      port: browserApi.getSelectedPort()!,
+      secret: SECRET,
+      supportedCommands: ["get-tab-list"],
+    });
+    await olderExtension.connect();
+    await waitFor(() => browserApi.getConnectedBrowsers()[0]?.supportedCommands.length === 1);
+
+    const result = await callTool("take-screenshot", { tabId: 3 });
+
+    expect(textOf(result)).toContain("(error code: UNSUPPORTED_COMMAND)");
+    expect(olderExtension.requests.some((request) => request.cmd === "take-screenshot")).toBe(false);
+    await olderExtension.close();
+  });
+
+  it("should only accept the answers of the browser a request was sent to", async () => {
+    const otherExtension = new FakeExtension({
+      port: browserApi.getSelectedPort()!,
+      secret: SECRET,
+      browserId: "other-browser",
+    });
+    await otherExtension.connect();
+    await waitFor(() => browserApi.getConnectedBrowsers().length === 2);
+    extension.respondTo("open-tab", () => undefined);
+
+    const result = callTool("open-browser-tab", { url: "https://example.org/", browserId: "fake-browser" });
+    await waitFor(() => extension.requests.some((request) => request.cmd === "open-tab"));
+    const { correlationId } = extension.requests.find((request) => request.cmd === "open-tab")!;
+    otherExtension.send({ resource: "opened-tab-id", tabId: 666, correlationId });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    extension.send({ resource: "opened-tab-id", tabId: 42, correlationId });
+
+    expect(textOf(await result)).toBe("https://example.org/ opened in tab id 42");
+    await otherExtension.close();
+  });
+
+  it("should fail the pending requests of a browser that disconnects", async () => {
+    extension.respondTo("open-tab", () => undefined);
+
+    const result = callTool("open-browser-tab", { url: "https://example.org/" });
+    await waitFor(() => extension.requests.some((request) => request.cmd === "open-tab"));
+    await extension.close();
+
+    const text = textOf(await result);
+    expect(text).toContain("Browser fake-browser disconnected before answering");
+    expect(text).toContain("(error code: NOT_CONNECTED)");
+  });
+
+  it("should not log an error when the tab list is disabled in a new browser", async () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const privateExtension = new FakeExtension({
+      port: browserApi.getSelectedPort()!,
+      secret: SECRET,
+      browserId: "private-browser",
+    });
+    privateExtension.respondTo("get-tab-list", () => ({
+      errorMessage: "Tool get-list-of-open-tabs is disabled",
+      errorCode: "TOOL_DISABLED",
+    }));
+    await privateExtension.connect();
+    await waitFor(() => privateExtension.requests.some((request) => request.cmd === "get-tab-list"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(browserApi.getConnectedBrowsers()).toHaveLength(2);
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+    await privateExtension.close();
+  });
+});
@@ -1,4 +1,3 @@
-import WebSocket from "ws";
 import {
   ExtensionMessage,
   BrowserTab,
@@ -13,32 +12,150 @@ import {
   HoverResultExtensionMessage,
   TypeResultExtensionMessage,
   WaitResultExtensionMessage,
+  ExtensionHelloMessage,
+  CancelServerMessage,
+  ProgressExtensionMessage,
+  BrowserEvent,
+  BrowserEventExtensionMessage,
+  BrowserDownload,
+  BrowserWindow,
+  BrowserContainer,
+  BrowserBookmark,
+  NavigationResultExtensionMessage,
+  UpdateTabServerMessage,
+  TabQuery,
+  CreateWindowServerMessage,
+  SessionRestoredExtensionMessage,
+  MalformedMessageError,
+  parseExtensionPayload,
 } from "@browser-control-mcp/common";
-import { isPortInUse } from "./util";
+import { BrowserApiError, getErrorCode } from "./errors";
+import {
+  TabSession,
+  TabSessionDiff,
+  TabSessionStore,
+  TabSessionSummary,
+  diffSessionTabs,
+} from "./tab-sessions";
+import type { ExtensionSocket, ExtensionTransport } from "./transport";
 import { join, resolve, relative } from "path";
 import { readFile, writeFile } from "fs/promises";
 import * as fs from "fs";
 import * as crypto from "crypto";
+import { logger } from "./logger";
+import type { ServerConfig } from "./config";
 
-// Support up to ten initializations of the MCP server by clients
-// Expanded port range to handle multiple instances and port conflicts
-const WS_PORTS = [8081, 8082, 8083, 8084, 8085, 8086, 8087, 8088, 8089, 8090];
-// Default timeout for most extension operations (1 second)
-// Note: Screenshot operations use a longer timeout (30 seconds) due to the time needed
-// for scrolling, content loading, and image stitching in full-page captures
-const EXTENSION_RESPONSE_TIMEOUT_MS = 1000;
+// Extra time allowed on top of the time a command is expected to take, to
+// cover the round trip and the extension's own processing
+const RESPONSE_MARGIN_MS = 1000;
+// Defaults applied by the extension when the corresponding parameter is omitted
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+const DEFAULT_WAIT_FOR_ELEMENT_MS = 5000;
+// Time allowed per tab opened when restoring a session
+const RESTORE_TAB_MS = 100;
+// Version of the message protocol implemented by this server, exchanged in
+// the server and extension hello messages
+const PROTOCOL_VERSION = 1;
 
 interface ExtensionRequestResolver<T extends ExtensionMessage["resource"]> {
   resource: T;
   resolve: (value: Extract<ExtensionMessage, { resource: T }>) => void;
-  reject: (reason?: string) => void;
+  reject: (reason: BrowserApiError) => void;
+  // Clears the response timer and the abort listener
+  dispose: () => void;
+  // Connection the request was sent to, the only one allowed to answer it
+  socket: ExtensionSocket;
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+// A request sent to an extension, awaiting its response
+interface SentRequest {
+  correlationId: string;
+  deadline: number;
+  browserId: string;
+  socket: ExtensionSocket;
+  signal?: AbortSignal;
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+// A browser extension connection that has announced its identity
+export interface ConnectedBrowser {
+  browserId: string;
+  browserName: string;
+  profileLabel?: string;
+  extensionVersion: string;
+  protocolVersion: number;
+  supportedCommands: string[];
+  connectedAt: number;
+}
+
+interface BrowserConnection extends ConnectedBrowser {
+  socket: ExtensionSocket;
+  state: BrowserStateModel;
+}
+
+// What the server knows about a connected browser, kept up to date by the
+// events the extension pushes
+interface BrowserStateModel {
+  tabs: Map<number, BrowserTab>;
+  // Active tab of each window, by windowId. Only known for the windows in
+  // which a tab was activated since the browser connected.
+  activeTabIds: Map<number, number>;
+  downloads: Map<number, BrowserDownload>;
+}
+
+export interface BrowserState {
+  tabs: BrowserTab[];
+  activeTabIds: number[];
+  downloads: BrowserDownload[];
+}
+
+export type BrowserEventListener = (browserId: string, event: BrowserEvent) => void;
+
+// Per-request options shared by all the browser commands
+export interface RequestOptions {
+  // Target browser, as listed by getConnectedBrowsers(). When omitted, the
+  // most recently connected browser is used.
+  browserId?: string;
+  // Aborts the request, e.g. when the MCP client cancels the tool call. The
+  // extension is asked to stop working on it.
+  signal?: AbortSignal;
+  // Called with the progress frames the extension sends for long-running
+  // commands, such as full-page screenshots
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+export type RequestProgress = Pick<
+  ProgressExtensionMessage,
+  "progress" | "total" | "message"
+>;
+
+export interface BrowserApiOptions {
+  // Where screenshots are saved, null to disable saving them
+  screenshotDir: string | null;
+  // Where the tab sessions are saved, null to disable them
+  sessionDir: string | null;
+  // Timeouts of the commands that don't compute their deadline from their own
+  // parameters, see getCommandTimeout()
+  timeouts: ServerConfig["timeouts"];
+  maxContentLength: number;
 }
 
 export class BrowserAPI {
-  private ws: WebSocket | null = null;
-  private wsServer: WebSocket.Server | null = null;
-  private sharedSecret: string | null = null;
+  private readonly transport: ExtensionTransport;
   private screenshotDir: string | null;
+  private readonly tabSessions: TabSessionStore | null;
+  private readonly timeouts: ServerConfig["timeouts"];
+  private readonly maxContentLength: number;
+  private readonly serverId: string = crypto.randomUUID();
+  private readonly startedAt: number = Date.now();
+
+  // Registry of the connected extensions, keyed by the browserId announced in
+  // the extension hello message. Connections that have not announced
+  // themselves yet are not routable.
+  private connections: Map<string, BrowserConnection> = new Map();
+
+  private browserEventListeners: BrowserEventListener[] = [];
 
   // Map to persist the request to the extension. It maps the request correlationId
   // to a resolver, fulfulling a promise created when sending a message to the extension.
@@ -47,172 +164,660 @@ export class BrowserAPI {
     ExtensionRequestResolver<ExtensionMessage["resource"]>
   > = new Map();
 
-  constructor(screenshotDir?: string | null) {
-    this.screenshotDir = screenshotDir || null;
+  constructor(transport: ExtensionTransport, options: BrowserApiOptions) {
+    this.transport = transport;
+    this.screenshotDir = options.screenshotDir;
+    this.tabSessions = options.sessionDir ? new TabSessionStore(options.sessionDir) : null;
+    this.timeouts = options.timeouts;
+    this.maxContentLength = options.maxContentLength;
   }
 
+  // Starts accepting extension connections, resolves with a description of
+  // where the transport listens
   async init() {
-    const { secret } = readConfig();
-    if (!secret) {
-      throw new Error("EXTENSION_SECRET env var missing. See the extension's options page.");
-    }
-    this.sharedSecret = secret;
-
-    let selectedPort = null;
-    const portsInUse: number[] = [];
-
-    console.error(`Checking ${WS_PORTS.length} available ports: ${WS_PORTS.join(', ')}`);
-
-    for (const port of WS_PORTS) {
-      const inUse = await isPortInUse(port);
-      if (!inUse) {
-        selectedPort = port;
-        console.error(`Selected available port: ${port}`);
-        break;
-      } else {
-        portsInUse.push(port);
-        console.error(`Port ${port} is already in use`);
-      }
-    }
-    
-    if (!selectedPort) {
-      const errorMessage = `All available ports are in use. Checked ports: ${WS_PORTS.join(', ')}. ` +
-        `Ports in use: ${portsInUse.join(', ')}. ` +
-        `Please ensure no other MCP server instances are running, or restart your system to free up ports.`;
-      throw new Error(errorMessage);
-    }
-
-    this.wsServer = new WebSocket.Server({
-      host: "localhost",
-      port: selectedPort,
-    });
-    this.wsServer.on("connection", async (connection) => {
-      this.ws = connection;
-
-      this.ws.on("message", (message) => {
-        const decoded = JSON.parse(message.toString());
-        if (isErrorMessage(decoded)) {
-          this.handleExtensionError(decoded);
+    return this.transport.listen({
+      onConnect: (socket) => {
+        // Identify this server to the extension, which probes the port range
+        // to discover the running MCP servers
+        socket.send({
+          cmd: "server-hello",
+          serverId: this.serverId,
+          port: this.transport.getPort(),
+          startedAt: this.startedAt,
+          protocolVersion: PROTOCOL_VERSION,
+        });
+      },
+      onPayload: (socket, payload) => {
+        let message: ReturnType<typeof parseExtensionPayload>;
+        try {
+          message = parseExtensionPayload(payload);
+        } catch (error) {
+          if (!(error instanceof MalformedMessageError)) {
+            throw error;
+          }
+          this.handleMalformedPayload(socket, error);
           return;
         }
-        const signature = this.createSignature(JSON.stringify(decoded.payload));
-        if (signature !== decoded.signature) {
-          console.error("Invalid message signature");
+        if ("errorMessage" in message) {
+          this.handleExtensionError(socket, message);
           return;
         }
-        this.handleDecodedExtensionMessage(decoded.payload);
-      });
-    });
-    this.wsServer.on("error", (error) => {
-      console.error("WebSocket server error:", error);
+        switch (message.resource) {
+          case "extension-hello":
+            this.registerConnection(socket, message);
+            break;
+          case "progress":
+            this.handleExtensionProgress(socket, message);
+            break;
+          case "browser-event":
+            this.handleBrowserEvent(socket, message);
+            break;
+          default:
+            this.handleDecodedExtensionMessage(socket, message);
+        }
+      },
+      onDisconnect: (socket) => {
+        this.unregisterConnection(socket);
+      },
     });
-    return selectedPort;
   }
 
   close() {
-    console.error("Closing Browser API and cleaning up resources...");
-    
-    // Close WebSocket connection if it exists
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      console.error("Closing WebSocket connection");
-      this.ws.close();
-      this.ws = null;
-    }
+    logger.info("Closing Browser API and cleaning up resources...");
     
-    // Close WebSocket server if it exists
-    if (this.wsServer) {
-      console.error(`Closing WebSocket server on port ${this.wsServer.options.port}`);
-      this.wsServer.close((err) => {
-        if (err) {
-          console.error("Error closing WebSocket server:", err);
-        } else {
-          console.error("WebSocket server closed successfully");
-        }
-      });
-      this.wsServer = null;
+    // Close all the browser connections
+    for (const connection of this.connections.values()) {
+      if (connection.socket.isOpen()) {
+        logger.info(`Closing connection to browser ${connection.browserId}`);
+        connection.socket.close();
+      }
     }
+    this.connections.clear();
+
+    this.transport.close();
     
     // Clear any pending extension requests
     if (this.extensionRequestMap.size > 0) {
-      console.error(`Clearing ${this.extensionRequestMap.size} pending extension requests`);
+      logger.info(`Clearing ${this.extensionRequestMap.size} pending extension requests`);
       for (const [correlationId, resolver] of this.extensionRequestMap.entries()) {
-        resolver.reject("Server is shutting down");
+        resolver.dispose();
+        resolver.reject(new BrowserApiError("NOT_CONNECTED", "Server is shutting down"));
       }
       this.extensionRequestMap.clear();
     }
     
-    console.error("Browser API cleanup completed");
+    logger.info("Browser API cleanup completed");
   }
 
   getSelectedPort() {
-    return this.wsServer?.options.port;
+    return this.transport.getPort();
+  }
+
+  getConnectedBrowsers(): ConnectedBrowser[] {
+    return Array.from(this.connections.values()).map(
+      ({ socket, state, ...connectedBrowser }) => connectedBrowser
+    );
+  }
+
+  // The state of the browser as last pushed by its extension
+  getBrowserState(browserId?: string): BrowserState {
+    const { state } = this.getConnection(browserId);
+    return {
+      tabs: Array.from(state.tabs.values()),
+      activeTabIds: Array.from(state.activeTabIds.values()),
+      downloads: Array.from(state.downloads.values()),
+    };
+  }
+
+  // Called for every event pushed by any of the connected browsers
+  addBrowserEventListener(listener: BrowserEventListener) {
+    this.browserEventListeners.push(listener);
+  }
+
+  private registerConnection(socket: ExtensionSocket, hello: ExtensionHelloMessage) {
+    const existing = this.connections.get(hello.browserId);
+    if (existing && existing.socket !== socket) {
+      // The same browser reconnected, drop the stale socket
+      logger.info(`Browser ${hello.browserId} reconnected, closing previous connection`);
+      existing.socket.close();
+      this.rejectPendingRequests(existing.socket, `Browser ${hello.browserId} reconnected before answering`);
+    }
+    // Re-insert so that the map order reflects the connection order
+    this.connections.delete(hello.browserId);
+    this.connections.set(hello.browserId, {
+      browserId: hello.browserId,
+      browserName: hello.browserName,
+      profileLabel: hello.profileLabel,
+      extensionVersion: hello.extensionVersion,
+      protocolVersion: hello.protocolVersion,
+      supportedCommands: hello.supportedCommands,
+      connectedAt: Date.now(),
+      socket,
+      state: {
+        tabs: new Map(),
+        activeTabIds: new Map(),
+        downloads: new Map(),
+      },
+    });
+    logger.info(
+      `Browser connected: ${hello.browserId} (${hello.browserName}, ` +
+      `extension ${hello.extensionVersion}, protocol ${hello.protocolVersion})`
+    );
+    if (hello.protocolVersion !== PROTOCOL_VERSION) {
+      logger.warn(
+        `Browser ${hello.browserId} speaks protocol version ${hello.protocolVersion}, ` +
+        `server speaks ${PROTOCOL_VERSION}. Commands it does not support will be rejected.`
+      );
+    }
+    this.seedBrowserState(hello.browserId);
   }
 
-  async openTab(url: string): Promise<number | undefined> {
-    const correlationId = this.sendMessageToExtension({
+  // Fills the tab model of a newly connected browser. The pushed events keep
+  // it up to date from there on.
+  private async seedBrowserState(browserId: string) {
+    try {
+      const tabs = await this.getTabList({ browserId });
+      const connection = this.connections.get(browserId);
+      if (!connection) {
+        return;
+      }
+      for (const tab of tabs) {
+        // Events received in the meantime are more recent
+        if (tab.id !== undefined && !connection.state.tabs.has(tab.id)) {
+          connection.state.tabs.set(tab.id, tab);
+        }
+      }
+    } catch (error) {
+      if (getErrorCode(error) === "TOOL_DISABLED") {
+        // The extension doesn't push the tab events either
+        logger.info(`The tab list is disabled in browser ${browserId}, its tabs are not tracked`);
+      } else if (!this.connections.has(browserId) || getErrorCode(error) === "NOT_CONNECTED") {
+        logger.debug(`Browser ${browserId} disconnected before its tabs were loaded`);
+      } else {
+        logger.error(`Failed to load the tabs of browser ${browserId}:`, error);
+      }
+    }
+  }
+
+  private handleBrowserEvent(socket: ExtensionSocket, message: BrowserEventExtensionMessage) {
+    const connection = Array.from(this.connections.values()).find(
+      (connection) => connection.socket === socket
+    );
+    if (!connection) {
+      logger.warn("Browser event from a connection that did not say hello");
+      return;
+    }
+    const { state } = connection;
+    const { event } = message;
+    switch (event.type) {
+      case "tab-created":
+      case "tab-updated":
+        if (event.tab.id !== undefined) {
+          state.tabs.set(event.tab.id, event.tab);
+        }
+        break;
+      case "tab-removed":
+        state.tabs.delete(event.tabId);
+        if (state.activeTabIds.get(event.windowId) === event.tabId) {
+          state.activeTabIds.delete(event.windowId);
+        }
+        break;
+      case "tab-activated":
+        state.activeTabIds.set(event.windowId, event.tabId);
+        break;
+      case "navigation-completed": {
+        const tab = state.tabs.get(event.tabId);
+        if (tab) {
+          tab.url = event.url;
+        }
+        break;
+      }
+      case "download-changed":
+        state.downloads.set(event.download.id, event.download);
+        break;
+    }
+    for (const listener of this.browserEventListeners) {
+      try {
+        listener(connection.browserId, event);
+      } catch (error) {
+        logger.error("Browser event listener failed:", error);
+      }
+    }
+  }
+
+  private unregisterConnection(socket: ExtensionSocket) {
+    for (const [browserId, connection] of this.connections.entries()) {
+      if (connection.socket === socket) {
+        this.connections.delete(browserId);
+        logger.info(`Browser disconnected: ${browserId}`);
+        this.rejectPendingRequests(socket, `Browser ${browserId} disconnected before answering`);
+      }
+    }
+  }
+
+  // Fails the requests sent on a connection that is gone, rather than letting
+  // them wait for their timeout
+  private rejectPendingRequests(socket: ExtensionSocket, reason: string) {
+    for (const [correlationId, resolver] of this.extensionRequestMap.entries()) {
+      if (resolver.socket === socket) {
+        resolver.dispose();
+        this.extensionRequestMap.delete(correlationId);
+        resolver.reject(new BrowserApiError("NOT_CONNECTED", reason));
+      }
+    }
+  }
+
+  private getConnection(browserId?: string): BrowserConnection {
+    if (browserId !== undefined) {
+      const connection = this.connections.get(browserId);
+      if (!connection) {
+        throw new BrowserApiError("NOT_CONNECTED", `Browser '${browserId}' is not connected`);
+      }
+      return connection;
+    }
+    // Default to the most recently connected browser
+    const connections = Array.from(this.connections.values());
+    if (connections.length === 0) {
+      throw new BrowserApiError("NOT_CONNECTED", "No browser extension is connected");
+    }
+    return connections[connections.length - 1];
+  }
+
+  async openTab(
+    url: string,
+    cookieStoreId?: string,
+    options: RequestOptions = {}
+  ): Promise<number | undefined> {
+    const request = this.sendMessageToExtension({
       cmd: "open-tab",
       url,
-    });
-    const message = await this.waitForResponse(correlationId, "opened-tab-id");
+      cookieStoreId,
+    }, options);
+    const message = await this.waitForResponse(request, "opened-tab-id");
     return message.tabId;
   }
 
-  async closeTabs(tabIds: number[]) {
-    const correlationId = this.sendMessageToExtension({
+  async closeTabs(tabIds: number[], options: RequestOptions = {}) {
+    const request = this.sendMessageToExtension({
       cmd: "close-tabs",
       tabIds,
-    });
-    await this.waitForResponse(correlationId, "tabs-closed");
+    }, options);
+    await this.waitForResponse(request, "tabs-closed");
   }
 
-  async getTabList(): Promise<BrowserTab[]> {
-    const correlationId = this.sendMessageToExtension({
+  async getTabList(options: RequestOptions = {}): Promise<BrowserTab[]> {
+    const request = this.sendMessageToExtension({
       cmd: "get-tab-list",
-    });
-    const message = await this.waitForResponse(correlationId, "tabs");
+    }, options);
+    const message = await this.waitForResponse(request, "tabs");
     return message.tabs;
   }
 
+  // A page of the tabs matching the query, along with the number of matching
+  // tabs
+  async queryTabs(
+    query: TabQuery,
+    options: RequestOptions = {}
+  ): Promise<{ tabs: BrowserTab[]; totalCount: number }> {
+    const request = this.sendMessageToExtension({
+      cmd: "get-tab-list",
+      ...query,
+    }, options);
+    const message = await this.waitForResponse(request, "tabs");
+    return { tabs: message.tabs, totalCount: message.totalCount ?? message.tabs.length };
+  }
+
   async getBrowserRecentHistory(
-    searchQuery?: string
+    searchQuery?: string,
+    options: RequestOptions = {}
   ): Promise<BrowserHistoryItem[]> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "get-browser-recent-history",
       searchQuery,
-    });
-    const message = await this.waitForResponse(correlationId, "history");
+    }, options);
+    const message = await this.waitForResponse(request, "history");
     return message.historyItems;
   }
 
   async getTabContent(
     tabId: number,
-    offset: number
+    offset: number,
+    options: RequestOptions = {}
   ): Promise<TabContentExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "get-tab-content",
       tabId,
       offset,
-    });
-    return await this.waitForResponse(correlationId, "tab-content");
+      maxLength: this.maxContentLength,
+    }, options);
+    return await this.waitForResponse(request, "tab-content");
   }
 
-  async reorderTabs(tabOrder: number[]): Promise<number[]> {
-    const correlationId = this.sendMessageToExtension({
+  async reorderTabs(
+    tabOrder: number[],
+    options: RequestOptions = {}
+  ): Promise<number[]> {
+    const request = this.sendMessageToExtension({
       cmd: "reorder-tabs",
       tabOrder,
-    });
-    const message = await this.waitForResponse(correlationId, "tabs-reordered");
+    }, options);
+    const message = await this.waitForResponse(request, "tabs-reordered");
     return message.tabOrder;
   }
 
-  async findHighlight(tabId: number, queryPhrase: string): Promise<number> {
-    const correlationId = this.sendMessageToExtension({
+  async updateTab(
+    tabId: number,
+    state: Pick<UpdateTabServerMessage, "active" | "pinned" | "muted">,
+    options: RequestOptions = {}
+  ): Promise<BrowserTab> {
+    const request = this.sendMessageToExtension({
+      cmd: "update-tab",
+      tabId,
+      ...state,
+    }, options);
+    const message = await this.waitForResponse(request, "tab");
+    return message.tab;
+  }
+
+  async discardTabs(tabIds: number[], options: RequestOptions = {}): Promise<BrowserTab[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "discard-tabs",
+      tabIds,
+    }, options);
+    const message = await this.waitForResponse(request, "tabs-discarded");
+    return message.tabs;
+  }
+
+  async duplicateTab(tabId: number, options: RequestOptions = {}): Promise<BrowserTab> {
+    const request = this.sendMessageToExtension({
+      cmd: "duplicate-tab",
+      tabId,
+    }, options);
+    const message = await this.waitForResponse(request, "tab");
+    return message.tab;
+  }
+
+  async getContainerList(options: RequestOptions = {}): Promise<BrowserContainer[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "get-container-list",
+    }, options);
+    const message = await this.waitForResponse(request, "containers");
+    return message.containers;
+  }
+
+  async getWindowList(options: RequestOptions = {}): Promise<BrowserWindow[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "get-window-list",
+    }, options);
+    const message = await this.waitForResponse(request, "windows");
+    return message.windows;
+  }
+
+  async createWindow(
+    window: Omit<CreateWindowServerMessage, "cmd">,
+    options: RequestOptions = {}
+  ): Promise<BrowserWindow> {
+    const request = this.sendMessageToExtension({
+      cmd: "create-window",
+      ...window,
+    }, options);
+    const message = await this.waitForResponse(request, "window");
+    return message.window;
+  }
+
+  // Saves the tabs matching the filter as a named session. The filter selects
+  // the tabs of one window, the tabs matching a URL pattern or title, or the
+  // given tabs; all the tabs when empty.
+  async saveTabSession(
+    name: string,
+    filter: Pick<TabQuery, "windowId" | "urlPattern" | "titleContains"> & { tabIds?: number[] },
+    overwrite: boolean = false,
+    options: RequestOptions = {}
+  ): Promise<{ session: TabSession; filePath: string }> {
+    const store = this.getTabSessionStore();
+    const { browserId } = this.getConnection(options.browserId);
+    const { tabIds, ...query } = filter;
+    const { tabs } = await this.queryTabs({ ...query, sortBy: "index" }, { ...options, browserId });
+    const sessionTabs = tabs
+      .filter((tab) => tab.url && (!tabIds || (tab.id !== undefined && tabIds.includes(tab.id))))
+      .map((tab) => ({
+        url: tab.url!,
+        title: tab.title,
+        pinned: tab.pinned,
+        cookieStoreId: tab.cookieStoreId,
+      }));
+    if (sessionTabs.length === 0) {
+      throw new BrowserApiError("INVALID_ARGUMENT", "No tab matches the filter, the session would be empty");
+    }
+
+    const session: TabSession = {
+      name,
+      savedAt: Date.now(),
+      browserId,
+      tabs: sessionTabs,
+    };
+    const filePath = await store.save(session, overwrite);
+    return { session, filePath };
+  }
+
+  async listTabSessions(): Promise<TabSessionSummary[]> {
+    return this.getTabSessionStore().list();
+  }
+
+  async deleteTabSession(name: string): Promise<void> {
+    await this.getTabSessionStore().delete(name);
+  }
+
+  // Compares a session with another one, or with the tabs currently open when
+  // otherName is omitted
+  async diffTabSessions(
+    name: string,
+    otherName?: string,
+    options: RequestOptions = {}
+  ): Promise<TabSessionDiff> {
+    const store = this.getTabSessionStore();
+    const session = await store.load(name);
+    const otherTabs = otherName
+      ? (await store.load(otherName)).tabs
+      : (await this.getTabList(options))
+          .filter((tab) => tab.url)
+          .map((tab) => ({ url: tab.url!, title: tab.title }));
+    return diffSessionTabs(session.tabs, otherTabs);
+  }
+
+  // Opens the tabs of a session in a new window. The extension skips the tabs
+  // its deny list or URL policy doesn't allow.
+  async restoreTabSession(
+    name: string,
+    options: RequestOptions = {}
+  ): Promise<SessionRestoredExtensionMessage> {
+    const session = await this.getTabSessionStore().load(name);
+    const request = this.sendMessageToExtension({
+      cmd: "restore-session",
+      tabs: session.tabs,
+    }, options);
+    return this.waitForResponse(request, "session-restored");
+  }
+
+  private getTabSessionStore(): TabSessionStore {
+    if (!this.tabSessions) {
+      throw new BrowserApiError("INTERNAL", "Session directory not configured");
+    }
+    return this.tabSessions;
+  }
+
+  async focusWindow(windowId: number, options: RequestOptions = {}): Promise<BrowserWindow> {
+    const request = this.sendMessageToExtension({
+      cmd: "focus-window",
+      windowId,
+    }, options);
+    const message = await this.waitForResponse(request, "window");
+    return message.window;
+  }
+
+  async minimizeWindow(windowId: number, options: RequestOptions = {}): Promise<BrowserWindow> {
+    const request = this.sendMessageToExtension({
+      cmd: "minimize-window",
+      windowId,
+    }, options);
+    const message = await this.waitForResponse(request, "window");
+    return message.window;
+  }
+
+  async closeWindow(windowId: number, options: RequestOptions = {}) {
+    const request = this.sendMessageToExtension({
+      cmd: "close-window",
+      windowId,
+    }, options);
+    await this.waitForResponse(request, "window-closed");
+  }
+
+  async moveTabs(
+    tabIds: number[],
+    windowId: number,
+    index?: number,
+    options: RequestOptions = {}
+  ): Promise<BrowserTab[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "move-tabs",
+      tabIds,
+      windowId,
+      index,
+    }, options);
+    const message = await this.waitForResponse(request, "tabs-moved");
+    return message.tabs;
+  }
+
+  async navigateTab(
+    tabId: number,
+    url: string,
+    waitForLoad?: number,
+    options: RequestOptions = {}
+  ): Promise<NavigationResultExtensionMessage> {
+    const request = this.sendMessageToExtension({
+      cmd: "navigate-tab",
+      tabId,
+      url,
+      waitForLoad,
+    }, options);
+    return await this.waitForResponse(request, "navigation-result");
+  }
+
+  async goBack(
+    tabId: number,
+    waitForLoad?: number,
+    options: RequestOptions = {}
+  ): Promise<NavigationResultExtensionMessage> {
+    const request = this.sendMessageToExtension({
+      cmd: "go-back",
+      tabId,
+      waitForLoad,
+    }, options);
+    return await this.waitForResponse(request, "navigation-result");
+  }
+
+  async goForward(
+    tabId: number,
+    waitForLoad?: number,
+    options: RequestOptions = {}
+  ): Promise<NavigationResultExtensionMessage> {
+    const request = this.sendMessageToExtension({
+      cmd: "go-forward",
+      tabId,
+      waitForLoad,
+    }, options);
+    return await this.waitForResponse(request, "navigation-result");
+  }
+
+  async reloadTab(
+    tabId: number,
+    bypassCache?: boolean,
+    waitForLoad?: number,
+    options: RequestOptions = {}
+  ): Promise<NavigationResultExtensionMessage> {
+    const request = this.sendMessageToExtension({
+      cmd: "reload-tab",
+      tabId,
+      bypassCache,
+      waitForLoad,
+    }, options);
+    return await this.waitForResponse(request, "navigation-result");
+  }
+
+  async searchBookmarks(
+    query: string,
+    maxResults?: number,
+    options: RequestOptions = {}
+  ): Promise<BrowserBookmark[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "search-bookmarks",
+      query,
+      maxResults,
+    }, options);
+    const message = await this.waitForResponse(request, "bookmarks");
+    return message.bookmarks;
+  }
+
+  async getBookmarkTree(
+    folderId?: string,
+    maxDepth?: number,
+    options: RequestOptions = {}
+  ): Promise<BrowserBookmark[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "get-bookmark-tree",
+      folderId,
+      maxDepth,
+    }, options);
+    const message = await this.waitForResponse(request, "bookmarks");
+    return message.bookmarks;
+  }
+
+  async createBookmark(
+    url: string,
+    title: string,
+    folderPath?: string[],
+    options: RequestOptions = {}
+  ): Promise<BrowserBookmark> {
+    const request = this.sendMessageToExtension({
+      cmd: "create-bookmark",
+      url,
+      title,
+      folderPath,
+    }, options);
+    const message = await this.waitForResponse(request, "bookmark");
+    return message.bookmark;
+  }
+
+  async createBookmarkFolder(folderPath: string[], options: RequestOptions = {}): Promise<BrowserBookmark> {
+    const request = this.sendMessageToExtension({
+      cmd: "create-bookmark-folder",
+      folderPath,
+    }, options);
+    const message = await this.waitForResponse(request, "bookmark");
+    return message.bookmark;
+  }
+
+  async removeBookmarks(bookmarkIds: string[], options: RequestOptions = {}): Promise<string[]> {
+    const request = this.sendMessageToExtension({
+      cmd: "remove-bookmarks",
+      bookmarkIds,
+    }, options);
+    const message = await this.waitForResponse(request, "bookmarks-removed");
+    return message.bookmarkIds;
+  }
+
+  async findHighlight(
+    tabId: number,
+    queryPhrase: string,
+    options: RequestOptions = {}
+  ): Promise<number> {
+    const request = this.sendMessageToExtension({
       cmd: "find-highlight",
       tabId,
       queryPhrase,
-    });
+    }, options);
     const message = await this.waitForResponse(
-      correlationId,
+      request,
       "find-highlight-result"
     );
     return message.noOfResults;
@@ -240,7 +845,7 @@ export class BrowserAPI {
       // Verify it's actually a directory
       const stats = await fs.promises.stat(this.screenshotDir);
       if (!stats.isDirectory()) {
-        console.error(`Screenshot path '${this.screenshotDir}' exists but is not a directory`);
+        logger.error(`Screenshot path '${this.screenshotDir}' exists but is not a directory`);
         return false;
       }
       
@@ -252,11 +857,11 @@ export class BrowserAPI {
           await fs.promises.mkdir(this.screenshotDir, { recursive: true });
           return true;
         } catch (mkdirError) {
-          console.error(`Failed to create screenshot directory: ${(mkdirError as Error).message}`);
+          logger.error(`Failed to create screenshot directory: ${(mkdirError as Error).message}`);
           return false;
         }
       }
-      console.error(`Screenshot directory validation failed: ${(error as Error).message}`);
+      logger.error(`Screenshot directory validation failed: ${(error as Error).message}`);
       return false;
     }
   }
@@ -310,7 +915,7 @@ export class BrowserAPI {
         // Only retry for specific transient errors
         if (attempt < maxRetries &&
             (errorCode === 'EBUSY' || errorCode === 'EAGAIN' || errorCode === 'ETIMEDOUT')) {
-          console.error(`Screenshot save attempt ${attempt + 1} failed, retrying...`);
+          logger.warn(`Screenshot save attempt ${attempt + 1} failed, retrying...`);
           await new Promise(resolve => setTimeout(resolve, 100 * (attempt + 1))); // Exponential backoff
           continue;
         }
@@ -326,17 +931,16 @@ export class BrowserAPI {
   async takeScreenshot(
     tabId: number,
     format: "png" | "jpeg" = "png",
-    quality?: number
+    quality?: number,
+    options: RequestOptions = {}
   ): Promise<ScreenshotExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "take-screenshot",
       tabId,
       format,
       quality,
-    });
-    // Use 30 second timeout for screenshot operations since full-page captures
-    // can take a long time due to scrolling, waiting for content to load, and stitching
-    const screenshot = await this.waitForResponse(correlationId, "screenshot", 30000);
+    }, options);
+    const screenshot = await this.waitForResponse(request, "screenshot");
 
     // Try to save screenshot to file (non-blocking, maintains backward compatibility)
     if (this.screenshotDir) {
@@ -344,7 +948,7 @@ export class BrowserAPI {
         // Validate format
         const validFormats = ['png', 'jpeg'] as const;
         if (!validFormats.includes(format)) {
-          console.error(`Invalid screenshot format: ${format}, defaulting to png`);
+          logger.warn(`Invalid screenshot format: ${format}, defaulting to png`);
           format = 'png';
         }
 
@@ -374,7 +978,7 @@ export class BrowserAPI {
         };
         
         // Success logging with context
-        console.log(`Screenshot saved successfully:`, {
+        logger.info(`Screenshot saved successfully:`, {
           path: filePath,
           tabId: tabId,
           format: format,
@@ -391,26 +995,26 @@ export class BrowserAPI {
         // Enhanced error handling with specific cases
         switch (errorCode) {
           case 'ENOENT':
-            console.error(`Screenshot directory does not exist: ${this.screenshotDir}`);
+            logger.error(`Screenshot directory does not exist: ${this.screenshotDir}`);
             break;
           case 'EACCES':
-            console.error(`Permission denied writing to screenshot directory: ${this.screenshotDir}`);
+            logger.error(`Permission denied writing to screenshot directory: ${this.screenshotDir}`);
             break;
           case 'ENOSPC':
-            console.error(`Insufficient disk space to save screenshot`);
+            logger.error(`Insufficient disk space to save screenshot`);
             break;
           case 'EROFS':
-            console.error(`Cannot save screenshot: file system is read-only`);
+            logger.error(`Cannot save screenshot: file system is read-only`);
             break;
           case 'EMFILE':
-            console.error(`Too many open files, cannot save screenshot`);
+            logger.error(`Too many open files, cannot save screenshot`);
             break;
           default:
-            console.error(`Failed to save screenshot file: ${errorMessage} (code: ${errorCode || 'none'})`);
+            logger.error(`Failed to save screenshot file: ${errorMessage} (code: ${errorCode || 'none'})`);
         }
         
         // Enhanced error logging with context
-        console.error(`Screenshot save failed:`, {
+        logger.error(`Screenshot save failed:`, {
           error: errorMessage,
           code: errorCode,
           directory: this.screenshotDir,
@@ -425,7 +1029,7 @@ export class BrowserAPI {
       }
     } else {
       // Screenshot directory not configured, skip file saving
-      console.error('Screenshot directory not configured, file saving disabled');
+      logger.error('Screenshot directory not configured, file saving disabled');
     }
 
     return screenshot;
@@ -435,32 +1039,34 @@ export class BrowserAPI {
     tabId: number,
     x: number = 0,
     y: number,
-    behavior: "auto" | "smooth" = "smooth"
+    behavior: "auto" | "smooth" = "smooth",
+    options: RequestOptions = {}
   ): Promise<ScrollResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "scroll-to-position",
       tabId,
       x,
       y,
       behavior,
-    });
-    return await this.waitForResponse(correlationId, "scroll-result");
+    }, options);
+    return await this.waitForResponse(request, "scroll-result");
   }
 
   async scrollByOffset(
     tabId: number,
     deltaX: number = 0,
     deltaY: number,
-    behavior: "auto" | "smooth" = "smooth"
+    behavior: "auto" | "smooth" = "smooth",
+    options: RequestOptions = {}
   ): Promise<ScrollResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "scroll-by-offset",
       tabId,
       deltaX,
       deltaY,
       behavior,
-    });
-    return await this.waitForResponse(correlationId, "scroll-result");
+    }, options);
+    return await this.waitForResponse(request, "scroll-result");
   }
 
   async scrollToElement(
@@ -468,17 +1074,18 @@ export class BrowserAPI {
     selector: string,
     block: "start" | "center" | "end" | "nearest" = "center",
     inline: "start" | "center" | "end" | "nearest" = "nearest",
-    behavior: "auto" | "smooth" = "smooth"
+    behavior: "auto" | "smooth" = "smooth",
+    options: RequestOptions = {}
   ): Promise<ScrollResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "scroll-to-element",
       tabId,
       selector,
       block,
       inline,
       behavior,
-    });
-    return await this.waitForResponse(correlationId, "scroll-result");
+    }, options);
+    return await this.waitForResponse(request, "scroll-result");
   }
 
   async clickAtCoordinates(
@@ -492,9 +1099,10 @@ export class BrowserAPI {
       alt?: boolean;
       shift?: boolean;
       meta?: boolean;
-    } = {}
+    } = {},
+    options: RequestOptions = {}
   ): Promise<ClickResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "click-at-coordinates",
       tabId,
       x,
@@ -502,8 +1110,8 @@ export class BrowserAPI {
       button,
       clickType,
       modifiers,
-    });
-    return await this.waitForResponse(correlationId, "click-result");
+    }, options);
+    return await this.waitForResponse(request, "click-result");
   }
 
   async clickElement(
@@ -518,9 +1126,10 @@ export class BrowserAPI {
       alt?: boolean;
       shift?: boolean;
       meta?: boolean;
-    } = {}
+    } = {},
+    options: RequestOptions = {}
   ): Promise<ClickResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "click-element",
       tabId,
       selector,
@@ -529,8 +1138,8 @@ export class BrowserAPI {
       waitForElement,
       scrollIntoView,
       modifiers,
-    });
-    return await this.waitForResponse(correlationId, "click-result");
+    }, options);
+    return await this.waitForResponse(request, "click-result");
   }
 
   async hoverElement(
@@ -538,17 +1147,18 @@ export class BrowserAPI {
     selector?: string,
     x?: number,
     y?: number,
-    waitForElement: number = 5000
+    waitForElement: number = 5000,
+    options: RequestOptions = {}
   ): Promise<HoverResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "hover-element",
       tabId,
       selector,
       x,
       y,
       waitForElement,
-    });
-    return await this.waitForResponse(correlationId, "hover-result");
+    }, options);
+    return await this.waitForResponse(request, "hover-result");
   }
 
   async typeText(
@@ -557,9 +1167,10 @@ export class BrowserAPI {
     selector?: string,
     clearFirst?: boolean,
     typeDelay?: number,
-    waitForElement?: number
+    waitForElement?: number,
+    options: RequestOptions = {}
   ): Promise<TypeResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "type-text",
       tabId,
       text,
@@ -567,8 +1178,8 @@ export class BrowserAPI {
       clearFirst,
       typeDelay,
       waitForElement,
-    });
-    return await this.waitForResponse(correlationId, "type-result");
+    }, options);
+    return await this.waitForResponse(request, "type-result");
   }
 
   async sendSpecialKeys(
@@ -580,42 +1191,45 @@ export class BrowserAPI {
       alt?: boolean;
       shift?: boolean;
       meta?: boolean;
-    }
+    },
+    options: RequestOptions = {}
   ): Promise<TypeResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "send-special-keys",
       tabId,
       keys,
       selector,
       modifiers,
-    });
-    return await this.waitForResponse(correlationId, "type-result");
+    }, options);
+    return await this.waitForResponse(request, "type-result");
   }
 
   async clearInputField(
     tabId: number,
     selector: string,
-    waitForElement?: number
+    waitForElement?: number,
+    options: RequestOptions = {}
   ): Promise<TypeResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "clear-input-field",
       tabId,
       selector,
       waitForElement,
-    });
-    return await this.waitForResponse(correlationId, "type-result");
+    }, options);
+    return await this.waitForResponse(request, "type-result");
   }
 
   async waitForTime(
     duration: number,
-    message?: string
+    message?: string,
+    options: RequestOptions = {}
   ): Promise<WaitResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "wait-for-time",
       duration,
       message,
-    });
-    return await this.waitForResponse(correlationId, "wait-result");
+    }, options);
+    return await this.waitForResponse(request, "wait-result");
   }
 
   async waitForElement(
@@ -623,33 +1237,35 @@ export class BrowserAPI {
     selector: string,
     timeout: number = 5000,
     pollInterval: number = 100,
-    visible: boolean = false
+    visible: boolean = false,
+    options: RequestOptions = {}
   ): Promise<WaitResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "wait-for-element",
       tabId,
       selector,
       timeout,
       pollInterval,
       visible,
-    });
-    return await this.waitForResponse(correlationId, "wait-result");
+    }, options);
+    return await this.waitForResponse(request, "wait-result");
   }
 
   async waitForElementVisibility(
     tabId: number,
     selector: string,
     timeout: number = 5000,
-    threshold: number = 0.1
+    threshold: number = 0.1,
+    options: RequestOptions = {}
   ): Promise<WaitResultExtensionMessage> {
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "wait-for-element-visibility",
       tabId,
       selector,
       timeout,
       threshold,
-    });
-    return await this.waitForResponse(correlationId, "wait-result");
+    }, options);
+    return await this.waitForResponse(request, "wait-result");
   }
 
   async waitForCondition(
@@ -657,108 +1273,219 @@ export class BrowserAPI {
     condition: string,
     timeout: number = 5000,
     pollInterval: number = 100,
-    args?: Record<string, any>
+    args?: Record<string, any>,
+    options: RequestOptions = {}
   ): Promise<WaitResultExtensionMessage> {
     // SECURITY FIX: This method has been disabled due to critical security vulnerability
     // The previous implementation allowed arbitrary JavaScript execution via new Function()
     // which could lead to complete system compromise, data theft, and malicious redirects
     
     // Send message to extension which will return a security error
-    const correlationId = this.sendMessageToExtension({
+    const request = this.sendMessageToExtension({
       cmd: "wait-for-condition",
       tabId,
       condition,
       timeout,
       pollInterval,
       args,
-    });
+    }, options);
     
     // The extension will return an error message explaining the security fix
-    return await this.waitForResponse(correlationId, "wait-result");
+    return await this.waitForResponse(request, "wait-result");
   }
 
-  private createSignature(payload: string): string {
-    if (!this.sharedSecret) {
-      throw new Error("Shared secret not initialized");
+  private sendMessageToExtension(
+    message: ServerMessage,
+    options: RequestOptions = {}
+  ): SentRequest {
+    if (options.signal?.aborted) {
+      throw new BrowserApiError("CANCELLED", "Request was cancelled");
     }
-    const hmac = crypto.createHmac("sha256", this.sharedSecret);
-    hmac.update(payload);
-    return hmac.digest("hex");
-  }
-
-  private sendMessageToExtension(message: ServerMessage): string {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error("WebSocket is not open");
+    const connection = this.getConnection(options.browserId);
+    if (!connection.socket.isOpen()) {
+      throw new BrowserApiError("NOT_CONNECTED", "Connection to the extension is not open");
     }
+    if (!connection.supportedCommands.includes(message.cmd)) {
+      // Fail fast instead of waiting for a response that will never come
+      throw new BrowserApiError(
+        "UNSUPPORTED_COMMAND",
+        `Command '${message.cmd}' is unsupported by connected extension ` +
+        `${connection.browserName} (extension version ${connection.extensionVersion}, ` +
+        `protocol version ${connection.protocolVersion}). Update the browser extension to use this tool.`
+      );
+    }
+
+    const correlationId = crypto.randomUUID();
+    const deadline = Date.now() + getCommandTimeout(message, this.timeouts);
+    const req: ServerMessageRequest = { ...message, correlationId, deadline };
 
-    const correlationId = Math.random().toString(36).substring(2);
-    const req: ServerMessageRequest = { ...message, correlationId };
-    const payload = JSON.stringify(req);
-    const signature = this.createSignature(payload);
-    const signedMessage = {
-      payload: req,
-      signature: signature,
+    connection.socket.send(req);
+
+    return {
+      correlationId,
+      deadline,
+      browserId: connection.browserId,
+      socket: connection.socket,
+      signal: options.signal,
+      onProgress: options.onProgress,
     };
+  }
 
-    // Send the signed message to the extension
-    this.ws.send(JSON.stringify(signedMessage));
+  // Asks the extension that received the request to stop working on it
+  private sendCancelToExtension(request: SentRequest) {
+    const connection = this.connections.get(request.browserId);
+    if (!connection || !connection.socket.isOpen()) {
+      return;
+    }
+    const cancel: CancelServerMessage = {
+      cmd: "cancel",
+      correlationId: request.correlationId,
+    };
+    connection.socket.send(cancel);
+  }
 
-    return correlationId;
+  // The pending request a payload from the socket answers. A browser cannot
+  // answer the requests sent to another one.
+  private getResolver(socket: ExtensionSocket, correlationId: string) {
+    const resolver = this.extensionRequestMap.get(correlationId);
+    if (resolver && resolver.socket !== socket) {
+      logger.warn(`Rejected an answer to request ${correlationId} from another connection`);
+      return undefined;
+    }
+    return resolver;
   }
 
-  private handleDecodedExtensionMessage(decoded: ExtensionMessage) {
+  private handleDecodedExtensionMessage(socket: ExtensionSocket, decoded: ExtensionMessage) {
     const { correlationId } = decoded;
-    const { resolve, resource } = this.extensionRequestMap.get(correlationId)!;
+    const resolver = this.getResolver(socket, correlationId);
+    if (!resolver) {
+      // The request timed out or was cancelled before the response arrived
+      logger.warn("Response for unknown request:", correlationId, decoded.resource);
+      return;
+    }
+    const { resolve, resource, dispose } = resolver;
     if (resource !== decoded.resource) {
-      console.error("Resource mismatch:", resource, decoded.resource);
+      logger.warn("Resource mismatch:", resource, decoded.resource);
       return;
     }
+    dispose();
     this.extensionRequestMap.delete(correlationId);
     resolve(decoded);
   }
 
-  private handleExtensionError(decoded: ExtensionError) {
-    const { correlationId, errorMessage } = decoded;
-    const { reject } = this.extensionRequestMap.get(correlationId)!;
+  private handleExtensionError(socket: ExtensionSocket, decoded: ExtensionError) {
+    const { correlationId, errorMessage, errorCode } = decoded;
+    const resolver = this.getResolver(socket, correlationId);
+    if (!resolver) {
+      logger.warn("Extension error for unknown request:", correlationId, errorMessage);
+      return;
+    }
+    resolver.dispose();
     this.extensionRequestMap.delete(correlationId);
-    reject(errorMessage);
+    resolver.reject(new BrowserApiError(errorCode ?? "INTERNAL", errorMessage));
+  }
+
+  // A payload that does not match the protocol is dropped. If it answers a
+  // pending request, the request fails rather than waiting for its timeout.
+  private handleMalformedPayload(socket: ExtensionSocket, error: MalformedMessageError) {
+    logger.warn(`Rejected extension payload: ${error.message}`);
+    const { correlationId } = error;
+    const resolver = correlationId && this.getResolver(socket, correlationId);
+    if (!resolver) {
+      return;
+    }
+    resolver.dispose();
+    this.extensionRequestMap.delete(correlationId);
+    resolver.reject(
+      new BrowserApiError("INTERNAL", `The extension sent a malformed response. ${error.message}`)
+    );
+  }
+
+  private handleExtensionProgress(socket: ExtensionSocket, decoded: ProgressExtensionMessage) {
+    const resolver = this.getResolver(socket, decoded.correlationId);
+    if (!resolver) {
+      // Late progress of a request that already completed, timed out or was cancelled
+      return;
+    }
+    const { progress, total, message } = decoded;
+    resolver.onProgress?.({ progress, total, message });
   }
 
   private async waitForResponse<T extends ExtensionMessage["resource"]>(
-    correlationId: string,
-    resource: T,
-    timeoutMs?: number
+    request: SentRequest,
+    resource: T
   ): Promise<Extract<ExtensionMessage, { resource: T }>> {
-    // Use provided timeout or default to EXTENSION_RESPONSE_TIMEOUT_MS
-    const timeout = timeoutMs || EXTENSION_RESPONSE_TIMEOUT_MS;
-    
+    const { correlationId, signal } = request;
+    // Honor the deadline sent to the extension with the request
+    const timeout = Math.max(request.deadline - Date.now(), 0);
+
     return new Promise<Extract<ExtensionMessage, { resource: T }>>(
       (resolve, reject) => {
+        const timer = setTimeout(() => {
+          dispose();
+          this.extensionRequestMap.delete(correlationId);
+          reject(new BrowserApiError("TIMEOUT", "Timed out waiting for response"));
+        }, timeout);
+        const onAbort = () => {
+          dispose();
+          this.extensionRequestMap.delete(correlationId);
+          this.sendCancelToExtension(request);
+          reject(new BrowserApiError("CANCELLED", "Request was cancelled"));
+        };
+        const dispose = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+        };
+        signal?.addEventListener("abort", onAbort);
         this.extensionRequestMap.set(correlationId, {
           resolve: resolve as (value: ExtensionMessage) => void,
           resource,
           reject,
+          dispose,
+          socket: request.socket,
+          onProgress: request.onProgress,
         });
-        setTimeout(() => {
-          this.extensionRequestMap.delete(correlationId);
-          reject("Timed out waiting for response");
-        }, timeout);
       }
     );
   }
 }
 
-function readConfig() {
-  return {
-    secret: process.env.EXTENSION_SECRET,
+// Computes how long the extension may take to respond to a command, from the
+// command's own parameters
+function getCommandTimeout(
+  message: ServerMessage,
+  timeouts: ServerConfig["timeouts"]
+): number {
+  switch (message.cmd) {
+    case "take-screenshot":
+      return timeouts.screenshotMs;
+    case "wait-for-time":
+      return message.duration + RESPONSE_MARGIN_MS;
+    case "restore-session":
+      return timeouts.defaultMs + message.tabs.length * RESTORE_TAB_MS;
+    case "navigate-tab":
+    case "go-back":
+    case "go-forward":
+    case "reload-tab":
+      // The extension still reads the tab once the page has loaded
+      return (message.waitForLoad ?? 0) + timeouts.defaultMs;
+    case "wait-for-element":
+    case "wait-for-element-visibility":
+    case "wait-for-condition":
+      return (message.timeout ?? DEFAULT_WAIT_TIMEOUT_MS) + RESPONSE_MARGIN_MS;
+    case "click-element":
+    case "hover-element":
+    case "clear-input-field":
+      return (
+        (message.waitForElement ?? DEFAULT_WAIT_FOR_ELEMENT_MS) + RESPONSE_MARGIN_MS
+      );
+    case "type-text":
+      return (
+        (message.waitForElement ?? DEFAULT_WAIT_FOR_ELEMENT_MS) +
+        message.text.length * (message.typeDelay ?? 0) +
+        RESPONSE_MARGIN_MS
+      );
+    default:
+      return timeouts.defaultMs;
   }
 }
-
-export function isErrorMessage(
-  message: any
-): message is ExtensionError {
-  return (
-    message.errorMessage !== undefined &&
-    message.correlationId !== undefined
-  );
-}
\ No newline at end of file
@@ -0,0 +1,279 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import YAML from "yaml";
+import { LOG_LEVELS } from "./logger";
+
+const portSchema = z.coerce.number().int().min(1024).max(65535);
+const durationSchema = z.coerce.number().int().positive();
+
+export const ServerConfigSchema = z
+  .object({
+    // Secret shown on the extension's options page, or a file holding it.
+    // Required by the websocket extension transport.
+    secret: z.string().min(1).optional(),
+    secretFile: z.string().min(1).optional(),
+    extensionTransport: z.enum(["websocket", "native"]).default("websocket"),
+    // Localhost ports on which the websocket transport may listen. Must match
+    // the range probed by the extension.
+    portRange: z
+      .object({ start: portSchema, end: portSchema })
+      .strict()
+      .refine(({ start, end }) => start <= end, "start must not be greater than end")
+      .refine(({ start, end }) => end - start < 100, "must not include more than 100 ports")
+      .default({ start: 8081, end: 8090 }),
+    screenshotDir: z.string().min(1).default("./screenshots"),
+    // Directory in which the named tab sessions are saved
+    sessionDir: z.string().min(1).default("./sessions"),
+    timeouts: z
+      .object({
+        // Commands that don't wait for the page, in ms
+        defaultMs: durationSchema.default(1000),
+        // Screenshots, including the scrolling and stitching of full pages
+        screenshotMs: durationSchema.default(30000),
+      })
+      .strict()
+      .default({}),
+    // Maximum number of characters of page content returned at once
+    maxContentLength: z.coerce.number().int().positive().default(50000),
+    logLevel: z.enum(LOG_LEVELS).default("info"),
+    // JSONL file in which the traffic with the extensions is recorded
+    recordFile: z.string().min(1).optional(),
+    // Recording played back instead of connecting to the extensions
+    replayFile: z.string().min(1).optional(),
+    mcpTransport: z.enum(["stdio", "http"]).default("stdio"),
+    http: z
+      .object({
+        host: z.string().min(1).default("localhost"),
+        port: portSchema.default(8080),
+        authToken: z.string().min(1).optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    if (
+      config.extensionTransport === "websocket" &&
+      !config.replayFile &&
+      !config.secret &&
+      !config.secretFile
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["secret"],
+        message: "secret or secretFile is required by the websocket extension transport. See the extension's options page.",
+      });
+    }
+    if (config.mcpTransport === "http" && !config.http.authToken) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["http", "authToken"],
+        message: "required by the http MCP transport",
+      });
+    }
+  });
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+// Invalid settings, reported at startup
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export const USAGE = `Usage: node dist/server.js [options]
+
+Options:
+  --config <file>                 JSON or YAML config file
+  --secret <secret>               Secret shown on the extension's options page
+  --secret-file <file>            File holding the secret
+  --extension-transport <type>    websocket (default) or native
+  --port-range <start>-<end>      Ports the websocket transport may listen on
+  --screenshot-dir <dir>          Directory in which screenshots are saved
+  --session-dir <dir>             Directory in which tab sessions are saved
+  --timeout <ms>                  Timeout of the commands that don't wait for the page
+  --screenshot-timeout <ms>       Timeout of screenshots
+  --max-content-length <chars>    Maximum page content returned at once
+  --log-level <level>             error, warn, info (default) or debug
+  --record-file <file>            Record the traffic with the extensions
+  --replay-file <file>            Play a recording back instead of connecting
+                                  to the extensions
+  --mcp-transport <type>          stdio (default) or http
+  --http-host <host>              Address of the http MCP transport
+  --http-port <port>              Port of the http MCP transport
+  --help                          Show this help
+
+Command line flags override environment variables, which override the
+config file, which overrides the defaults.`;
+
+// Settings read from the environment, by variable name
+const ENV_SETTINGS: Record<string, string[]> = {
+  EXTENSION_SECRET: ["secret"],
+  EXTENSION_SECRET_FILE: ["secretFile"],
+  EXTENSION_TRANSPORT: ["extensionTransport"],
+  SCREENSHOT_DIR: ["screenshotDir"],
+  SESSION_DIR: ["sessionDir"],
+  LOG_LEVEL: ["logLevel"],
+  RECORD_FILE: ["recordFile"],
+  REPLAY_FILE: ["replayFile"],
+  MCP_TRANSPORT: ["mcpTransport"],
+  MCP_HTTP_HOST: ["http", "host"],
+  MCP_HTTP_PORT: ["http", "port"],
+  MCP_AUTH_TOKEN: ["http", "authToken"],
+};
+
+// Settings read from the command line, by flag name
+const FLAG_SETTINGS: Record<string, string[]> = {
+  "secret": ["secret"],
+  "secret-file": ["secretFile"],
+  "extension-transport": ["extensionTransport"],
+  "screenshot-dir": ["screenshotDir"],
+  "session-dir": ["sessionDir"],
+  "timeout": ["timeouts", "defaultMs"],
+  "screenshot-timeout": ["timeouts", "screenshotMs"],
+  "max-content-length": ["maxContentLength"],
+  "log-level": ["logLevel"],
+  "record-file": ["recordFile"],
+  "replay-file": ["replayFile"],
+  "mcp-transport": ["mcpTransport"],
+  "http-host": ["http", "host"],
+  "http-port": ["http", "port"],
+};
+
+type Settings = { [key: string]: unknown };
+
+/**
+ * Loads the configuration from the command line, the environment and the
+ * config file given with --config or BROWSER_CONTROL_MCP_CONFIG, in that
+ * order of precedence. Throws a ConfigError listing the invalid settings.
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const flags = parseFlags(argv);
+  if (flags.help) {
+    console.error(USAGE);
+    process.exit(0);
+  }
+
+  const configFile = (flags.config as string | undefined) ?? env.BROWSER_CONTROL_MCP_CONFIG;
+  const settings: Settings = configFile ? readConfigFile(configFile) : {};
+
+  applySettings(
+    settings,
+    Object.entries(ENV_SETTINGS)
+      .filter(([name]) => env[name])
+      .map(([name, settingPath]) => [settingPath, env[name]])
+  );
+  applySettings(
+    settings,
+    Object.entries(FLAG_SETTINGS)
+      .filter(([name]) => flags[name] !== undefined)
+      .map(([name, settingPath]) => [settingPath, flags[name]])
+  );
+  if (flags["port-range"] !== undefined) {
+    const match = /^(\d+)-(\d+)$/.exec(flags["port-range"] as string);
+    if (!match) {
+      throw new ConfigError("Invalid configuration:\n  --port-range: expected <start>-<end>, e.g. 8081-8090");
+    }
+    setSetting(settings, ["portRange"], { start: match[1], end: match[2] });
+  }
+
+  const result = ServerConfigSchema.safeParse(settings);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    const source = configFile ? ` (config file ${configFile})` : "";
+    throw new ConfigError(`Invalid configuration${source}:\n${issues.join("\n")}`);
+  }
+
+  const config = result.data;
+  if (!config.secret && config.secretFile) {
+    try {
+      config.secret = fs.readFileSync(config.secretFile, "utf8").trim();
+    } catch (error) {
+      throw new ConfigError(
+        `Invalid configuration:\n  secretFile: cannot read ${config.secretFile}: ${(error as Error).message}`
+      );
+    }
+    if (!config.secret) {
+      throw new ConfigError(`Invalid configuration:\n  secretFile: ${config.secretFile} is empty`);
+    }
+  }
+  return config;
+}
+
+function parseFlags(argv: string[]) {
+  const options: Record<string, { type: "string" | "boolean" }> = {
+    config: { type: "string" },
+    "port-range": { type: "string" },
+    help: { type: "boolean" },
+  };
+  for (const name of Object.keys(FLAG_SETTINGS)) {
+    options[name] = { type: "string" };
+  }
+  try {
+    return parseArgs({ args: argv, options, strict: true }).values;
+  } catch (error) {
+    throw new ConfigError(`Invalid command line: ${(error as Error).message}\n\n${USAGE}`);
+  }
+}
+
+// Reads a JSON or YAML config file. Relative paths in it are relative to the
+// file itself.
+function readConfigFile(file: string): Settings {
+  let settings: unknown;
+  try {
+    const text = fs.readFileSync(file, "utf8");
+    settings = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${(error as Error).message}`);
+  }
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    throw new ConfigError(`Invalid config file ${file}: expected an object of settings`);
+  }
+
+  const dir = path.dirname(path.resolve(file));
+  const fileSettings = settings as Settings;
+  for (const key of ["screenshotDir", "sessionDir", "secretFile", "recordFile", "replayFile"]) {
+    if (typeof fileSettings[key] === "string") {
+      fileSettings[key] = path.resolve(dir, fileSettings[key] as string);
+    }
+  }
+  return fileSettings;
+}
+
+// Applies the settings of a source over those of the lower precedence sources.
+// The secret and the secret file are alternatives: a source giving either one
+// replaces both.
+function applySettings(settings: Settings, values: [string[], unknown][]) {
+  if (values.some(([settingPath]) => settingPath[0] === "secret" || settingPath[0] === "secretFile")) {
+    delete settings.secret;
+    delete settings.secretFile;
+  }
+  for (const [settingPath, value] of values) {
+    setSetting(settings, settingPath, value);
+  }
+}
+
+// Sets a setting, creating the objects on its path. Settings already set as
+// something other than an object are left for the schema to report.
+function setSetting(settings: Settings, settingPath: string[], value: unknown) {
+  let target = settings;
+  for (const key of settingPath.slice(0, -1)) {
+    const next = target[key];
+    if (next === undefined) {
+      target[key] = {};
+    } else if (typeof next !== "object" || next === null) {
+      return;
+    }
+    target = target[key] as Settings;
+  }
+  target[settingPath[settingPath.length - 1]] = value;
+}
@@ -0,0 +1,95 @@
+import * as crypto from "crypto";
+import { isSignedEnvelope } from "@browser-control-mcp/common";
+import type {
+  SignedEnvelope,
+  EnvelopeRejectionReason,
+} from "@browser-control-mcp/common";
+
+// Envelopes issued longer ago than this (or this far in the future) are
+// rejected as stale. Within the window, nonces are remembered to reject
+// duplicates.
+export const MAX_ENVELOPE_AGE_MS = 30_000;
+
+export class EnvelopeError extends Error {
+  readonly reason: EnvelopeRejectionReason;
+
+  constructor(reason: EnvelopeRejectionReason, message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+    this.reason = reason;
+  }
+}
+
+function createSignature(
+  secret: string,
+  nonce: string,
+  issuedAt: number,
+  payload: unknown
+): string {
+  const hmac = crypto.createHmac("sha256", secret);
+  hmac.update(`${nonce}.${issuedAt}.${JSON.stringify(payload)}`);
+  return hmac.digest("hex");
+}
+
+export function signEnvelope<T>(payload: T, secret: string): SignedEnvelope<T> {
+  const nonce = crypto.randomUUID();
+  const issuedAt = Date.now();
+  return {
+    payload,
+    nonce,
+    issuedAt,
+    signature: createSignature(secret, nonce, issuedAt, payload),
+  };
+}
+
+// Remembers the nonces seen within the freshness window
+export class ReplayGuard {
+  private seenNonces: Map<string, number> = new Map();
+
+  check(nonce: string, issuedAt: number, now: number = Date.now()) {
+    this.prune(now);
+    if (Math.abs(now - issuedAt) > MAX_ENVELOPE_AGE_MS) {
+      throw new EnvelopeError(
+        "stale",
+        `Envelope issued ${now - issuedAt}ms ago is outside the accepted window`
+      );
+    }
+    if (this.seenNonces.has(nonce)) {
+      throw new EnvelopeError("duplicate", `Envelope nonce ${nonce} was already used`);
+    }
+    this.seenNonces.set(nonce, issuedAt);
+  }
+
+  private prune(now: number) {
+    for (const [nonce, issuedAt] of this.seenNonces.entries()) {
+      if (now - issuedAt > MAX_ENVELOPE_AGE_MS) {
+        this.seenNonces.delete(nonce);
+      }
+    }
+  }
+}
+
+export function verifyEnvelope(
+  envelope: unknown,
+  secret: string,
+  replayGuard: ReplayGuard
+): SignedEnvelope<unknown> {
+  if (!isSignedEnvelope(envelope)) {
+    throw new EnvelopeError("malformed", "Frame is not a signed envelope");
+  }
+
+  const expected = Buffer.from(
+    createSignature(secret, envelope.nonce, envelope.issuedAt, envelope.payload)
+  );
+  const actual = Buffer.from(envelope.signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new EnvelopeError("invalid-signature", "Invalid message signature");
+  }
+
+  // Only record the nonce once the signature is known to be genuine
+  replayGuard.check(envelope.nonce, envelope.issuedAt);
+  return envelope;
+}
@@ -0,0 +1,38 @@
+import type { ErrorCode } from "@browser-control-mcp/common";
+
+// Error of a browser command, carrying the code reported by the extension or
+// assigned by the server
+export class BrowserApiError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = "BrowserApiError";
+    this.code = code;
+  }
+}
+
+// What the agent can do about each error
+export const ERROR_HINTS: Record<ErrorCode, string> = {
+  INVALID_ARGUMENT: "Fix the tool arguments and try again.",
+  TAB_NOT_FOUND:
+    "The tab may have been closed or is still loading. List the open tabs to get a valid tab id, or wait and retry.",
+  DOMAIN_DENIED:
+    "The user blocked this domain in the extension settings. Do not retry, ask the user to allow the domain.",
+  TOOL_DISABLED:
+    "The user disabled this tool in the extension settings. Do not retry, ask the user to enable it.",
+  ELEMENT_NOT_FOUND:
+    "Check the selector against the page content, or wait for the element to appear and retry.",
+  TIMEOUT: "The browser did not respond in time. Retry, possibly with a longer timeout.",
+  CANCELLED: "The request was cancelled. Retry if it is still needed.",
+  NOT_CONNECTED:
+    "Make sure the browser is running with the extension installed and connected. List the connected browsers to get a valid browser id.",
+  UNSUPPORTED_COMMAND: "Ask the user to update the browser extension.",
+  PERMISSION_REQUIRED:
+    "The browser does not allow this on the page. Try another page or ask the user to grant the permission.",
+  INTERNAL: "Retry once. If it fails again, try another approach.",
+};
+
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof BrowserApiError ? error.code : "INTERNAL";
+}
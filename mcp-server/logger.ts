@@ -0,0 +1,30 @@
+// Levels in decreasing order of severity
+export const LOG_LEVELS = ["error", "warn", "info", "debug"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+let currentLevel: LogLevel = "info";
+
+export function setLogLevel(level: LogLevel) {
+  currentLevel = level;
+}
+
+function isEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(currentLevel);
+}
+
+// Everything goes to stderr: in stdio mode, stdout carries the MCP messages
+export const logger = {
+  error(...args: unknown[]) {
+    if (isEnabled("error")) console.error(...args);
+  },
+  warn(...args: unknown[]) {
+    if (isEnabled("warn")) console.error(...args);
+  },
+  info(...args: unknown[]) {
+    if (isEnabled("info")) console.error(...args);
+  },
+  debug(...args: unknown[]) {
+    if (isEnabled("debug")) console.error(...args);
+  },
+};
@@ -0,0 +1,187 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger";
+
+// Path of the MCP endpoint
+const MCP_PATH = "/mcp";
+// Largest JSON-RPC message accepted when opening a session
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Sessions without any request, open stream included, for this long are
+// closed, as clients may go away without deleting their session
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Token the MCP clients send in the Authorization header
+  authToken: string;
+  // Creates the MCP server of a new client session
+  createServer: () => McpServer;
+  // Defaults to SESSION_IDLE_TIMEOUT_MS
+  sessionIdleTimeoutMs?: number;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  // Requests of the session still being answered, including the SSE streams
+  openRequests: number;
+  lastActiveAt: number;
+}
+
+/**
+ * Serves MCP over streamable HTTP (with SSE for the server-initiated
+ * messages), so that many MCP clients share this process and its browser
+ * connections. Each client gets its own session, with its own McpServer.
+ */
+export function serveHttp(options: HttpServerOptions): Promise<http.Server> {
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? SESSION_IDLE_TIMEOUT_MS;
+  // The open sessions, by session ID
+  const sessions = new Map<string, HttpSession>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      await handleRequest(req, res);
+    } catch (error) {
+      logger.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end();
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (sessionId !== undefined) {
+      const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    // Without a session ID, only an initialize request is accepted, which
+    // opens a new session
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, "Parse error");
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        const session: HttpSession = { transport, openRequests: 0, lastActiveAt: Date.now() };
+        sessions.set(newSessionId, session);
+        trackRequest(session, res);
+        logger.info(`MCP client session opened: ${newSessionId}`);
+      },
+    });
+    await options.createServer().connect(transport);
+    // connect() replaces the close callback, chain ours after it
+    const onServerClose = transport.onclose;
+    transport.onclose = () => {
+      onServerClose?.();
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info(`MCP client session closed: ${transport.sessionId}`);
+      }
+    };
+    await transport.handleRequest(req, res, body);
+  }
+
+  // Keeps the session alive until the response, or the stream, ends
+  function trackRequest(session: HttpSession, res: http.ServerResponse) {
+    session.openRequests++;
+    res.once("close", () => {
+      session.openRequests--;
+      session.lastActiveAt = Date.now();
+    });
+  }
+
+  const idleCheck = setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions.entries()) {
+      if (session.openRequests === 0 && now - session.lastActiveAt > idleTimeoutMs) {
+        logger.info(`MCP client session ${sessionId} idle for ${now - session.lastActiveAt}ms, closing it`);
+        // Its close callback forgets the session
+        session.transport.close().catch((error) => {
+          logger.error(`Failed to close MCP client session ${sessionId}:`, error);
+        });
+      }
+    }
+  }, Math.min(idleTimeoutMs, 60_000));
+  idleCheck.unref();
+  httpServer.once("close", () => clearInterval(idleCheck));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+}
+
+function isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return false;
+  }
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(header.slice("Bearer ".length));
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string
+) {
+  res
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
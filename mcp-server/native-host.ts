@@ -0,0 +1,55 @@
+/**
+ * Native messaging host started by the browser when the extension uses the
+ * native messaging transport. It relays the messages between the extension
+ * (length-prefixed JSON on stdin/stdout) and the MCP server (newline-delimited
+ * JSON on the socket opened by NativeMessagingTransport).
+ *
+ * Install it with `npm run install-native-host`, see native-manifest.ts.
+ * Nothing but native messages may be written to stdout.
+ */
+import * as net from "net";
+import { getNativeSocketPath, splitLines } from "./native-transport";
+
+const socketPath = getNativeSocketPath();
+const server = net.connect(socketPath);
+
+// The browser restarts the host when it exits, so that it reconnects to the
+// next MCP server started
+server.on("error", (error) => {
+  console.error(`Cannot reach the MCP server on ${socketPath}:`, error.message);
+  process.exit(1);
+});
+server.on("close", () => {
+  process.exit(0);
+});
+
+// MCP server -> extension
+server.setEncoding("utf8");
+server.on(
+  "data",
+  splitLines((line) => {
+    const message = Buffer.from(line, "utf8");
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(message.length, 0);
+    process.stdout.write(Buffer.concat([header, message]));
+  })
+);
+
+// Extension -> MCP server. Writes made before the socket is connected are
+// buffered, so the extension hello is not lost.
+let pending = Buffer.alloc(0);
+process.stdin.on("data", (chunk: Buffer) => {
+  pending = Buffer.concat([pending, chunk]);
+  while (pending.length >= 4) {
+    const length = pending.readUInt32LE(0);
+    if (pending.length < 4 + length) {
+      break;
+    }
+    // The browser serializes the messages without line breaks
+    server.write(pending.subarray(4, 4 + length).toString("utf8") + "\n");
+    pending = pending.subarray(4 + length);
+  }
+});
+process.stdin.on("end", () => {
+  server.end();
+});
@@ -0,0 +1,75 @@
+/**
+ * Registers the native messaging host (native-host.ts) with Firefox, for the
+ * extension with the given ID (shown on the extension's options page):
+ *
+ *   npm run install-native-host -- --extension-id <id>
+ *
+ * Writes a launcher script next to this file and the host manifest where
+ * Firefox looks for it. On Windows, the manifest has to be registered in the
+ * registry with the printed command.
+ */
+import * as fs from "fs";
+import * as os from "os";
+import { join } from "path";
+import { NATIVE_HOST_NAME } from "./native-transport";
+
+function getManifestDir(): string {
+  switch (process.platform) {
+    case "win32":
+      // Looked up through the registry, keep it next to the launcher
+      return __dirname;
+    case "darwin":
+      return join(os.homedir(), "Library", "Application Support", "Mozilla", "NativeMessagingHosts");
+    default:
+      return join(os.homedir(), ".mozilla", "native-messaging-hosts");
+  }
+}
+
+// Firefox runs the host without arguments or environment, so the launcher
+// points at the node binary running this script
+function writeLauncher(): string {
+  const hostScript = join(__dirname, "native-host.js");
+  if (process.platform === "win32") {
+    const launcher = join(__dirname, "native-host.bat");
+    fs.writeFileSync(launcher, `@echo off\r\n"${process.execPath}" "${hostScript}" %*\r\n`);
+    return launcher;
+  }
+  const launcher = join(__dirname, "native-host.sh");
+  fs.writeFileSync(launcher, `#!/bin/sh\nexec "${process.execPath}" "${hostScript}" "$@"\n`);
+  fs.chmodSync(launcher, 0o755);
+  return launcher;
+}
+
+function main() {
+  const idIndex = process.argv.indexOf("--extension-id");
+  const extensionId = idIndex !== -1 ? process.argv[idIndex + 1] : undefined;
+  if (!extensionId) {
+    console.error("Usage: npm run install-native-host -- --extension-id <id>");
+    console.error("The extension ID is shown on the extension's options page.");
+    process.exit(1);
+  }
+
+  const launcher = writeLauncher();
+  const manifest = {
+    name: NATIVE_HOST_NAME,
+    description: "Browser Control MCP native messaging host",
+    path: launcher,
+    type: "stdio",
+    allowed_extensions: [extensionId],
+  };
+  const manifestDir = getManifestDir();
+  fs.mkdirSync(manifestDir, { recursive: true });
+  const manifestPath = join(manifestDir, `${NATIVE_HOST_NAME}.json`);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+  console.error(`Native messaging host manifest written to ${manifestPath}`);
+
+  if (process.platform === "win32") {
+    console.error("Register it by running:");
+    console.error(
+      `  reg add "HKCU\\Software\\Mozilla\\NativeMessagingHosts\\${NATIVE_HOST_NAME}" ` +
+      `/ve /t REG_SZ /d "${manifestPath}" /f`
+    );
+  }
+}
+
+main();
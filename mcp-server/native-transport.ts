@@ -0,0 +1,156 @@
+import * as net from "net";
+import * as fs from "fs";
+import * as os from "os";
+import { join } from "path";
+import type {
+  ExtensionSocket,
+  ExtensionTransport,
+  ExtensionTransportListener,
+  ServerPayload,
+} from "./transport";
+import { logger } from "./logger";
+
+// Name of the native messaging host, as registered in its manifest and passed
+// to browser.runtime.connectNative() by the extension
+export const NATIVE_HOST_NAME = "browser_control_mcp";
+
+// Local socket on which the server waits for the native messaging host. Only
+// the current user can connect to it, so the frames are not signed.
+export function getNativeSocketPath(): string {
+  if (process.platform === "win32") {
+    return `\\\\.\\pipe\\browser-control-mcp-${os.userInfo().username}`;
+  }
+  const dir = process.env.XDG_RUNTIME_DIR || os.tmpdir();
+  return join(dir, `browser-control-mcp-${os.userInfo().uid}.sock`);
+}
+
+// Splits a stream of newline-delimited JSON into its lines
+export function splitLines(onLine: (line: string) => void): (chunk: string) => void {
+  let buffer = "";
+  return (chunk) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      if (line.trim()) {
+        onLine(line);
+      }
+    }
+  };
+}
+
+// The connection to the native messaging host, which relays the payloads to
+// and from the extension
+class NativeHostSocket implements ExtensionSocket {
+  constructor(private readonly connection: net.Socket) {}
+
+  send(payload: ServerPayload) {
+    this.connection.write(JSON.stringify(payload) + "\n");
+  }
+
+  isOpen() {
+    return !this.connection.destroyed && this.connection.writable;
+  }
+
+  close() {
+    this.connection.end();
+  }
+}
+
+/**
+ * Waits for the native messaging host started by the browser (see
+ * native-host.ts) on a local socket. No port is opened and no secret needs to
+ * be shared: the browser only starts the hosts registered for the extension.
+ */
+export class NativeMessagingTransport implements ExtensionTransport {
+  private server: net.Server | null = null;
+  private readonly socketPath: string = getNativeSocketPath();
+  private connections: Set<net.Socket> = new Set();
+
+  async listen(listener: ExtensionTransportListener) {
+    await this.removeStaleSocket();
+
+    const server = net.createServer((connection) => {
+      this.connections.add(connection);
+      const socket = new NativeHostSocket(connection);
+      listener.onConnect(socket);
+
+      connection.setEncoding("utf8");
+      connection.on(
+        "data",
+        splitLines((line) => {
+          let payload: unknown;
+          try {
+            payload = JSON.parse(line);
+          } catch (error) {
+            logger.warn("Rejected malformed frame from native messaging host");
+            return;
+          }
+          listener.onPayload(socket, payload);
+        })
+      );
+      connection.on("error", (error) => {
+        logger.error("Native messaging host connection error:", error);
+      });
+      connection.on("close", () => {
+        this.connections.delete(connection);
+        listener.onDisconnect(socket);
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    if (process.platform !== "win32") {
+      fs.chmodSync(this.socketPath, 0o600);
+    }
+    server.on("error", (error) => {
+      logger.error("Native messaging socket error:", error);
+    });
+    this.server = server;
+    return `native messaging socket ${this.socketPath}`;
+  }
+
+  getPort() {
+    return undefined;
+  }
+
+  close() {
+    for (const connection of this.connections) {
+      connection.destroy();
+    }
+    this.connections.clear();
+    if (this.server) {
+      logger.info(`Closing native messaging socket ${this.socketPath}`);
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  // A socket file left behind by a server that crashed makes listen() fail,
+  // but one that still accepts connections belongs to a running server
+  private async removeStaleSocket() {
+    if (process.platform === "win32" || !fs.existsSync(this.socketPath)) {
+      return;
+    }
+    const isLive = await new Promise<boolean>((resolve) => {
+      const probe = net.connect(this.socketPath);
+      probe.once("connect", () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once("error", () => resolve(false));
+    });
+    if (isLive) {
+      throw new Error(
+        `Another MCP server is already listening on ${this.socketPath}. ` +
+        `Native messaging supports a single MCP server at a time.`
+      );
+    }
+    fs.unlinkSync(this.socketPath);
+  }
+}
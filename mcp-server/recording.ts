@@ -0,0 +1,319 @@
+import * as fs from "fs";
+import {
+  ExtensionError,
+  ExtensionMessage,
+  MalformedMessageError,
+  ProgressExtensionMessage,
+  ServerMessageRequest,
+  parseExtensionPayload,
+} from "@browser-control-mcp/common";
+import type {
+  ExtensionSocket,
+  ExtensionTransport,
+  ExtensionTransportListener,
+  ServerPayload,
+} from "./transport";
+import { logger } from "./logger";
+
+// One line of a recording. Times are in ms since the recording started, and
+// connections are numbered in the order they were opened.
+export type RecordingEntry =
+  | { time: number; connection: number; type: "connect" }
+  | { time: number; connection: number; type: "disconnect" }
+  // Payload sent to the extension
+  | { time: number; connection: number; type: "sent"; payload: ServerPayload }
+  // Payload received from the extension, once its transport verified it, but
+  // before it is validated
+  | { time: number; connection: number; type: "received"; payload: unknown };
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Records the traffic of another transport to a JSONL file: the connections
+ * and every payload sent or received, with its time. Only the payloads are
+ * written, not the envelopes and their signatures.
+ */
+export class RecordingTransport implements ExtensionTransport {
+  private readonly transport: ExtensionTransport;
+  private readonly file: string;
+  private output: fs.WriteStream | null = null;
+  private startedAt: number = 0;
+  private connectionCount: number = 0;
+
+  constructor(transport: ExtensionTransport, file: string) {
+    this.transport = transport;
+    this.file = file;
+  }
+
+  async listen(listener: ExtensionTransportListener) {
+    this.output = fs.createWriteStream(this.file, { flags: "w" });
+    this.output.on("error", (error) => {
+      logger.error(`Failed to write recording ${this.file}:`, error);
+    });
+    this.startedAt = Date.now();
+    logger.info(`Recording extension traffic to ${this.file}`);
+
+    const connections = new Map<ExtensionSocket, RecordedSocket>();
+    return this.transport.listen({
+      onConnect: (socket) => {
+        const recorded = new RecordedSocket(socket, ++this.connectionCount, (entry) => this.write(entry));
+        connections.set(socket, recorded);
+        this.write({ type: "connect", connection: recorded.connection });
+        listener.onConnect(recorded);
+      },
+      onPayload: (socket, payload) => {
+        const recorded = connections.get(socket);
+        if (!recorded) {
+          return;
+        }
+        this.write({ type: "received", connection: recorded.connection, payload });
+        listener.onPayload(recorded, payload);
+      },
+      onDisconnect: (socket) => {
+        const recorded = connections.get(socket);
+        if (!recorded) {
+          return;
+        }
+        connections.delete(socket);
+        this.write({ type: "disconnect", connection: recorded.connection });
+        listener.onDisconnect(recorded);
+      },
+    });
+  }
+
+  getPort() {
+    return this.transport.getPort();
+  }
+
+  close() {
+    this.transport.close();
+    this.output?.end();
+    this.output = null;
+  }
+
+  private write(entry: DistributiveOmit<RecordingEntry, "time">) {
+    const line = JSON.stringify({ time: Date.now() - this.startedAt, ...entry });
+    this.output?.write(line + "\n");
+  }
+}
+
+class RecordedSocket implements ExtensionSocket {
+  constructor(
+    private readonly socket: ExtensionSocket,
+    readonly connection: number,
+    private readonly write: (entry: DistributiveOmit<RecordingEntry, "time">) => void
+  ) {}
+
+  send(payload: ServerPayload) {
+    this.write({ type: "sent", connection: this.connection, payload });
+    this.socket.send(payload);
+  }
+
+  isOpen() {
+    return this.socket.isOpen();
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+export function readRecording(file: string): RecordingEntry[] {
+  const lines = fs.readFileSync(file, "utf8").split("\n");
+  const entries: RecordingEntry[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`Invalid recording ${file}, line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  return entries;
+}
+
+type RecordedAnswer = ExtensionMessage | ExtensionError | ProgressExtensionMessage;
+
+// A request of the recording and the payloads the extension answered it
+// with: progress, then the response or an error
+interface RecordedExchange {
+  request: ServerMessageRequest;
+  time: number;
+  // Delay of each answer after the request, in ms
+  answers: { delay: number; payload: RecordedAnswer }[];
+  replayed: boolean;
+}
+
+// Identifies the requests with the same command and parameters
+function requestKey(request: ServerMessageRequest): string {
+  const { correlationId, deadline, ...parameters } = request;
+  return JSON.stringify(parameters);
+}
+
+// The received payload as an answer to a request, undefined for the payloads
+// the extension sent on its own and for the malformed ones, which are
+// replayed as they are
+function parseRecordedAnswer(payload: unknown): RecordedAnswer | undefined {
+  try {
+    const message = parseExtensionPayload(payload);
+    return "correlationId" in message ? message : undefined;
+  } catch (error) {
+    if (error instanceof MalformedMessageError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Plays a recording back as a stand-in for the extensions, so that the
+ * server's tools can be run offline, without a browser. The recorded
+ * connections say hello and push their browser events again, at the times
+ * they did. Each request is answered with the recorded answers of the first
+ * request not replayed yet with the same command and parameters, or else
+ * with the same command.
+ */
+export class ReplayTransport implements ExtensionTransport {
+  private readonly file: string;
+  private sockets: ReplaySocket[] = [];
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async listen(listener: ExtensionTransportListener) {
+    const entries = readRecording(this.file);
+    const connections = new Map<number, RecordingEntry[]>();
+    for (const entry of entries) {
+      const connectionEntries = connections.get(entry.connection) ?? [];
+      connectionEntries.push(entry);
+      connections.set(entry.connection, connectionEntries);
+    }
+    for (const connectionEntries of connections.values()) {
+      const socket = new ReplaySocket(connectionEntries, listener);
+      this.sockets.push(socket);
+      socket.start();
+    }
+    return `recording ${this.file} (${connections.size} connection(s))`;
+  }
+
+  getPort() {
+    return undefined;
+  }
+
+  close() {
+    for (const socket of this.sockets) {
+      socket.close();
+    }
+    this.sockets = [];
+  }
+}
+
+class ReplaySocket implements ExtensionSocket {
+  private readonly exchanges: RecordedExchange[] = [];
+  // Payloads the extension sent on its own (hello, browser events), with their
+  // delay after the connection opened
+  private readonly unsolicited: { delay: number; payload: unknown }[] = [];
+  // Timers of the answers being played, by correlationId of the request
+  private readonly pending: Map<string, NodeJS.Timeout[]> = new Map();
+  private readonly timers: Set<NodeJS.Timeout> = new Set();
+  private open: boolean = false;
+
+  constructor(
+    entries: RecordingEntry[],
+    private readonly listener: ExtensionTransportListener
+  ) {
+    const connectedAt = entries.find((entry) => entry.type === "connect")?.time ?? entries[0].time;
+    const exchangesById = new Map<string, RecordedExchange>();
+    for (const entry of entries) {
+      if (entry.type === "sent" && "correlationId" in entry.payload && entry.payload.cmd !== "cancel") {
+        const exchange = { request: entry.payload, time: entry.time, answers: [], replayed: false };
+        exchangesById.set(entry.payload.correlationId, exchange);
+        this.exchanges.push(exchange);
+      } else if (entry.type === "received") {
+        const answer = parseRecordedAnswer(entry.payload);
+        const exchange = answer && exchangesById.get(answer.correlationId);
+        if (exchange) {
+          exchange.answers.push({ delay: entry.time - exchange.time, payload: answer });
+        } else {
+          this.unsolicited.push({ delay: entry.time - connectedAt, payload: entry.payload });
+        }
+      }
+    }
+  }
+
+  start() {
+    this.open = true;
+    this.listener.onConnect(this);
+    for (const { delay, payload } of this.unsolicited) {
+      this.schedule(delay, () => this.listener.onPayload(this, payload));
+    }
+  }
+
+  send(payload: ServerPayload) {
+    if (!this.open || payload.cmd === "server-hello") {
+      return;
+    }
+    if (payload.cmd === "cancel") {
+      for (const timer of this.pending.get(payload.correlationId) ?? []) {
+        clearTimeout(timer);
+        this.timers.delete(timer);
+      }
+      this.pending.delete(payload.correlationId);
+      return;
+    }
+
+    const key = requestKey(payload);
+    const remaining = this.exchanges.filter((exchange) => !exchange.replayed);
+    const exchange =
+      remaining.find((exchange) => requestKey(exchange.request) === key) ??
+      remaining.find((exchange) => exchange.request.cmd === payload.cmd);
+    if (!exchange) {
+      logger.warn(`No recorded answer to ${payload.cmd}`);
+      this.schedule(0, () =>
+        this.listener.onPayload(this, {
+          correlationId: payload.correlationId,
+          errorMessage: `The recording has no answer to ${payload.cmd}`,
+          errorCode: "INTERNAL",
+        })
+      );
+      return;
+    }
+
+    exchange.replayed = true;
+    const timers = exchange.answers.map(({ delay, payload: answer }) =>
+      this.schedule(delay, () =>
+        this.listener.onPayload(this, { ...answer, correlationId: payload.correlationId })
+      )
+    );
+    this.pending.set(payload.correlationId, timers);
+  }
+
+  isOpen() {
+    return this.open;
+  }
+
+  close() {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.pending.clear();
+    this.listener.onDisconnect(this);
+  }
+
+  private schedule(delay: number, play: () => void): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      play();
+    }, Math.max(delay, 0));
+    this.timers.add(timer);
+    return timer;
+  }
+}
@@ -3,906 +3,1654 @@ import {
   ResourceTemplate,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  BrowserEvent,
+  BrowserBookmark,
+  BrowserTab,
+  BrowserWindow,
+  ErrorCode,
+  NavigationResultExtensionMessage,
+} from "@browser-control-mcp/common";
 import { z } from "zod";
-import { BrowserAPI } from "./browser-api";
+import { BrowserAPI, RequestOptions } from "./browser-api";
+import type { ExtensionTransport } from "./transport";
+import { WebSocketTransport } from "./websocket-transport";
+import { NativeMessagingTransport } from "./native-transport";
+import { RecordingTransport, ReplayTransport } from "./recording";
+import { serveHttp } from "./mcp-http";
+import { ERROR_HINTS, getErrorCode } from "./errors";
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
 import * as fs from "fs";
 import * as path from "path";
+import { logger, setLogLevel } from "./logger";
+import { ConfigError, ServerConfig, loadConfig } from "./config";
 
 dayjs.extend(relativeTime);
 
-const mcpServer = new McpServer({
-  name: "BrowserControl",
-  version: "1.3.0",
-});
-
-mcpServer.tool(
-  "open-browser-tab",
-  "Open a new tab in the user's browser",
-  { url: z.string() },
-  async ({ url }) => {
-    const openedTabId = await browserApi.openTab(url);
-    if (openedTabId !== undefined) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `${url} opened in tab id ${openedTabId}`,
-          },
-        ],
-      };
-    } else {
-      return {
-        content: [{ type: "text", text: "Failed to open tab", isError: true }],
-      };
-    }
+// Every browser tool accepts an optional browserId to target one of the
+// connected browsers (see list-connected-browsers). When omitted, the most
+// recently connected browser is used.
+const browserIdSchema = z.string().optional();
+
+// Maximum time in ms the navigation tools wait for the page to load. The tab is
+// reported as soon as the navigation starts when omitted.
+const waitForLoadSchema = z.number().int().min(0).max(30000).optional();
+
+// Name of a saved tab session, also its file name in the session directory
+const sessionNameSchema = z.string().min(1).max(100);
+
+// Result of a failed tool call. The error code and the hint let the agent tell
+// retryable conditions from policy denials.
+function errorResult(message: string, code: ErrorCode) {
+  return {
+    content: [
+      { type: "text" as const, text: `${message} (error code: ${code})` },
+      { type: "text" as const, text: `Hint: ${ERROR_HINTS[code]}` },
+    ],
+    isError: true,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+function describeTab(tab: BrowserTab): string {
+  let lastAccessed = "unknown";
+  if (tab.lastAccessed) {
+    lastAccessed = dayjs(tab.lastAccessed).fromNow(); // LLM-friendly time ago
+  }
+  const state = [
+    tab.active && "active",
+    tab.status === "loading" && "loading",
+    tab.pinned && "pinned",
+    tab.audible && "audible",
+    tab.mutedInfo?.muted && "muted",
+    tab.discarded && "discarded",
+    tab.incognito && "incognito",
+  ].filter(Boolean);
+  return (
+    `tab id=${tab.id}, tab url=${tab.url}, tab title=${tab.title}, last accessed=${lastAccessed}` +
+    (tab.windowId !== undefined ? `, window id=${tab.windowId}, index=${tab.index}` : "") +
+    (tab.cookieStoreId !== undefined ? `, container=${tab.cookieStoreId}` : "") +
+    (state.length > 0 ? `, state=${state.join(",")}` : "")
+  );
+}
+
+function describeWindow(window: BrowserWindow): string {
+  const bounds =
+    window.width !== undefined && window.height !== undefined
+      ? `${window.width}x${window.height} at ${window.left ?? 0},${window.top ?? 0}`
+      : "unknown";
+  return (
+    `window id=${window.id}, type=${window.type}, state=${window.state}, ` +
+    `focused=${window.focused}, incognito=${window.incognito}, bounds=${bounds}, tabs=${window.tabCount}`
+  );
+}
+
+function describeNavigation(result: NavigationResultExtensionMessage): string {
+  return (
+    `tab id=${result.tabId}, url=${result.url}, title=${result.title}, status=${result.status}, ` +
+    `http status=${result.httpStatus ?? "unknown"}`
+  );
+}
+
+function describeBookmark(bookmark: BrowserBookmark): string {
+  return (
+    `${bookmark.type} id=${bookmark.id}, title=${bookmark.title}` +
+    (bookmark.url !== undefined ? `, url=${bookmark.url}` : "") +
+    (bookmark.parentId !== undefined ? `, parent id=${bookmark.parentId}` : "") +
+    (bookmark.createdByAgent ? ", created by agent" : "")
+  );
+}
+
+// Folders of a bookmark path such as "agent findings/2026-10-18"
+function splitFolderPath(folderPath: string): string[] {
+  return folderPath.split("/").filter((title) => title.trim() !== "");
+}
+
+// Forwards the progress frames of a long-running command as MCP progress
+// notifications, when the client asked for them with a progress token
+function forwardProgress({
+  _meta,
+  sendNotification,
+}: RequestHandlerExtra<ServerRequest, ServerNotification>): RequestOptions["onProgress"] {
+  const progressToken = _meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
   }
-);
-
-mcpServer.tool(
-  "close-browser-tabs",
-  "Close tabs in the user's browser by tab IDs",
-  { tabIds: z.array(z.number()) },
-  async ({ tabIds }) => {
-    await browserApi.closeTabs(tabIds);
+  return ({ progress, total, message }) => {
+    sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    }).catch((error) => {
+      logger.error("Failed to send progress notification:", error);
+    });
+  };
+}
+
+// One MCP client connection: the stdio client, or one HTTP session
+interface McpSession {
+  server: McpServer;
+  // Resources the client subscribed to. The events pushed by the browsers
+  // tell which of them changed.
+  subscribedUris: Set<string>;
+  // Aborted when the client disconnects, to cancel its pending browser
+  // requests without affecting the other clients
+  abortController: AbortController;
+}
+
+const sessions = new Set<McpSession>();
+
+// Creates the MCP server of a client, with the browser tools served by the
+// given BrowserAPI
+export function createMcpSession(browserApi: BrowserAPI): McpSession {
+  const mcpServer = new McpServer({
+    name: "BrowserControl",
+    version: "1.3.0",
+  });
+  const session: McpSession = {
+    server: mcpServer,
+    subscribedUris: new Set(),
+    abortController: new AbortController(),
+  };
+
+  // Options of the browser requests made for a tool call of this client
+  function requestOptions(browserId: string | undefined, signal: AbortSignal): RequestOptions {
     return {
-      content: [{ type: "text", text: "Closed tabs" }],
+      browserId,
+      signal: AbortSignal.any([signal, session.abortController.signal]),
     };
   }
-);
-
-mcpServer.tool(
-  "get-list-of-open-tabs",
-  "Get the list of open tabs in the user's browser",
-  {},
-  async () => {
-    const openTabs = await browserApi.getTabList();
-    return {
-      content: openTabs.map((tab) => {
-        let lastAccessed = "unknown";
-        if (tab.lastAccessed) {
-          lastAccessed = dayjs(tab.lastAccessed).fromNow(); // LLM-friendly time ago
-        }
+
+  mcpServer.tool(
+    "list-connected-browsers",
+    "List the browsers (extension instances) currently connected to this MCP server. Use the browser id as browserId in other tools to target a specific browser",
+    {},
+    async () => {
+      const browsers = browserApi.getConnectedBrowsers();
+      if (browsers.length === 0) {
         return {
-          type: "text",
-          text: `tab id=${tab.id}, tab url=${tab.url}, tab title=${tab.title}, last accessed=${lastAccessed}`,
+          content: [{ type: "text", text: "No browser is connected" }],
         };
-      }),
-    };
-  }
-);
-
-mcpServer.tool(
-  "get-recent-browser-history",
-  "Get the list of recent browser history (to get all, don't use searchQuery)",
-  { searchQuery: z.string().optional() },
-  async ({ searchQuery }) => {
-    const browserHistory = await browserApi.getBrowserRecentHistory(
-      searchQuery
-    );
-    if (browserHistory.length > 0) {
+      }
       return {
-        content: browserHistory.map((item) => {
-          let lastVisited = "unknown";
-          if (item.lastVisitTime) {
-            lastVisited = dayjs(item.lastVisitTime).fromNow(); // LLM-friendly time ago
-          }
+        content: browsers.map((browser, index) => {
+          const isDefault = index === browsers.length - 1;
+          const profile = browser.profileLabel ? `, profile=${browser.profileLabel}` : "";
           return {
             type: "text",
-            text: `url=${item.url}, title="${item.title}", lastVisitTime=${lastVisited}`,
+            text:
+              `browser id=${browser.browserId}, name=${browser.browserName}${profile}, ` +
+              `extension version=${browser.extensionVersion}, protocol version=${browser.protocolVersion}, ` +
+              `connected=${dayjs(browser.connectedAt).fromNow()}${isDefault ? ", default" : ""}`,
           };
         }),
       };
-    } else {
-      // If nothing was found for the search query, hint the AI to list
-      // all the recent history items instead.
-      const hint = searchQuery ? "Try without a searchQuery" : "";
-      return { content: [{ type: "text", text: `No history found. ${hint}` }] };
     }
-  }
-);
-
-mcpServer.tool(
-  "get-tab-web-content",
-  `
-    Get the full text content of the webpage and the list of links in the webpage, by tab ID. 
-    Use "offset" only for larger documents when the first call was truncated and if you require more content in order to assist the user.
-  `,
-  { tabId: z.number(), offset: z.number().default(0) },
-  async ({ tabId, offset }) => {
-    const content = await browserApi.getTabContent(tabId, offset);
-    let links: { type: "text"; text: string }[] = [];
-    if (offset === 0) {
-      // Only include the links if offset is 0 (default value). Otherwise, we can
-      // assume this is not the first call. Adding the links again would be redundant.
-      links = content.links.map((link: { text: string; url: string }) => {
-        return {
-          type: "text",
-
-          text: `Link text: ${link.text}, Link URL: ${link.url}`,
-        };
-      });
+  );
+
+  mcpServer.tool(
+    "open-browser-tab",
+    "Open a new tab in the user's browser, optionally in a Firefox container (see list-browser-containers)",
+    { url: z.string(), cookieStoreId: z.string().optional(), browserId: browserIdSchema },
+    async ({ url, cookieStoreId, browserId }, { signal }) => {
+      try {
+        const openedTabId = await browserApi.openTab(url, cookieStoreId, requestOptions(browserId, signal));
+        if (openedTabId !== undefined) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${url} opened in tab id ${openedTabId}`,
+              },
+            ],
+          };
+        } else {
+          return errorResult("Failed to open tab", "INTERNAL");
+        }
+      } catch (error) {
+        return errorResult(`Failed to open tab: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
+  );
 
-    let text = content.fullText;
-    let hint: { type: "text"; text: string }[] = [];
-    if (content.isTruncated || offset > 0) {
-      // If the content is truncated, add a "tip" suggesting
-      // that another tool, search in page, can be used to
-      // discover additional data.
-      const rangeString = `${offset}-${offset + text.length}`;
-      hint = [
-        {
-          type: "text",
-          text:
-            `The following text content is truncated due to size (includes character range ${rangeString} out of ${content.totalLength}). ` +
-            "If you want to read characters beyond this range, please use the 'get-tab-web-content' tool with an offset. ",
-        },
-      ];
+  mcpServer.tool(
+    "close-browser-tabs",
+    "Close tabs in the user's browser by tab IDs",
+    { tabIds: z.array(z.number()), browserId: browserIdSchema },
+    async ({ tabIds, browserId }, { signal }) => {
+      try {
+        await browserApi.closeTabs(tabIds, requestOptions(browserId, signal));
+        return {
+          content: [{ type: "text", text: "Closed tabs" }],
+        };
+      } catch (error) {
+        return errorResult(`Failed to close tabs: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
+  );
 
-    return {
-      content: [...hint, { type: "text", text }, ...links],
-    };
-  }
-);
-
-mcpServer.tool(
-  "reorder-browser-tabs",
-  "Change the order of open browser tabs",
-  { tabOrder: z.array(z.number()) },
-  async ({ tabOrder }) => {
-    const newOrder = await browserApi.reorderTabs(tabOrder);
-    return {
-      content: [
-        { type: "text", text: `Tabs reordered: ${newOrder.join(", ")}` },
-      ],
-    };
-  }
-);
-
-mcpServer.tool(
-  "find-highlight-in-browser-tab",
-  "Find and highlight text in a browser tab (use a query phrase that exists in the web content)",
-  { tabId: z.number(), queryPhrase: z.string() },
-  async ({ tabId, queryPhrase }) => {
-    const noOfResults = await browserApi.findHighlight(tabId, queryPhrase);
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Number of results found and highlighted in the tab: ${noOfResults}`,
-        },
-      ],
-    };
-  }
-);
-
-mcpServer.tool(
-  "take-screenshot",
-  "Take a screenshot of a browser tab and return it as base64 encoded image data",
-  {
-    tabId: z.number(),
-    format: z.enum(["png", "jpeg"]).default("png"),
-    quality: z.number().min(0).max(100).optional()
-  },
-  async ({ tabId, format, quality }) => {
-    try {
-      const screenshot = await browserApi.takeScreenshot(tabId, format, quality);
-      
-      // Create response text based on whether file was saved
-      const mainMessage = screenshot.filePath
-        ? `Screenshot saved to: ${screenshot.filePath}`
-        : `Screenshot captured from tab ${tabId} in ${screenshot.format} format`;
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: mainMessage,
-          },
-          {
-            type: "text",
-            text: `Format: ${screenshot.format}`,
-          },
+  mcpServer.tool(
+    "get-list-of-open-tabs",
+    "Get the list of open tabs in the user's browser. The tabs can be filtered by URL glob (e.g. *://*.example.com/*), " +
+      "title, window, state and last access time, sorted and paginated with offset and limit",
+    {
+      urlPattern: z.string().optional(),
+      titleContains: z.string().optional(),
+      windowId: z.number().optional(),
+      active: z.boolean().optional(),
+      pinned: z.boolean().optional(),
+      audible: z.boolean().optional(),
+      lastAccessedAfter: z.string().datetime({ offset: true }).optional(),
+      lastAccessedBefore: z.string().datetime({ offset: true }).optional(),
+      sortBy: z.enum(["index", "lastAccessed", "title", "url"]).optional(),
+      sortOrder: z.enum(["asc", "desc"]).default("asc"),
+      offset: z.number().int().min(0).default(0),
+      limit: z.number().int().positive().optional(),
+      browserId: browserIdSchema,
+    },
+    async ({ lastAccessedAfter, lastAccessedBefore, browserId, ...query }, { signal }) => {
+      try {
+        const { tabs, totalCount } = await browserApi.queryTabs(
           {
-            type: "text",
-            text: `Timestamp: ${new Date(screenshot.timestamp).toISOString()}`,
+            ...query,
+            lastAccessedAfter: lastAccessedAfter !== undefined ? Date.parse(lastAccessedAfter) : undefined,
+            lastAccessedBefore: lastAccessedBefore !== undefined ? Date.parse(lastAccessedBefore) : undefined,
           },
-          {
-            type: "text",
-            text: `Image data (base64): ${screenshot.imageData.substring(0, 100)}...`,
-          }
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
+          requestOptions(browserId, signal)
+        );
+        if (totalCount === 0) {
+          return { content: [{ type: "text", text: "No matching tabs" }] };
+        }
+        const content = tabs.map((tab) => ({ type: "text" as const, text: describeTab(tab) }));
+        if (tabs.length < totalCount) {
+          const first = query.offset + 1;
+          const next = query.offset + tabs.length;
+          content.push({
             type: "text",
-            text: `Failed to take screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+            text:
+              tabs.length > 0
+                ? `Showing tabs ${first}-${next} of ${totalCount} matching tabs` +
+                  (next < totalCount ? `, use offset=${next} for the next page` : "")
+                : `No tabs at offset ${query.offset}, ${totalCount} tabs match`,
+          });
+        }
+        return { content };
+      } catch (error) {
+        return errorResult(`Failed to list tabs: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "scroll-to-position",
-  "Scroll to absolute coordinates in a browser tab",
-  {
-    tabId: z.number(),
-    x: z.number().min(0).default(0),
-    y: z.number().min(0),
-    behavior: z.enum(["auto", "smooth"]).default("smooth")
-  },
-  async ({ tabId, x, y, behavior }) => {
-    try {
-      const result = await browserApi.scrollToPosition(tabId, x, y, behavior);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Scroll failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Final position: x=${result.finalPosition.x}, y=${result.finalPosition.y}`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          }
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to scroll: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+  );
+
+  mcpServer.tool(
+    "get-recent-browser-history",
+    "Get the list of recent browser history (to get all, don't use searchQuery)",
+    { searchQuery: z.string().optional(), browserId: browserIdSchema },
+    async ({ searchQuery, browserId }, { signal }) => {
+      try {
+        const browserHistory = await browserApi.getBrowserRecentHistory(
+          searchQuery,
+          requestOptions(browserId, signal)
+        );
+        if (browserHistory.length > 0) {
+          return {
+            content: browserHistory.map((item) => {
+              let lastVisited = "unknown";
+              if (item.lastVisitTime) {
+                lastVisited = dayjs(item.lastVisitTime).fromNow(); // LLM-friendly time ago
+              }
+              return {
+                type: "text",
+                text: `url=${item.url}, title="${item.title}", lastVisitTime=${lastVisited}`,
+              };
+            }),
+          };
+        } else {
+          // If nothing was found for the search query, hint the AI to list
+          // all the recent history items instead.
+          const hint = searchQuery ? "Try without a searchQuery" : "";
+          return { content: [{ type: "text", text: `No history found. ${hint}` }] };
+        }
+      } catch (error) {
+        return errorResult(`Failed to get history: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "scroll-by-offset",
-  "Scroll by relative offset in a browser tab",
-  {
-    tabId: z.number(),
-    deltaX: z.number().default(0),
-    deltaY: z.number(),
-    behavior: z.enum(["auto", "smooth"]).default("smooth")
-  },
-  async ({ tabId, deltaX, deltaY, behavior }) => {
-    try {
-      const result = await browserApi.scrollByOffset(tabId, deltaX, deltaY, behavior);
-      
-      return {
-        content: [
-          {
+  );
+
+  mcpServer.tool(
+    "get-tab-web-content",
+    `
+      Get the full text content of the webpage and the list of links in the webpage, by tab ID. 
+      Use "offset" only for larger documents when the first call was truncated and if you require more content in order to assist the user.
+    `,
+    { tabId: z.number(), offset: z.number().default(0), browserId: browserIdSchema },
+    async ({ tabId, offset, browserId }, { signal }) => {
+      try {
+        const content = await browserApi.getTabContent(tabId, offset, requestOptions(browserId, signal));
+        let links: { type: "text"; text: string }[] = [];
+        if (offset === 0) {
+          // Only include the links if offset is 0 (default value). Otherwise, we can
+          // assume this is not the first call. Adding the links again would be redundant.
+          links = content.links.map((link: { text: string; url: string }) => {
+            return {
+              type: "text",
+
+              text: `Link text: ${link.text}, Link URL: ${link.url}`,
+            };
+          });
+        }
+
+        let text = content.fullText;
+        let hint: { type: "text"; text: string }[] = [];
+        if (content.isTruncated || offset > 0) {
+          // If the content is truncated, add a "tip" suggesting
+          // that another tool, search in page, can be used to
+          // discover additional data.
+          const rangeString = `${offset}-${offset + text.length}`;
+          hint = [
+            {
+              type: "text",
+              text:
+                `The following text content is truncated due to size (includes character range ${rangeString} out of ${content.totalLength}). ` +
+                "If you want to read characters beyond this range, please use the 'get-tab-web-content' tool with an offset. ",
+            },
+          ];
+        }
+
+        return {
+          content: [...hint, { type: "text", text }, ...links],
+        };
+      } catch (error) {
+        return errorResult(`Failed to get tab content: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "reorder-browser-tabs",
+    "Change the order of open browser tabs",
+    { tabOrder: z.array(z.number()), browserId: browserIdSchema },
+    async ({ tabOrder, browserId }, { signal }) => {
+      try {
+        const newOrder = await browserApi.reorderTabs(tabOrder, requestOptions(browserId, signal));
+        return {
+          content: [
+            { type: "text", text: `Tabs reordered: ${newOrder.join(", ")}` },
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to reorder tabs: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "update-browser-tab",
+    "Change the state of a tab: bring it to the front (active), pin or unpin it, mute or unmute it. The omitted states are left unchanged",
+    {
+      tabId: z.number(),
+      active: z.literal(true).optional(),
+      pinned: z.boolean().optional(),
+      muted: z.boolean().optional(),
+      browserId: browserIdSchema,
+    },
+    async ({ tabId, active, pinned, muted, browserId }, { signal }) => {
+      try {
+        const tab = await browserApi.updateTab(tabId, { active, pinned, muted }, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Tab updated: ${describeTab(tab)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to update tab: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "discard-browser-tabs",
+    "Unload background tabs from memory, by tab IDs. They stay open and reload when activated. Active tabs are not discarded",
+    { tabIds: z.array(z.number()), browserId: browserIdSchema },
+    async ({ tabIds, browserId }, { signal }) => {
+      try {
+        const tabs = await browserApi.discardTabs(tabIds, requestOptions(browserId, signal));
+        return {
+          content: tabs.map((tab) => ({
             type: "text",
-            text: result.success ? result.message : `Scroll failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
+            text: `tab id=${tab.id} ${tab.discarded ? "discarded" : "not discarded"}`,
+          })),
+        };
+      } catch (error) {
+        return errorResult(`Failed to discard tabs: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "duplicate-browser-tab",
+    "Open a copy of a tab, with its history",
+    { tabId: z.number(), browserId: browserIdSchema },
+    async ({ tabId, browserId }, { signal }) => {
+      try {
+        const tab = await browserApi.duplicateTab(tabId, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Tab duplicated: ${describeTab(tab)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to duplicate tab: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "list-browser-containers",
+    "List the Firefox containers (contextual identities) in which tabs can be opened",
+    { browserId: browserIdSchema },
+    async ({ browserId }, { signal }) => {
+      try {
+        const containers = await browserApi.getContainerList(requestOptions(browserId, signal));
+        if (containers.length === 0) {
+          return { content: [{ type: "text", text: "No containers found" }] };
+        }
+        return {
+          content: containers.map((container) => ({
             type: "text",
-            text: `Final position: x=${result.finalPosition.x}, y=${result.finalPosition.y}`
-          },
-          {
+            text: `container cookieStoreId=${container.cookieStoreId}, name=${container.name}, color=${container.color}, icon=${container.icon}`,
+          })),
+        };
+      } catch (error) {
+        return errorResult(`Failed to list containers: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "list-browser-windows",
+    "List the windows of the user's browser, with their state, bounds and number of tabs",
+    { browserId: browserIdSchema },
+    async ({ browserId }, { signal }) => {
+      try {
+        const windows = await browserApi.getWindowList(requestOptions(browserId, signal));
+        return {
+          content: windows.map((window) => ({ type: "text", text: describeWindow(window) })),
+        };
+      } catch (error) {
+        return errorResult(`Failed to list windows: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "create-browser-window",
+    "Open a new browser window, optionally with a URL and a size. Popup windows have no toolbars",
+    {
+      type: z.enum(["normal", "popup"]).default("normal"),
+      url: z.string().optional(),
+      width: z.number().int().positive().optional(),
+      height: z.number().int().positive().optional(),
+      browserId: browserIdSchema,
+    },
+    async ({ type, url, width, height, browserId }, { signal }) => {
+      try {
+        const window = await browserApi.createWindow(
+          { type, url, width, height },
+          requestOptions(browserId, signal)
+        );
+        return {
+          content: [{ type: "text", text: `Window created: ${describeWindow(window)}` }],
+        };
+      } catch (error) {
+        return errorResult(`Failed to create window: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "focus-browser-window",
+    "Bring a browser window to the front, by window ID",
+    { windowId: z.number(), browserId: browserIdSchema },
+    async ({ windowId, browserId }, { signal }) => {
+      try {
+        const window = await browserApi.focusWindow(windowId, requestOptions(browserId, signal));
+        return {
+          content: [{ type: "text", text: `Window focused: ${describeWindow(window)}` }],
+        };
+      } catch (error) {
+        return errorResult(`Failed to focus window: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "minimize-browser-window",
+    "Minimize a browser window, by window ID",
+    { windowId: z.number(), browserId: browserIdSchema },
+    async ({ windowId, browserId }, { signal }) => {
+      try {
+        const window = await browserApi.minimizeWindow(windowId, requestOptions(browserId, signal));
+        return {
+          content: [{ type: "text", text: `Window minimized: ${describeWindow(window)}` }],
+        };
+      } catch (error) {
+        return errorResult(`Failed to minimize window: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "close-browser-window",
+    "Close a browser window and all its tabs, by window ID",
+    { windowId: z.number(), browserId: browserIdSchema },
+    async ({ windowId, browserId }, { signal }) => {
+      try {
+        await browserApi.closeWindow(windowId, requestOptions(browserId, signal));
+        return {
+          content: [{ type: "text", text: `Closed window ${windowId}` }],
+        };
+      } catch (error) {
+        return errorResult(`Failed to close window: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "move-browser-tabs",
+    "Move tabs to a browser window, by tab IDs and window ID. The tabs are placed at the given index, or at the end of the window",
+    {
+      tabIds: z.array(z.number()),
+      windowId: z.number(),
+      index: z.number().int().min(0).optional(),
+      browserId: browserIdSchema,
+    },
+    async ({ tabIds, windowId, index, browserId }, { signal }) => {
+      try {
+        const tabs = await browserApi.moveTabs(tabIds, windowId, index, requestOptions(browserId, signal));
+        return {
+          content: tabs.map((tab) => ({
             type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          }
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
+            text: `tab id=${tab.id} moved to window id=${tab.windowId}, index=${tab.index}`,
+          })),
+        };
+      } catch (error) {
+        return errorResult(`Failed to move tabs: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "save-tab-session",
+    "Save tabs as a named session that can be restored later: all the tabs, the tabs of one window, the tabs matching a URL glob pattern or title, or the given tab IDs",
+    {
+      name: sessionNameSchema,
+      windowId: z.number().optional(),
+      urlPattern: z.string().optional(),
+      titleContains: z.string().optional(),
+      tabIds: z.array(z.number()).optional(),
+      overwrite: z.boolean().default(false),
+      browserId: browserIdSchema,
+    },
+    async ({ name, overwrite, browserId, ...filter }, { signal }) => {
+      try {
+        const { session, filePath } = await browserApi.saveTabSession(
+          name,
+          filter,
+          overwrite,
+          requestOptions(browserId, signal)
+        );
+        return {
+          content: [{ type: "text", text: `Session "${name}" saved with ${session.tabs.length} tabs to ${filePath}` }],
+        };
+      } catch (error) {
+        return errorResult(`Failed to save session: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "list-tab-sessions",
+    "List the saved tab sessions, most recent first",
+    {},
+    async () => {
+      try {
+        const summaries = await browserApi.listTabSessions();
+        if (summaries.length === 0) {
+          return { content: [{ type: "text", text: "No saved session" }] };
+        }
+        return {
+          content: summaries.map((summary) => ({
             type: "text",
-            text: `Failed to scroll: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+            text:
+              `session name=${summary.name}, tabs=${summary.tabCount}, saved=${dayjs(summary.savedAt).fromNow()}` +
+              (summary.browserId ? `, browser id=${summary.browserId}` : ""),
+          })),
+        };
+      } catch (error) {
+        return errorResult(`Failed to list sessions: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "scroll-to-element",
-  "Scroll to bring an element into view using CSS selector",
-  {
-    tabId: z.number(),
-    selector: z.string(),
-    block: z.enum(["start", "center", "end", "nearest"]).default("center"),
-    inline: z.enum(["start", "center", "end", "nearest"]).default("nearest"),
-    behavior: z.enum(["auto", "smooth"]).default("smooth")
-  },
-  async ({ tabId, selector, block, inline, behavior }) => {
-    try {
-      const result = await browserApi.scrollToElement(tabId, selector, block, inline, behavior);
+  );
+
+  mcpServer.tool(
+    "restore-tab-session",
+    "Open the tabs of a saved session in a new browser window. Tabs that the deny list or URL policy of the extension doesn't allow are skipped",
+    { name: sessionNameSchema, browserId: browserIdSchema },
+    async ({ name, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.restoreTabSession(name, requestOptions(browserId, signal));
+        return {
+          content: [
+            { type: "text", text: `Session "${name}" restored in ${describeWindow(result.window)}` },
+            ...result.tabs.map((tab) => ({ type: "text" as const, text: `Tab opened: ${describeTab(tab)}` })),
+            ...result.skipped.map(({ url, reason }) => ({
+              type: "text" as const,
+              text: `Tab skipped: url=${url}, reason=${reason}`,
+            })),
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to restore session: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "diff-tab-sessions",
+    "Compare a saved session with another one, or with the tabs currently open when otherName is omitted. Tabs are compared by URL: added tabs are only in the other session or the open tabs, removed tabs only in the saved session",
+    { name: sessionNameSchema, otherName: sessionNameSchema.optional(), browserId: browserIdSchema },
+    async ({ name, otherName, browserId }, { signal }) => {
+      try {
+        const diff = await browserApi.diffTabSessions(name, otherName, requestOptions(browserId, signal));
+        const other = otherName ? `session "${otherName}"` : "the open tabs";
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Session "${name}" compared to ${other}: ${diff.added.length} added, ` +
+                `${diff.removed.length} removed, ${diff.unchangedCount} unchanged`,
+            },
+            ...diff.added.map((tab) => ({ type: "text" as const, text: `added: url=${tab.url}, title=${tab.title}` })),
+            ...diff.removed.map((tab) => ({ type: "text" as const, text: `removed: url=${tab.url}, title=${tab.title}` })),
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to diff sessions: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "delete-tab-session",
+    "Delete a saved tab session",
+    { name: sessionNameSchema },
+    async ({ name }) => {
+      try {
+        await browserApi.deleteTabSession(name);
+        return { content: [{ type: "text", text: `Session "${name}" deleted` }] };
+      } catch (error) {
+        return errorResult(`Failed to delete session: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "navigate-browser-tab",
+    "Load a URL in an open tab, optionally waiting for the page to load. Returns the final URL, title and HTTP status",
+    { tabId: z.number(), url: z.string(), waitForLoad: waitForLoadSchema, browserId: browserIdSchema },
+    async ({ tabId, url, waitForLoad, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.navigateTab(tabId, url, waitForLoad, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Navigated: ${describeNavigation(result)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to navigate tab: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "go-back-in-browser-tab",
+    "Go back to the previous page in the history of a tab, optionally waiting for the page to load",
+    { tabId: z.number(), waitForLoad: waitForLoadSchema, browserId: browserIdSchema },
+    async ({ tabId, waitForLoad, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.goBack(tabId, waitForLoad, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Went back: ${describeNavigation(result)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to go back: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "go-forward-in-browser-tab",
+    "Go forward to the next page in the history of a tab, optionally waiting for the page to load",
+    { tabId: z.number(), waitForLoad: waitForLoadSchema, browserId: browserIdSchema },
+    async ({ tabId, waitForLoad, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.goForward(tabId, waitForLoad, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Went forward: ${describeNavigation(result)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to go forward: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "reload-browser-tab",
+    "Reload a tab, optionally bypassing the cache and waiting for the page to load",
+    {
+      tabId: z.number(),
+      bypassCache: z.boolean().default(false),
+      waitForLoad: waitForLoadSchema,
+      browserId: browserIdSchema,
+    },
+    async ({ tabId, bypassCache, waitForLoad, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.reloadTab(tabId, bypassCache, waitForLoad, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Reloaded: ${describeNavigation(result)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to reload tab: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "search-browser-bookmarks",
+    "Search the bookmarks by words of their URL or title. Bookmarks in the deny list are left out",
+    {
+      query: z.string().min(1),
+      maxResults: z.number().int().positive().max(500).default(50),
+      browserId: browserIdSchema,
+    },
+    async ({ query, maxResults, browserId }, { signal }) => {
+      try {
+        const bookmarks = await browserApi.searchBookmarks(query, maxResults, requestOptions(browserId, signal));
+        if (bookmarks.length === 0) {
+          return { content: [{ type: "text", text: "No matching bookmarks" }] };
+        }
+        return {
+          content: bookmarks.map((bookmark) => ({ type: "text", text: describeBookmark(bookmark) })),
+        };
+      } catch (error) {
+        return errorResult(`Failed to search bookmarks: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "list-browser-bookmark-tree",
+    "List the bookmark folders and their bookmarks, indented by level. Starts from the given folder ID, or from the top-level folders. Bookmarks in the deny list are left out",
+    {
+      folderId: z.string().optional(),
+      maxDepth: z.number().int().min(0).optional(),
+      browserId: browserIdSchema,
+    },
+    async ({ folderId, maxDepth, browserId }, { signal }) => {
+      try {
+        const bookmarks = await browserApi.getBookmarkTree(folderId, maxDepth, requestOptions(browserId, signal));
+        if (bookmarks.length === 0) {
+          return { content: [{ type: "text", text: "The folder is empty" }] };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: bookmarks
+                .map((bookmark) => `${"  ".repeat(bookmark.depth ?? 0)}${describeBookmark(bookmark)}`)
+                .join("\n"),
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to list bookmarks: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "create-browser-bookmark",
+    "Bookmark a URL, optionally in a folder path such as \"agent findings/2026-10-18\". The missing folders are created, the first one in the browser's default bookmark folder",
+    {
+      url: z.string(),
+      title: z.string(),
+      folderPath: z.string().optional(),
+      browserId: browserIdSchema,
+    },
+    async ({ url, title, folderPath, browserId }, { signal }) => {
+      try {
+        const bookmark = await browserApi.createBookmark(
+          url,
+          title,
+          folderPath !== undefined ? splitFolderPath(folderPath) : undefined,
+          requestOptions(browserId, signal)
+        );
+        return { content: [{ type: "text", text: `Bookmark created: ${describeBookmark(bookmark)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to create bookmark: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "create-browser-bookmark-folder",
+    "Create a bookmark folder path such as \"agent findings/2026-10-18\". The existing folders of the path are reused",
+    { folderPath: z.string(), browserId: browserIdSchema },
+    async ({ folderPath, browserId }, { signal }) => {
+      try {
+        const folder = await browserApi.createBookmarkFolder(
+          splitFolderPath(folderPath),
+          requestOptions(browserId, signal)
+        );
+        return { content: [{ type: "text", text: `Bookmark folder ready: ${describeBookmark(folder)}` }] };
+      } catch (error) {
+        return errorResult(`Failed to create bookmark folder: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "remove-browser-bookmarks",
+    "Remove bookmarks and folders by ID. Only those created by the agent can be removed, folders only when all their content was",
+    { bookmarkIds: z.array(z.string()).min(1), browserId: browserIdSchema },
+    async ({ bookmarkIds, browserId }, { signal }) => {
+      try {
+        const removedIds = await browserApi.removeBookmarks(bookmarkIds, requestOptions(browserId, signal));
+        return { content: [{ type: "text", text: `Bookmarks removed: ${removedIds.join(", ")}` }] };
+      } catch (error) {
+        return errorResult(`Failed to remove bookmarks: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "find-highlight-in-browser-tab",
+    "Find and highlight text in a browser tab (use a query phrase that exists in the web content)",
+    { tabId: z.number(), queryPhrase: z.string(), browserId: browserIdSchema },
+    async ({ tabId, queryPhrase, browserId }, { signal }) => {
+      try {
+        const noOfResults = await browserApi.findHighlight(tabId, queryPhrase, requestOptions(browserId, signal));
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Number of results found and highlighted in the tab: ${noOfResults}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to find text: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "take-screenshot",
+    "Take a screenshot of a browser tab and return it as base64 encoded image data",
+    {
+      tabId: z.number(),
+      format: z.enum(["png", "jpeg"]).default("png"),
+      quality: z.number().min(0).max(100).optional(),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, format, quality, browserId }, extra) => {
+      try {
+        const screenshot = await browserApi.takeScreenshot(tabId, format, quality, {
+          ...requestOptions(browserId, extra.signal),
+          onProgress: forwardProgress(extra),
+        });
       
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Scroll failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Final position: x=${result.finalPosition.x}, y=${result.finalPosition.y}`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          }
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to scroll: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+        // Create response text based on whether file was saved
+        const mainMessage = screenshot.filePath
+          ? `Screenshot saved to: ${screenshot.filePath}`
+          : `Screenshot captured from tab ${tabId} in ${screenshot.format} format`;
+      
+        return {
+          content: [
+            {
+              type: "text",
+              text: mainMessage,
+            },
+            {
+              type: "text",
+              text: `Format: ${screenshot.format}`,
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(screenshot.timestamp).toISOString()}`,
+            },
+            {
+              type: "text",
+              text: `Image data (base64): ${screenshot.imageData.substring(0, 100)}...`,
+            }
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to take screenshot: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "scroll-to-position",
+    "Scroll to absolute coordinates in a browser tab",
+    {
+      tabId: z.number(),
+      x: z.number().min(0).default(0),
+      y: z.number().min(0),
+      behavior: z.enum(["auto", "smooth"]).default("smooth"),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, x, y, behavior, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.scrollToPosition(tabId, x, y, behavior, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Scroll failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Final position: x=${result.finalPosition.x}, y=${result.finalPosition.y}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            }
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to scroll: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "scroll-by-offset",
+    "Scroll by relative offset in a browser tab",
+    {
+      tabId: z.number(),
+      deltaX: z.number().default(0),
+      deltaY: z.number(),
+      behavior: z.enum(["auto", "smooth"]).default("smooth"),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, deltaX, deltaY, behavior, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.scrollByOffset(tabId, deltaX, deltaY, behavior, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Scroll failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Final position: x=${result.finalPosition.x}, y=${result.finalPosition.y}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            }
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to scroll: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "scroll-to-element",
+    "Scroll to bring an element into view using CSS selector",
+    {
+      tabId: z.number(),
+      selector: z.string(),
+      block: z.enum(["start", "center", "end", "nearest"]).default("center"),
+      inline: z.enum(["start", "center", "end", "nearest"]).default("nearest"),
+      behavior: z.enum(["auto", "smooth"]).default("smooth"),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, selector, block, inline, behavior, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.scrollToElement(tabId, selector, block, inline, behavior, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Scroll failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Final position: x=${result.finalPosition.x}, y=${result.finalPosition.y}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            }
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to scroll: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "click-at-coordinates",
+    "Click at specific coordinates in a browser tab",
+    {
+      tabId: z.number(),
+      x: z.number().min(0),
+      y: z.number().min(0),
+      button: z.enum(["left", "right", "middle"]).default("left"),
+      clickType: z.enum(["single", "double"]).default("single"),
+      modifiers: z.object({
+        ctrl: z.boolean().default(false),
+        alt: z.boolean().default(false),
+        shift: z.boolean().default(false),
+        meta: z.boolean().default(false)
+      }).default({}),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, x, y, button, clickType, modifiers, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.clickAtCoordinates(tabId, x, y, button, clickType, modifiers, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Click failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Element found: ${result.elementFound}, Click executed: ${result.clickExecuted}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            }
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to click: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "click-element",
+    "Click an element using CSS selector",
+    {
+      tabId: z.number(),
+      selector: z.string(),
+      button: z.enum(["left", "right", "middle"]).default("left"),
+      clickType: z.enum(["single", "double"]).default("single"),
+      waitForElement: z.number().min(0).max(10000).default(5000),
+      scrollIntoView: z.boolean().default(true),
+      modifiers: z.object({
+        ctrl: z.boolean().default(false),
+        alt: z.boolean().default(false),
+        shift: z.boolean().default(false),
+        meta: z.boolean().default(false)
+      }).default({}),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, selector, button, clickType, waitForElement, scrollIntoView, modifiers, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.clickElement(tabId, selector, button, clickType, waitForElement, scrollIntoView, modifiers, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Click failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Element found: ${result.elementFound}, Click executed: ${result.clickExecuted}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to click element: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "hover-element",
+    "Hover over an element to trigger mouseover events",
+    {
+      tabId: z.number(),
+      selector: z.string().optional(),
+      x: z.number().min(0).optional(),
+      y: z.number().min(0).optional(),
+      waitForElement: z.number().min(0).max(10000).default(5000),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, selector, x, y, waitForElement, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.hoverElement(tabId, selector, x, y, waitForElement, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Hover failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Element found: ${result.elementFound}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to hover: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "type-text",
+    "Type text into the currently focused element or specified element",
+    {
+      tabId: z.number(),
+      text: z.string(),
+      selector: z.string().optional(),
+      clearFirst: z.boolean().default(false),
+      typeDelay: z.number().min(0).max(1000).default(0),
+      waitForElement: z.number().min(0).max(10000).default(5000),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, text, selector, clearFirst, typeDelay, waitForElement, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.typeText(tabId, text, selector, clearFirst, typeDelay, waitForElement, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Type failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Characters typed: ${result.charactersTyped || 0}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to type text: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "send-special-keys",
+    "Send special keys (Enter, Tab, Escape, etc.) to focused element",
+    {
+      tabId: z.number(),
+      keys: z.array(z.enum([
+        "Enter", "Tab", "Escape", "Backspace", "Delete", "ArrowUp", "ArrowDown",
+        "ArrowLeft", "ArrowRight", "Home", "End", "PageUp", "PageDown", "F1",
+        "F2", "F3", "F4", "F5", "F6", "F7", "F8", "F9", "F10", "F11", "F12"
+      ])),
+      selector: z.string().optional(),
+      modifiers: z.object({
+        ctrl: z.boolean().default(false),
+        alt: z.boolean().default(false),
+        shift: z.boolean().default(false),
+        meta: z.boolean().default(false)
+      }).default({}),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, keys, selector, modifiers, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.sendSpecialKeys(tabId, keys, selector, modifiers, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Send special keys failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Keys sent: ${keys.join(', ')}`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to send special keys: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "click-at-coordinates",
-  "Click at specific coordinates in a browser tab",
-  {
-    tabId: z.number(),
-    x: z.number().min(0),
-    y: z.number().min(0),
-    button: z.enum(["left", "right", "middle"]).default("left"),
-    clickType: z.enum(["single", "double"]).default("single"),
-    modifiers: z.object({
-      ctrl: z.boolean().default(false),
-      alt: z.boolean().default(false),
-      shift: z.boolean().default(false),
-      meta: z.boolean().default(false)
-    }).default({})
-  },
-  async ({ tabId, x, y, button, clickType, modifiers }) => {
-    try {
-      const result = await browserApi.clickAtCoordinates(tabId, x, y, button, clickType, modifiers);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Click failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Element found: ${result.elementFound}, Click executed: ${result.clickExecuted}`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          }
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to click: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+  );
+
+  mcpServer.tool(
+    "clear-input-field",
+    "Clear text from an input field",
+    {
+      tabId: z.number(),
+      selector: z.string(),
+      waitForElement: z.number().min(0).max(10000).default(5000),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, selector, waitForElement, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.clearInputField(tabId, selector, waitForElement, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Clear field failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to clear input field: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "click-element",
-  "Click an element using CSS selector",
-  {
-    tabId: z.number(),
-    selector: z.string(),
-    button: z.enum(["left", "right", "middle"]).default("left"),
-    clickType: z.enum(["single", "double"]).default("single"),
-    waitForElement: z.number().min(0).max(10000).default(5000),
-    scrollIntoView: z.boolean().default(true),
-    modifiers: z.object({
-      ctrl: z.boolean().default(false),
-      alt: z.boolean().default(false),
-      shift: z.boolean().default(false),
-      meta: z.boolean().default(false)
-    }).default({})
-  },
-  async ({ tabId, selector, button, clickType, waitForElement, scrollIntoView, modifiers }) => {
-    try {
-      const result = await browserApi.clickElement(tabId, selector, button, clickType, waitForElement, scrollIntoView, modifiers);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Click failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Element found: ${result.elementFound}, Click executed: ${result.clickExecuted}`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to click element: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+  );
+
+  mcpServer.tool(
+    "wait-for-time",
+    "Wait for a specified amount of time",
+    {
+      duration: z.number().min(100).max(30000),
+      message: z.string().optional(),
+      browserId: browserIdSchema
+    },
+    async ({ duration, message, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.waitForTime(duration, message, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Wait failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Wait time: ${result.waitTime || 0}ms`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            }
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to wait for time: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "hover-element",
-  "Hover over an element to trigger mouseover events",
-  {
-    tabId: z.number(),
-    selector: z.string().optional(),
-    x: z.number().min(0).optional(),
-    y: z.number().min(0).optional(),
-    waitForElement: z.number().min(0).max(10000).default(5000)
-  },
-  async ({ tabId, selector, x, y, waitForElement }) => {
-    try {
-      const result = await browserApi.hoverElement(tabId, selector, x, y, waitForElement);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Hover failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Element found: ${result.elementFound}`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to hover: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
+  );
+
+  mcpServer.tool(
+    "wait-for-element",
+    "Wait for an element to appear in the DOM",
+    {
+      tabId: z.number(),
+      selector: z.string(),
+      timeout: z.number().min(100).max(30000).default(5000),
+      pollInterval: z.number().min(50).max(1000).default(100),
+      visible: z.boolean().default(false),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, selector, timeout, pollInterval, visible, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.waitForElement(tabId, selector, timeout, pollInterval, visible, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Wait failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Condition met: ${result.conditionMet}, Wait time: ${result.waitTime || 0}ms`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: exists=${result.elementInfo.exists}, visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to wait for element: ${errorMessage(error)}`, getErrorCode(error));
+      }
     }
-  }
-);
-
-mcpServer.tool(
-  "type-text",
-  "Type text into the currently focused element or specified element",
-  {
-    tabId: z.number(),
-    text: z.string(),
-    selector: z.string().optional(),
-    clearFirst: z.boolean().default(false),
-    typeDelay: z.number().min(0).max(1000).default(0),
-    waitForElement: z.number().min(0).max(10000).default(5000)
-  },
-  async ({ tabId, text, selector, clearFirst, typeDelay, waitForElement }) => {
-    try {
-      const result = await browserApi.typeText(tabId, text, selector, clearFirst, typeDelay, waitForElement);
-      
+  );
+
+  mcpServer.tool(
+    "wait-for-element-visibility",
+    "Wait for an element to become visible using IntersectionObserver",
+    {
+      tabId: z.number(),
+      selector: z.string(),
+      timeout: z.number().min(100).max(30000).default(5000),
+      threshold: z.number().min(0).max(1).default(0.1),
+      browserId: browserIdSchema
+    },
+    async ({ tabId, selector, timeout, threshold, browserId }, { signal }) => {
+      try {
+        const result = await browserApi.waitForElementVisibility(tabId, selector, timeout, threshold, requestOptions(browserId, signal));
+        if (!result.success) {
+          return errorResult(`Wait failed: ${result.message}`, result.errorCode ?? "INTERNAL");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+            {
+              type: "text",
+              text: `Condition met: ${result.conditionMet}, Wait time: ${result.waitTime || 0}ms`
+            },
+            {
+              type: "text",
+              text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            },
+            ...(result.elementInfo ? [{
+              type: "text" as const,
+              text: `Element info: exists=${result.elementInfo.exists}, visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
+            }] : [])
+          ],
+        };
+      } catch (error) {
+        return errorResult(`Failed to wait for element visibility: ${errorMessage(error)}`, getErrorCode(error));
+      }
+    }
+  );
+
+  mcpServer.tool(
+    "wait-for-condition",
+    "⚠️ DISABLED FOR SECURITY - This tool has been permanently disabled due to a critical security vulnerability",
+    {
+      tabId: z.number(),
+      condition: z.string(),
+      timeout: z.number().min(100).max(30000).default(5000),
+      pollInterval: z.number().min(50).max(1000).default(100),
+      args: z.record(z.any()).optional()
+    },
+    async ({ tabId, condition, timeout, pollInterval, args }) => {
+      // SECURITY FIX: This tool has been disabled due to critical vulnerability
+      // The previous implementation allowed arbitrary JavaScript execution via new Function()
+      // which could lead to complete system compromise, data theft, and malicious redirects
+    
       return {
         content: [
           {
             type: "text",
-            text: result.success ? result.message : `Type failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Characters typed: ${result.charactersTyped || 0}`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            text: "🚨 SECURITY ALERT: wait-for-condition feature has been disabled",
+            isError: true
           },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
           {
             type: "text",
-            text: `Failed to type text: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: "This feature previously allowed arbitrary JavaScript execution which poses a critical security risk.",
             isError: true
-          }
-        ],
-      };
-    }
-  }
-);
-
-mcpServer.tool(
-  "send-special-keys",
-  "Send special keys (Enter, Tab, Escape, etc.) to focused element",
-  {
-    tabId: z.number(),
-    keys: z.array(z.enum([
-      "Enter", "Tab", "Escape", "Backspace", "Delete", "ArrowUp", "ArrowDown",
-      "ArrowLeft", "ArrowRight", "Home", "End", "PageUp", "PageDown", "F1",
-      "F2", "F3", "F4", "F5", "F6", "F7", "F8", "F9", "F10", "F11", "F12"
-    ])),
-    selector: z.string().optional(),
-    modifiers: z.object({
-      ctrl: z.boolean().default(false),
-      alt: z.boolean().default(false),
-      shift: z.boolean().default(false),
-      meta: z.boolean().default(false)
-    }).default({})
-  },
-  async ({ tabId, keys, selector, modifiers }) => {
-    try {
-      const result = await browserApi.sendSpecialKeys(tabId, keys, selector, modifiers);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Send special keys failed: ${result.message}`,
-            isError: !result.success
           },
           {
             type: "text",
-            text: `Keys sent: ${keys.join(', ')}`
+            text: "Use these safe alternatives instead:",
+            isError: false
           },
           {
             type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            text: "• wait-for-element - Wait for an element to appear",
+            isError: false
           },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to send special keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
-      };
-    }
-  }
-);
-
-mcpServer.tool(
-  "clear-input-field",
-  "Clear text from an input field",
-  {
-    tabId: z.number(),
-    selector: z.string(),
-    waitForElement: z.number().min(0).max(10000).default(5000)
-  },
-  async ({ tabId, selector, waitForElement }) => {
-    try {
-      const result = await browserApi.clearInputField(tabId, selector, waitForElement);
-      
-      return {
-        content: [
           {
             type: "text",
-            text: result.success ? result.message : `Clear field failed: ${result.message}`,
-            isError: !result.success
+            text: "• wait-for-element-visibility - Wait for an element to become visible",
+            isError: false
           },
           {
             type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
+            text: "• wait-for-time - Wait for a specific duration",
+            isError: false
           },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
           {
             type: "text",
-            text: `Failed to clear input field: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
+            text: "For more complex conditions, combine multiple safe wait operations.",
+            isError: false
           }
         ],
       };
     }
-  }
-);
-
-mcpServer.tool(
-  "wait-for-time",
-  "Wait for a specified amount of time",
-  {
-    duration: z.number().min(100).max(30000),
-    message: z.string().optional()
-  },
-  async ({ duration, message }) => {
-    try {
-      const result = await browserApi.waitForTime(duration, message);
-      
+  );
+
+  mcpServer.resource(
+    "open-tab-contents",
+    new ResourceTemplate("browser://tab/{tabId}/content", {
+      list: async () => {
+        const openTabs = await browserApi.getTabList();
+        return {
+          resources: (openTabs ?? []).map((tab) => ({
+            uri: `browser://tab/${tab.id}/content`,
+            name: tab.title || tab.url || "",
+            mimeType: "text/plain",
+          })),
+        };
+      },
+    }),
+    async (uri, { tabId }) => {
+      const content = await browserApi.getTabContent(Number(tabId), 0);
+      const listOfLinks =
+        content?.links
+          .map(
+            (link: { text: string; url: string }) => `${link.text}: ${link.url}`
+          )
+          .join("\n") ?? "";
+      const fullText = content?.fullText ?? "";
       return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Wait failed: ${result.message}`,
-            isError: !result.success
-          },
+        contents: [
           {
-            type: "text",
-            text: `Wait time: ${result.waitTime || 0}ms`
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: `Webpage text: \n\n${fullText} \n\nWeb page Links:\n${listOfLinks}`,
           },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          }
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to wait for time: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
         ],
       };
     }
-  }
-);
-
-mcpServer.tool(
-  "wait-for-element",
-  "Wait for an element to appear in the DOM",
-  {
-    tabId: z.number(),
-    selector: z.string(),
-    timeout: z.number().min(100).max(30000).default(5000),
-    pollInterval: z.number().min(50).max(1000).default(100),
-    visible: z.boolean().default(false)
-  },
-  async ({ tabId, selector, timeout, pollInterval, visible }) => {
-    try {
-      const result = await browserApi.waitForElement(tabId, selector, timeout, pollInterval, visible);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Wait failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Condition met: ${result.conditionMet}, Wait time: ${result.waitTime || 0}ms`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: exists=${result.elementInfo.exists}, visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
+  );
+
+  mcpServer.resource(
+    "open-tabs",
+    "browser://tabs",
+    { mimeType: "text/plain" },
+    async (uri) => {
+      const text = getConnectedBrowserStates(browserApi)
+        .flatMap(({ browserId, state: { tabs, activeTabIds } }) =>
+          tabs.map((tab) => {
+            let lastAccessed = "unknown";
+            if (tab.lastAccessed) {
+              lastAccessed = dayjs(tab.lastAccessed).fromNow();
+            }
+            const active = tab.id !== undefined && activeTabIds.includes(tab.id) ? ", active" : "";
+            return (
+              `browser id=${browserId}, tab id=${tab.id}, tab url=${tab.url}, tab title=${tab.title}, ` +
+              `last accessed=${lastAccessed}${active}`
+            );
+          })
+        )
+        .join("\n");
       return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to wait for element: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
+        contents: [{ uri: uri.href, mimeType: "text/plain", text }],
       };
     }
-  }
-);
-
-mcpServer.tool(
-  "wait-for-element-visibility",
-  "Wait for an element to become visible using IntersectionObserver",
-  {
-    tabId: z.number(),
-    selector: z.string(),
-    timeout: z.number().min(100).max(30000).default(5000),
-    threshold: z.number().min(0).max(1).default(0.1)
-  },
-  async ({ tabId, selector, timeout, threshold }) => {
-    try {
-      const result = await browserApi.waitForElementVisibility(tabId, selector, timeout, threshold);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: result.success ? result.message : `Wait failed: ${result.message}`,
-            isError: !result.success
-          },
-          {
-            type: "text",
-            text: `Condition met: ${result.conditionMet}, Wait time: ${result.waitTime || 0}ms`
-          },
-          {
-            type: "text",
-            text: `Timestamp: ${new Date(result.timestamp).toISOString()}`
-          },
-          ...(result.elementInfo ? [{
-            type: "text" as const,
-            text: `Element info: exists=${result.elementInfo.exists}, visible=${result.elementInfo.visible}, interactable=${result.elementInfo.interactable}`
-          }] : [])
-        ],
-      };
-    } catch (error) {
+  );
+
+  mcpServer.resource(
+    "downloads",
+    "browser://downloads",
+    { mimeType: "text/plain" },
+    async (uri) => {
+      const text = getConnectedBrowserStates(browserApi)
+        .flatMap(({ browserId, state: { downloads } }) =>
+          downloads.map((download) => {
+            const error = download.error ? `, error=${download.error}` : "";
+            return (
+              `browser id=${browserId}, download id=${download.id}, url=${download.url}, file=${download.filename}, ` +
+              `state=${download.state}, received=${download.bytesReceived}/${download.totalBytes} bytes${error}`
+            );
+          })
+        )
+        .join("\n");
       return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to wait for element visibility: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            isError: true
-          }
-        ],
+        contents: [{ uri: uri.href, mimeType: "text/plain", text }],
       };
     }
+  );
+
+  mcpServer.server.registerCapabilities({ resources: { subscribe: true } });
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    session.subscribedUris.add(request.params.uri);
+    return {};
+  });
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    session.subscribedUris.delete(request.params.uri);
+    return {};
+  });
+
+  mcpServer.server.onclose = () => {
+    session.abortController.abort();
+    sessions.delete(session);
+  };
+  sessions.add(session);
+  return session;
+}
+
+// The state of every connected browser, as the tab and download resources cover
+// them all. Empty when no browser is connected.
+function getConnectedBrowserStates(browserApi: BrowserAPI) {
+  return browserApi.getConnectedBrowsers().map(({ browserId }) => ({
+    browserId,
+    state: browserApi.getBrowserState(browserId),
+  }));
+}
+
+function getResourcesChangedBy(event: BrowserEvent): string[] {
+  switch (event.type) {
+    case "tab-created":
+    case "tab-removed":
+    case "tab-activated":
+      return ["browser://tabs"];
+    case "tab-updated":
+      return event.loadComplete
+        ? ["browser://tabs", `browser://tab/${event.tab.id}/content`]
+        : ["browser://tabs"];
+    case "navigation-completed":
+      return ["browser://tabs", `browser://tab/${event.tabId}/content`];
+    case "download-changed":
+      return ["browser://downloads"];
   }
-);
-
-mcpServer.tool(
-  "wait-for-condition",
-  "⚠️ DISABLED FOR SECURITY - This tool has been permanently disabled due to a critical security vulnerability",
-  {
-    tabId: z.number(),
-    condition: z.string(),
-    timeout: z.number().min(100).max(30000).default(5000),
-    pollInterval: z.number().min(50).max(1000).default(100),
-    args: z.record(z.any()).optional()
-  },
-  async ({ tabId, condition, timeout, pollInterval, args }) => {
-    // SECURITY FIX: This tool has been disabled due to critical vulnerability
-    // The previous implementation allowed arbitrary JavaScript execution via new Function()
-    // which could lead to complete system compromise, data theft, and malicious redirects
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: "🚨 SECURITY ALERT: wait-for-condition feature has been disabled",
-          isError: true
-        },
-        {
-          type: "text",
-          text: "This feature previously allowed arbitrary JavaScript execution which poses a critical security risk.",
-          isError: true
-        },
-        {
-          type: "text",
-          text: "Use these safe alternatives instead:",
-          isError: false
-        },
-        {
-          type: "text",
-          text: "• wait-for-element - Wait for an element to appear",
-          isError: false
-        },
-        {
-          type: "text",
-          text: "• wait-for-element-visibility - Wait for an element to become visible",
-          isError: false
-        },
-        {
-          type: "text",
-          text: "• wait-for-time - Wait for a specific duration",
-          isError: false
-        },
-        {
-          type: "text",
-          text: "For more complex conditions, combine multiple safe wait operations.",
-          isError: false
-        }
-      ],
-    };
-  }
-);
+}
 
-mcpServer.resource(
-  "open-tab-contents",
-  new ResourceTemplate("browser://tab/{tabId}/content", {
-    list: async () => {
-      const openTabs = await browserApi.getTabList();
-      return {
-        resources: (openTabs ?? []).map((tab) => ({
-          uri: `browser://tab/${tab.id}/content`,
-          name: tab.title || tab.url || "",
-          mimeType: "text/plain",
-        })),
-      };
-    },
-  }),
-  async (uri, { tabId }) => {
-    const content = await browserApi.getTabContent(Number(tabId), 0);
-    const listOfLinks =
-      content?.links
-        .map(
-          (link: { text: string; url: string }) => `${link.text}: ${link.url}`
-        )
-        .join("\n") ?? "";
-    const fullText = content?.fullText ?? "";
-    return {
-      contents: [
-        {
-          uri: uri.href,
-          mimeType: "text/plain",
-          text: `Webpage text: \n\n${fullText} \n\nWeb page Links:\n${listOfLinks}`,
-        },
-      ],
-    };
+function notifySubscribers(event: BrowserEvent) {
+  for (const uri of getResourcesChangedBy(event)) {
+    for (const { server, subscribedUris } of sessions) {
+      if (!subscribedUris.has(uri)) {
+        continue;
+      }
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        logger.error(`Failed to notify the update of ${uri}:`, error);
+      });
+    }
   }
-);
+}
 
 // Initialize screenshot directory
-function initializeScreenshotDirectory(): string | null {
-  const screenshotDir = process.env.SCREENSHOT_DIR || './screenshots';
+function initializeScreenshotDirectory(screenshotDir: string): string | null {
   const resolvedPath = path.resolve(screenshotDir);
   
   try {
@@ -923,53 +1671,126 @@ function initializeScreenshotDirectory(): string | null {
     fs.writeFileSync(testFile, 'test');
     fs.unlinkSync(testFile);
     
-    console.error(`Screenshot directory initialized successfully: ${resolvedPath}`);
+    logger.info(`Screenshot directory initialized successfully: ${resolvedPath}`);
     return resolvedPath;
     
   } catch (error) {
     const errorCode = (error as NodeJS.ErrnoException).code;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
-    console.error(`Failed to initialize screenshot directory '${resolvedPath}':`, {
+    logger.error(`Failed to initialize screenshot directory '${resolvedPath}':`, {
       error: errorMessage,
       code: errorCode,
       originalPath: screenshotDir,
       resolvedPath: resolvedPath
     });
     
-    console.error('Screenshot file saving will be disabled for this session');
+    logger.warn('Screenshot file saving will be disabled for this session');
     return null; // Return null to indicate failure
   }
 }
 
-// Initialize screenshot directory
-const screenshotDir = initializeScreenshotDirectory();
-
-const browserApi = new BrowserAPI(screenshotDir);
-browserApi
-  .init()
-  .then((port) => {
-    console.error("Browser API initialized on port", port);
-  })
-  .catch((err) => {
-    console.error("Browser API init error", err);
-    process.exit(1);
-  });
+// How the extension reaches the server: "websocket" (default) or "native"
+// for the native messaging host. A recording can stand in for the extension.
+function createExtensionTransport(config: ServerConfig): ExtensionTransport {
+  let transport: ExtensionTransport;
+  if (config.replayFile) {
+    transport = new ReplayTransport(config.replayFile);
+  } else if (config.extensionTransport === "native") {
+    transport = new NativeMessagingTransport();
+  } else {
+    // The schema requires the secret for the websocket transport
+    transport = new WebSocketTransport(config.secret!, config.portRange);
+  }
+  return config.recordFile ? new RecordingTransport(transport, config.recordFile) : transport;
+}
+
+function main() {
+  let config: ServerConfig;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+  setLogLevel(config.logLevel);
 
-const transport = new StdioServerTransport();
-mcpServer
-  .connect(transport)
-  .then(() => {
-    console.error("MCP Server running on stdio");
-  })
-  .catch((err) => {
-    console.error("MCP Server connection error", err);
-    process.exit(1);
+  // Initialize screenshot directory
+  const screenshotDir = initializeScreenshotDirectory(config.screenshotDir);
+
+  const browserApi = new BrowserAPI(createExtensionTransport(config), {
+    screenshotDir,
+    // Created on the first save
+    sessionDir: path.resolve(config.sessionDir),
+    timeouts: config.timeouts,
+    maxContentLength: config.maxContentLength,
   });
+  browserApi.addBrowserEventListener((_browserId, event) => notifySubscribers(event));
+  browserApi
+    .init()
+    .then((where) => {
+      logger.info("Browser API initialized on", where);
+    })
+    .catch((err) => {
+      logger.error("Browser API init error", err);
+      process.exit(1);
+    });
+
+  // MCP clients connect over stdio (default), or over HTTP to share this
+  // process between several clients
+  if (config.mcpTransport === "http") {
+    const { host, port } = config.http;
+    serveHttp({
+      host,
+      port,
+      // The schema requires the token for the http transport
+      authToken: config.http.authToken!,
+      createServer: () => createMcpSession(browserApi).server,
+    })
+      .then(() => {
+        logger.info(`MCP Server running on http://${host}:${port}/mcp`);
+      })
+      .catch((err) => {
+        logger.error("MCP Server HTTP error", err);
+        process.exit(1);
+      });
 
-process.stdin.on("close", () => {
-  console.error("MCP Server closed");
-  browserApi.close();
-  mcpServer.close();
-  process.exit(0);
-});
+    const shutdown = () => {
+      logger.info("MCP Server closed");
+      browserApi.close();
+      for (const { server } of sessions) {
+        server.close();
+      }
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  } else {
+    const { server: mcpServer } = createMcpSession(browserApi);
+    const transport = new StdioServerTransport();
+    mcpServer
+      .connect(transport)
+      .then(() => {
+        logger.info("MCP Server running on stdio");
+      })
+      .catch((err) => {
+        logger.error("MCP Server connection error", err);
+        process.exit(1);
+      });
+
+    process.stdin.on("close", () => {
+      logger.info("MCP Server closed");
+      browserApi.close();
+      mcpServer.close();
+      process.exit(0);
+    });
+  }
+}
+
+// Only start the server when run, not when imported (e.g. by the tests)
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,174 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import type { SessionTab } from "@browser-control-mcp/common";
+import { BrowserApiError } from "./errors";
+
+// A named snapshot of tabs, saved as <name>.json in the session directory
+export interface TabSession {
+  name: string;
+  // In ms since the epoch
+  savedAt: number;
+  // Browser the tabs were saved from
+  browserId?: string;
+  tabs: SessionTab[];
+}
+
+export interface TabSessionSummary {
+  name: string;
+  savedAt: number;
+  browserId?: string;
+  tabCount: number;
+}
+
+// Tabs of one session missing from the other one, compared by URL
+export interface TabSessionDiff {
+  added: SessionTab[];
+  removed: SessionTab[];
+  unchangedCount: number;
+}
+
+const tabSessionSchema = z.object({
+  name: z.string(),
+  savedAt: z.number(),
+  browserId: z.string().optional(),
+  tabs: z.array(
+    z.object({
+      url: z.string(),
+      title: z.string().optional(),
+      pinned: z.boolean().optional(),
+      cookieStoreId: z.string().optional(),
+    })
+  ),
+}) satisfies z.ZodType<TabSession>;
+
+// Names are used as file names, so they cannot hold path separators or start
+// with a dot
+const SESSION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,99}$/;
+
+/**
+ * Saves the tab sessions as JSON files in a directory, created on the first
+ * save.
+ */
+export class TabSessionStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async save(session: TabSession, overwrite: boolean = false): Promise<string> {
+    const filePath = this.getFilePath(session.name);
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    try {
+      await fs.promises.writeFile(filePath, JSON.stringify(session, null, 2), {
+        flag: overwrite ? "w" : "wx",
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new BrowserApiError(
+          "INVALID_ARGUMENT",
+          `Session "${session.name}" already exists, delete it or overwrite it`
+        );
+      }
+      throw error;
+    }
+    return filePath;
+  }
+
+  async load(name: string): Promise<TabSession> {
+    const filePath = this.getFilePath(name);
+    let text: string;
+    try {
+      text = await fs.promises.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new BrowserApiError("INVALID_ARGUMENT", `Session "${name}" not found`);
+      }
+      throw error;
+    }
+    try {
+      return tabSessionSchema.parse(JSON.parse(text));
+    } catch (error) {
+      throw new BrowserApiError("INTERNAL", `Session file ${filePath} is invalid: ${(error as Error).message}`);
+    }
+  }
+
+  // The saved sessions, most recent first. Invalid session files are left out.
+  async list(): Promise<TabSessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const summaries: TabSessionSummary[] = [];
+    for (const file of files) {
+      const name = file.replace(/\.json$/, "");
+      if (name === file || !SESSION_NAME_PATTERN.test(name)) {
+        continue;
+      }
+      try {
+        const { savedAt, browserId, tabs } = await this.load(name);
+        summaries.push({ name, savedAt, browserId, tabCount: tabs.length });
+      } catch {
+        continue;
+      }
+    }
+    return summaries.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async delete(name: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.getFilePath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new BrowserApiError("INVALID_ARGUMENT", `Session "${name}" not found`);
+      }
+      throw error;
+    }
+  }
+
+  private getFilePath(name: string): string {
+    if (!SESSION_NAME_PATTERN.test(name)) {
+      throw new BrowserApiError(
+        "INVALID_ARGUMENT",
+        `Invalid session name: ${name}. Use up to 100 letters, digits, spaces, dots, dashes and underscores.`
+      );
+    }
+    return path.join(this.dir, `${name}.json`);
+  }
+}
+
+// The tabs of `to` that are not in `from` are added, the tabs of `from` that
+// are not in `to` are removed. A URL open several times counts once per tab.
+export function diffSessionTabs(from: SessionTab[], to: SessionTab[]): TabSessionDiff {
+  const remaining = new Map<string, number>();
+  for (const tab of from) {
+    remaining.set(tab.url, (remaining.get(tab.url) ?? 0) + 1);
+  }
+
+  const added: SessionTab[] = [];
+  for (const tab of to) {
+    const count = remaining.get(tab.url) ?? 0;
+    if (count > 0) {
+      remaining.set(tab.url, count - 1);
+    } else {
+      added.push(tab);
+    }
+  }
+
+  const removed: SessionTab[] = [];
+  for (const tab of from) {
+    const count = remaining.get(tab.url) ?? 0;
+    if (count > 0) {
+      remaining.set(tab.url, count - 1);
+      removed.push(tab);
+    }
+  }
+  return { added, removed, unchangedCount: to.length - added.length };
+}
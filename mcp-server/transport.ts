@@ -0,0 +1,40 @@
+import type {
+  CancelServerMessage,
+  ServerHelloMessage,
+  ServerMessageRequest,
+} from "@browser-control-mcp/common";
+
+// Payloads sent to the extension
+export type ServerPayload =
+  | ServerMessageRequest
+  | ServerHelloMessage
+  | CancelServerMessage;
+
+// A connection to one browser extension
+export interface ExtensionSocket {
+  send(payload: ServerPayload): void;
+  isOpen(): boolean;
+  close(): void;
+}
+
+export interface ExtensionTransportListener {
+  onConnect(socket: ExtensionSocket): void;
+  // Called with each payload received from the extension, once the transport
+  // has checked where it comes from
+  onPayload(socket: ExtensionSocket, payload: unknown): void;
+  onDisconnect(socket: ExtensionSocket): void;
+}
+
+/**
+ * Carries the messages between the BrowserAPI and the browser extensions. The
+ * message types are the same over every transport, only the framing and the
+ * authentication of the peer differ.
+ */
+export interface ExtensionTransport {
+  // Starts accepting extension connections, resolves with a description of
+  // where the transport listens
+  listen(listener: ExtensionTransportListener): Promise<string>;
+  // The localhost port announced in the server hello, if any
+  getPort(): number | undefined;
+  close(): void;
+}
@@ -1,4 +1,5 @@
 import * as net from 'net';
+import { logger } from './logger';
 
 export function isPortInUse(port: number): Promise<boolean> {
     return new Promise((resolve) => {
@@ -10,7 +11,7 @@ export function isPortInUse(port: number): Promise<boolean> {
         if (!resolved) {
           resolved = true;
           server.close();
-          console.error(`Port check timeout for port ${port}, assuming in use`);
+          logger.warn(`Port check timeout for port ${port}, assuming in use`);
           resolve(true);
         }
       }, 2000); // 2 second timeout
@@ -25,11 +26,11 @@ export function isPortInUse(port: number): Promise<boolean> {
             resolve(true);
           } else if (err.code === 'EACCES') {
             // Permission denied - treat as in use
-            console.error(`Permission denied for port ${port}, treating as in use`);
+            logger.warn(`Permission denied for port ${port}, treating as in use`);
             resolve(true);
           } else {
             // Some other error occurred - log it but assume port is available
-            console.error(`Error checking port ${port}:`, err.message);
+            logger.warn(`Error checking port ${port}:`, err.message);
             resolve(false);
           }
         }
@@ -55,7 +56,7 @@ export function isPortInUse(port: number): Promise<boolean> {
         if (!resolved) {
           resolved = true;
           clearTimeout(timeout);
-          console.error(`Exception when checking port ${port}:`, err);
+          logger.warn(`Exception when checking port ${port}:`, err);
           resolve(true); // Assume in use if we can't check
         }
       }
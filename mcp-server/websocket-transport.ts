@@ -0,0 +1,147 @@
+import WebSocket from "ws";
+import { isPortInUse } from "./util";
+import {
+  EnvelopeError,
+  ReplayGuard,
+  signEnvelope,
+  verifyEnvelope,
+} from "./envelope";
+import type {
+  ExtensionSocket,
+  ExtensionTransport,
+  ExtensionTransportListener,
+  ServerPayload,
+} from "./transport";
+import { logger } from "./logger";
+import type { ServerConfig } from "./config";
+
+// A WebSocket connection to an extension, with every frame signed with the
+// shared secret
+class SignedWebSocket implements ExtensionSocket {
+  constructor(
+    private readonly ws: WebSocket,
+    private readonly secret: string
+  ) {}
+
+  send(payload: ServerPayload) {
+    const signedMessage = signEnvelope(payload, this.secret);
+    this.ws.send(JSON.stringify(signedMessage));
+  }
+
+  isOpen() {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  close() {
+    this.ws.close();
+  }
+}
+
+/**
+ * Listens on the first free localhost port of the range, where the extension
+ * discovers the server by probing the range. Both sides authenticate their
+ * frames with the secret shown on the extension's options page.
+ */
+export class WebSocketTransport implements ExtensionTransport {
+  private wsServer: WebSocket.Server | null = null;
+  private readonly secret: string;
+  // Support several MCP servers, each on its own port
+  private readonly ports: number[] = [];
+  private readonly replayGuard: ReplayGuard = new ReplayGuard();
+
+  constructor(secret: string, portRange: ServerConfig["portRange"]) {
+    this.secret = secret;
+    for (let port = portRange.start; port <= portRange.end; port++) {
+      this.ports.push(port);
+    }
+  }
+
+  async listen(listener: ExtensionTransportListener) {
+    const secret = this.secret;
+    let selectedPort = null;
+    const portsInUse: number[] = [];
+
+    logger.debug(`Checking ${this.ports.length} available ports: ${this.ports.join(', ')}`);
+
+    for (const port of this.ports) {
+      const inUse = await isPortInUse(port);
+      if (!inUse) {
+        selectedPort = port;
+        logger.info(`Selected available port: ${port}`);
+        break;
+      } else {
+        portsInUse.push(port);
+        logger.debug(`Port ${port} is already in use`);
+      }
+    }
+
+    if (!selectedPort) {
+      const errorMessage = `All available ports are in use. Checked ports: ${this.ports.join(', ')}. ` +
+        `Ports in use: ${portsInUse.join(', ')}. ` +
+        `Please ensure no other MCP server instances are running, or restart your system to free up ports.`;
+      throw new Error(errorMessage);
+    }
+
+    this.wsServer = new WebSocket.Server({
+      host: "localhost",
+      port: selectedPort,
+    });
+    this.wsServer.on("connection", (connection) => {
+      const socket = new SignedWebSocket(connection, secret);
+      listener.onConnect(socket);
+
+      connection.on("message", (message) => {
+        let decoded: unknown;
+        try {
+          decoded = JSON.parse(message.toString());
+        } catch (error) {
+          logger.warn("Rejected malformed extension frame: not JSON");
+          return;
+        }
+        let payload: unknown;
+        try {
+          ({ payload } = verifyEnvelope(decoded, secret, this.replayGuard));
+        } catch (error) {
+          if (error instanceof EnvelopeError) {
+            logger.warn(`Rejected extension frame (${error.reason}): ${error.message}`);
+            return;
+          }
+          throw error;
+        }
+        listener.onPayload(socket, payload);
+      });
+      connection.on("close", () => {
+        listener.onDisconnect(socket);
+      });
+    });
+    this.wsServer.on("error", (error) => {
+      logger.error("WebSocket server error:", error);
+    });
+    // The port is bound asynchronously, until then connections are refused
+    const wsServer = this.wsServer;
+    await new Promise<void>((resolve, reject) => {
+      wsServer.once("listening", resolve);
+      wsServer.once("error", reject);
+    });
+    return `port ${selectedPort}`;
+  }
+
+  getPort() {
+    return this.wsServer?.options.port;
+  }
+
+  close() {
+    // Close WebSocket server if it exists
+    if (this.wsServer) {
+      logger.info(`Closing WebSocket server on port ${this.wsServer.options.port}`);
+      this.wsServer.close((err) => {
+        if (err) {
+          logger.error("Error closing WebSocket server:", err);
+        } else {
+          logger.info("WebSocket server closed successfully");
+        }
+      });
+      this.wsServer = null;
+    }
+  }
+}